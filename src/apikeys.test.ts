@@ -0,0 +1,70 @@
+import Database from "better-sqlite3";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createSqliteApiKeyStore } from "./apikeys.js";
+
+describe("SQLite API key store", () => {
+  let dir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "keys-"));
+    dbPath = path.join(dir, "items.db");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should keep keys across restarts", () => {
+    const first = createSqliteApiKeyStore(dbPath);
+    const { apiKey, key } = first.issue("importer");
+    first.close();
+
+    const second = createSqliteApiKeyStore(dbPath);
+    expect(second.verify(key)).toEqual(apiKey);
+    expect(second.verify(`${key}x`)).toBeUndefined();
+    second.close();
+  });
+
+  it("should keep the role of each key", () => {
+    const keys = createSqliteApiKeyStore(dbPath);
+    const editor = keys.issue("moderator", "editor");
+    const contributor = keys.issue("importer");
+
+    expect(keys.verify(editor.key)?.role).toBe("editor");
+    expect(keys.verify(contributor.key)?.role).toBe("contributor");
+    keys.close();
+  });
+
+  it("should store only a hash of each key", () => {
+    const keys = createSqliteApiKeyStore(dbPath);
+    const { key } = keys.issue("importer");
+    keys.close();
+
+    const db = new Database(dbPath);
+    const row = db.prepare("SELECT * FROM api_keys").get() as {
+      key_hash: string;
+    };
+    db.close();
+
+    expect(row.key_hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.stringify(row)).not.toContain(key);
+  });
+
+  it("should stop verifying revoked keys", () => {
+    const keys = createSqliteApiKeyStore(dbPath);
+    const { apiKey, key } = keys.issue("importer");
+
+    expect(keys.revoke(apiKey.id)).toEqual({
+      ...apiKey,
+      revokedAt: expect.any(String),
+    });
+    expect(keys.verify(key)).toBeUndefined();
+    expect(keys.revoke(99)).toBeUndefined();
+    expect(keys.list()).toEqual([{ ...apiKey, revokedAt: expect.any(String) }]);
+    keys.close();
+  });
+});
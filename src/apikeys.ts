@@ -0,0 +1,147 @@
+import { createHash, randomBytes } from "node:crypto";
+import { openDatabase } from "./db.js";
+import type { Role } from "./permissions.js";
+
+export type ApiKey = {
+  id: number;
+  // Who the key belongs to; becomes the subject of authenticated requests
+  name: string;
+  // Role of requests made with the key
+  role: Role;
+  createdAt: string;
+  revokedAt?: string;
+};
+
+// Issued keys. Implementations keep only a hash of each key.
+export type ApiKeyStore = {
+  // Create a key, for a contributor unless role is given. The plain key is
+  // returned here and nowhere else.
+  issue(name: string, role?: Role): { apiKey: ApiKey; key: string };
+  // The active key matching a plain key, if any
+  verify(key: string): ApiKey | undefined;
+  // Undefined when no key has this ID
+  revoke(id: number): ApiKey | undefined;
+  list(): ApiKey[];
+  // Whether any key is unrevoked
+  hasActiveKeys(): boolean;
+  close(): void;
+};
+
+// Keys are random, so a fast hash is enough to make a leaked table useless
+const hashKey = (key: string) => createHash("sha256").update(key).digest("hex");
+
+const generateKey = () => `key_${randomBytes(32).toString("base64url")}`;
+
+export const createMemoryApiKeyStore = (): ApiKeyStore => {
+  const keys: (ApiKey & { keyHash: string })[] = [];
+  let nextId = 1;
+
+  const withoutHash = ({ keyHash, ...apiKey }: ApiKey & { keyHash: string }) =>
+    apiKey;
+
+  return {
+    issue: (name, role = "contributor") => {
+      const key = generateKey();
+      const apiKey = {
+        id: nextId++,
+        name,
+        role,
+        createdAt: new Date().toISOString(),
+      };
+      keys.push({ ...apiKey, keyHash: hashKey(key) });
+      return { apiKey, key };
+    },
+
+    verify: (key) => {
+      const keyHash = hashKey(key);
+      const found = keys.find(
+        (apiKey) => apiKey.keyHash === keyHash && !apiKey.revokedAt
+      );
+      return found && withoutHash(found);
+    },
+
+    revoke: (id) => {
+      const found = keys.find((apiKey) => apiKey.id === id);
+
+      if (!found) {
+        return undefined;
+      }
+      found.revokedAt ??= new Date().toISOString();
+      return withoutHash(found);
+    },
+
+    list: () => keys.map(withoutHash),
+
+    hasActiveKeys: () => keys.some((apiKey) => !apiKey.revokedAt),
+
+    close: () => {},
+  };
+};
+
+type ApiKeyRow = {
+  id: number;
+  name: string;
+  role: Role;
+  created_at: string;
+  revoked_at: string | null;
+};
+
+const fromRow = (row: ApiKeyRow): ApiKey => ({
+  id: row.id,
+  name: row.name,
+  role: row.role,
+  createdAt: row.created_at,
+  ...(row.revoked_at !== null && { revokedAt: row.revoked_at }),
+});
+
+export const createSqliteApiKeyStore = (dbPath: string): ApiKeyStore => {
+  const db = openDatabase(dbPath);
+
+  return {
+    issue: (name, role = "contributor") => {
+      const key = generateKey();
+      const row = db
+        .prepare(
+          `INSERT INTO api_keys (name, role, key_hash, created_at)
+           VALUES (?, ?, ?, ?) RETURNING *`
+        )
+        .get(name, role, hashKey(key), new Date().toISOString()) as ApiKeyRow;
+      return { apiKey: fromRow(row), key };
+    },
+
+    verify: (key) => {
+      const row = db
+        .prepare(
+          "SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL"
+        )
+        .get(hashKey(key)) as ApiKeyRow | undefined;
+      return row && fromRow(row);
+    },
+
+    revoke: (id) => {
+      const row = db
+        .prepare(
+          `UPDATE api_keys SET revoked_at = coalesce(revoked_at, ?)
+           WHERE id = ? RETURNING *`
+        )
+        .get(new Date().toISOString(), id) as ApiKeyRow | undefined;
+      return row && fromRow(row);
+    },
+
+    list: () =>
+      (
+        db.prepare("SELECT * FROM api_keys ORDER BY id").all() as ApiKeyRow[]
+      ).map(fromRow),
+
+    hasActiveKeys: () =>
+      db
+        .prepare("SELECT 1 FROM api_keys WHERE revoked_at IS NULL LIMIT 1")
+        .get() !== undefined,
+
+    close: () => {
+      if (db.open) {
+        db.close();
+      }
+    },
+  };
+};
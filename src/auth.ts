@@ -0,0 +1,96 @@
+import type { ApiKeyStore } from "./apikeys.js";
+import { TokenError, verifyJwt, type JwtClaims } from "./jwt.js";
+import type { Role } from "./permissions.js";
+
+const realm = "items";
+
+// Who made a request
+export type Identity = {
+  subject: string;
+  scheme: "ApiKey" | "Bearer";
+  // ID and role of the API key used
+  keyId?: number;
+  role?: Role;
+  // Claims of the bearer token used
+  claims?: JwtClaims;
+};
+
+// Thrown for credentials that are present but not accepted. challenge is
+// the WWW-Authenticate value to answer with.
+export class AuthError extends Error {
+  constructor(message: string, readonly challenge: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export type Authenticator = {
+  // Identity for an Authorization header, or undefined when there is none.
+  // Throws AuthError for unusable credentials.
+  authenticate(authorization: string | undefined): Identity | undefined;
+  // WWW-Authenticate value listing the accepted schemes
+  challenge: string;
+};
+
+// Accepts "Authorization: ApiKey <key>" and, when a secret is configured,
+// "Authorization: Bearer <HS256 JWT>"
+export const createAuthenticator = ({
+  apiKeys,
+  jwtSecret,
+}: {
+  apiKeys: ApiKeyStore;
+  jwtSecret?: string;
+}): Authenticator => {
+  const schemes = jwtSecret ? ["Bearer", "ApiKey"] : ["ApiKey"];
+  const challenge = schemes
+    .map((scheme) => `${scheme} realm="${realm}"`)
+    .join(", ");
+
+  const authenticate = (
+    authorization: string | undefined
+  ): Identity | undefined => {
+    if (authorization === undefined) {
+      return undefined;
+    }
+
+    const [, scheme = "", credentials = ""] =
+      /^(\S+)\s+(\S+)\s*$/.exec(authorization.trim()) ?? [];
+
+    if (scheme.toLowerCase() === "apikey") {
+      const apiKey = apiKeys.verify(credentials);
+
+      if (!apiKey) {
+        throw new AuthError(
+          "Invalid API key",
+          `ApiKey realm="${realm}", error="invalid_key"`
+        );
+      }
+      return {
+        subject: apiKey.name,
+        scheme: "ApiKey",
+        keyId: apiKey.id,
+        role: apiKey.role,
+      };
+    }
+
+    if (scheme.toLowerCase() === "bearer" && jwtSecret) {
+      try {
+        const claims = verifyJwt(credentials, jwtSecret);
+        return { subject: claims.sub!, scheme: "Bearer", claims };
+      } catch (error) {
+        if (!(error instanceof TokenError)) {
+          throw error;
+        }
+        throw new AuthError(
+          error.message,
+          `Bearer realm="${realm}", error="invalid_token", ` +
+            `error_description="${error.message}"`
+        );
+      }
+    }
+
+    throw new AuthError("Unsupported authorization scheme", challenge);
+  };
+
+  return { authenticate, challenge };
+};
@@ -0,0 +1,105 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { readJsonBody, type BodyError } from "./body.js";
+
+type Outcome = { error?: BodyError; data?: unknown };
+
+describe("readJsonBody", () => {
+  let server: http.Server;
+  let port: number;
+  let outcomes: Outcome[];
+  let closed: Promise<void>;
+
+  beforeEach(async () => {
+    outcomes = [];
+    let onClose: () => void;
+    closed = new Promise((resolve) => (onClose = resolve));
+
+    server = http.createServer((req, res) => {
+      req.on("close", () => onClose());
+      readJsonBody(req, { maxSize: 16 }, (error, data) => {
+        outcomes.push({ error, data });
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(() => {
+    server.close();
+  });
+
+  // Send a body in separate chunks with chunked transfer encoding
+  const post = (chunks: Buffer[], headers: http.OutgoingHttpHeaders = {}) =>
+    new Promise<void>((resolve, reject) => {
+      const req = http.request({
+        port,
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+      });
+      req.on("response", (res) => {
+        res.resume();
+        res.on("end", resolve);
+      });
+      req.on("error", reject);
+      for (const chunk of chunks) {
+        req.write(chunk);
+      }
+      req.end();
+    });
+
+  it("should decode multibyte characters split across chunks", async () => {
+    const body = Buffer.from('"é€"');
+    await post([body.subarray(0, 2), body.subarray(2, 5), body.subarray(5)]);
+
+    expect(outcomes).toEqual([{ error: undefined, data: "é€" }]);
+  });
+
+  it("should reject bodies over the limit while streaming", async () => {
+    await post([Buffer.from('"0123456'), Buffer.from('789abcdef"')]);
+
+    expect(outcomes[0].error?.statusCode).toBe(413);
+  });
+
+  it("should reject a declared length over the limit before reading", async () => {
+    await post([Buffer.from("[" + "1,".repeat(20) + "1]")], {
+      "Content-Length": 43,
+    });
+
+    expect(outcomes[0].error?.statusCode).toBe(413);
+  });
+
+  it("should reject invalid UTF-8", async () => {
+    await post([Buffer.from([0x22, 0xc3, 0x28, 0x22])]);
+
+    expect(outcomes[0].error).toMatchObject({
+      statusCode: 400,
+      message: "Request body is not valid UTF-8",
+    });
+  });
+
+  it("should reject other charsets", async () => {
+    await post([Buffer.from("{}")], {
+      "Content-Type": "application/json; charset=latin1",
+    });
+
+    expect(outcomes[0].error?.statusCode).toBe(415);
+  });
+
+  it("should not call back when the client disconnects", async () => {
+    const req = http.request({
+      port,
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Content-Length": 10 },
+    });
+    req.on("error", () => {});
+    req.write('{"a"');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    req.destroy();
+    await closed;
+
+    expect(outcomes).toEqual([]);
+  });
+});
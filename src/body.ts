@@ -0,0 +1,124 @@
+import http from "node:http";
+
+// Why a request body was rejected, with the status code to answer with
+export class BodyError extends Error {
+  constructor(readonly statusCode: number, message: string) {
+    super(message);
+    this.name = "BodyError";
+  }
+}
+
+export type BodyOptions = {
+  // Maximum body size in bytes
+  maxSize: number;
+  // Accepted media types, without parameters
+  contentTypes?: string[];
+};
+
+// Media type of the request without parameters, lower-cased
+export const mediaType = (req: http.IncomingMessage) =>
+  req.headers["content-type"]?.split(";")[0].trim().toLowerCase();
+
+const charset = (req: http.IncomingMessage) =>
+  /;\s*charset="?([^";]+)"?/i.exec(req.headers["content-type"] ?? "")?.[1];
+
+const hasBody = (req: http.IncomingMessage) =>
+  req.headers["transfer-encoding"] !== undefined ||
+  (req.headers["content-length"] !== undefined &&
+    req.headers["content-length"] !== "0");
+
+// Stream a JSON request body into memory, enforcing size and media type.
+// Calls back with undefined data when the request has no body. If the
+// client disconnects first, the callback is never called.
+export const readJsonBody = (
+  req: http.IncomingMessage,
+  { maxSize, contentTypes = ["application/json"] }: BodyOptions,
+  callback: (error: BodyError | undefined, data?: unknown) => void
+) => {
+  if (!hasBody(req)) {
+    req.resume();
+    req.on("end", () => callback(undefined, undefined));
+    return;
+  }
+
+  const type = mediaType(req);
+  const encoding = charset(req)?.toLowerCase();
+
+  if (
+    !type ||
+    !contentTypes.includes(type) ||
+    (encoding && encoding !== "utf-8" && encoding !== "utf8")
+  ) {
+    callback(new BodyError(415, "Unsupported media type"));
+    return;
+  }
+
+  const declaredLength = Number(req.headers["content-length"]);
+
+  if (declaredLength > maxSize) {
+    callback(new BodyError(413, "Payload too large"));
+    return;
+  }
+
+  // Keep raw bytes and decode once at the end, so multibyte characters
+  // split across chunks survive intact
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let done = false;
+
+  const finish = (error: BodyError | undefined, data?: unknown) => {
+    done = true;
+    req.off("data", onData);
+    callback(error, data);
+  };
+
+  const onData = (chunk: Buffer) => {
+    size += chunk.length;
+
+    if (size > maxSize) {
+      finish(new BodyError(413, "Payload too large"));
+      return;
+    }
+
+    chunks.push(chunk);
+  };
+
+  req.on("data", onData);
+
+  req.on("end", () => {
+    if (done) {
+      return;
+    }
+
+    let text: string;
+
+    try {
+      text = new TextDecoder("utf-8", { fatal: true }).decode(
+        Buffer.concat(chunks)
+      );
+    } catch {
+      finish(new BodyError(400, "Request body is not valid UTF-8"));
+      return;
+    }
+
+    let data: unknown;
+
+    try {
+      data = text.trim() ? JSON.parse(text) : undefined;
+    } catch {
+      finish(new BodyError(400, "Invalid JSON"));
+      return;
+    }
+
+    finish(undefined, data);
+  });
+
+  // Stop buffering when the client goes away before sending everything
+  req.on("close", () => {
+    if (!req.complete) {
+      done = true;
+      chunks.length = 0;
+      req.off("data", onData);
+    }
+  });
+};
@@ -0,0 +1,136 @@
+import type { ParsedUrlQuery } from "node:querystring";
+import type { Item, ItemStore } from "./store.js";
+import {
+  validate,
+  type ObjectSchema,
+  type ValidationError,
+} from "./validation.js";
+
+export const MAX_BULK_ITEMS = 1000;
+
+// atomic: every element is applied or none is. partial: valid elements are
+// applied and failures are reported next to them.
+export type BulkMode = "atomic" | "partial";
+
+export type BulkResult = {
+  index: number;
+  status: number;
+  item?: Item;
+  error?: string;
+  details?: ValidationError[];
+};
+
+// What applying one element produced, without its index
+export type BulkOutcome = Omit<BulkResult, "index">;
+
+// Thrown inside the store transaction to undo an atomic batch
+class RollbackBatch extends Error {}
+
+const notApplied = (index: number): BulkResult => ({
+  index,
+  status: 424,
+  error: "Not applied because another item failed",
+});
+
+export const parseBulkMode = (
+  query: ParsedUrlQuery
+): { mode?: BulkMode; errors: ValidationError[] } => {
+  const mode = query.mode ?? "atomic";
+
+  if (mode !== "atomic" && mode !== "partial") {
+    return {
+      errors: [
+        {
+          field: "mode",
+          code: "invalid_value",
+          message: "mode must be atomic or partial",
+        },
+      ],
+    };
+  }
+  return { mode, errors: [] };
+};
+
+// Check the envelope of a bulk request body: a non-empty array of at most
+// MAX_BULK_ITEMS elements
+export const validateBulkBody = (data: unknown): ValidationError[] => {
+  if (!Array.isArray(data)) {
+    return [
+      {
+        field: "",
+        code: data === undefined ? "required" : "invalid_type",
+        message: "Request body must be a JSON array of items",
+      },
+    ];
+  }
+  if (data.length === 0 || data.length > MAX_BULK_ITEMS) {
+    return [
+      {
+        field: "",
+        code: data.length === 0 ? "too_few" : "too_many",
+        message: `Request body must contain between 1 and ${MAX_BULK_ITEMS} items`,
+      },
+    ];
+  }
+  return [];
+};
+
+// Validate every element against schema, then apply the valid ones inside a
+// single store transaction. Returns the status code and body to send.
+export const runBulk = <T>(
+  store: ItemStore,
+  mode: BulkMode,
+  elements: unknown[],
+  schema: ObjectSchema,
+  apply: (value: T) => BulkOutcome
+): { statusCode: number; body: object } => {
+  const validated = elements.map((element) => validate<T>(schema, element));
+  // Valid elements stay "not applied" until apply replaces their result
+  const results: BulkResult[] = validated.map(({ value, errors }, index) =>
+    value
+      ? notApplied(index)
+      : { index, status: 400, error: "Validation failed", details: errors }
+  );
+  const failed = () => results.filter((result) => result.status >= 400);
+
+  if (mode === "atomic" && validated.some(({ value }) => !value)) {
+    return {
+      statusCode: 400,
+      body: { error: "Bulk operation failed", results },
+    };
+  }
+
+  try {
+    store.transaction(() => {
+      validated.forEach(({ value }, index) => {
+        if (value) {
+          results[index] = { index, ...apply(value) };
+        }
+      });
+
+      if (mode === "atomic" && failed().length > 0) {
+        throw new RollbackBatch();
+      }
+    });
+  } catch (error) {
+    if (!(error instanceof RollbackBatch)) {
+      throw error;
+    }
+
+    return {
+      statusCode: failed()[0].status,
+      body: {
+        error: "Bulk operation failed",
+        results: results.map((result) =>
+          result.status < 400 ? notApplied(result.index) : result
+        ),
+      },
+    };
+  }
+
+  if (failed().length > 0) {
+    // Partial success
+    return { statusCode: 207, body: { results } };
+  }
+  return { statusCode: results[0].status, body: { results } };
+};
@@ -0,0 +1,226 @@
+import Database from "better-sqlite3";
+import { writeFileSync } from "node:fs";
+import { createSqliteApiKeyStore } from "./apikeys.js";
+import { generateClient } from "./clientgen.js";
+import { loadConfig } from "./config.js";
+import { migrateDown, migrateUp, migrationStatus } from "./migrate.js";
+import { migrations } from "./migrations/index.js";
+import { roles, type Role } from "./permissions.js";
+import { createMyServer } from "./server.js";
+import { createSqliteItemStore } from "./store.sql.js";
+
+// Administrative commands, e.g. `pnpm cli migrate:status`. The database
+// comes from the same config as the server (DB_PATH or --config).
+
+const usage = `Usage: pnpm cli <command> [options]
+
+Commands:
+  migrate [--to <version>]        Apply pending migrations
+  migrate:rollback [--steps <n>]  Revert the most recent migrations
+  migrate:status                  List migrations and when they were applied
+  keys:issue <name> [--role <role>]
+                                  Create an API key and print it once. Role
+                                  is viewer, contributor (default) or editor.
+  keys:revoke <id>                Revoke an API key
+  keys:list                       List API keys
+  trash:purge [--older-than-days <n>]
+                                  Permanently delete trashed items (all by
+                                  default)
+  openapi [--out <path>]          Write the OpenAPI document (default
+                                  openapi.json)
+  client [--out <path>]           Generate the typed items client from the
+                                  OpenAPI document (default src/client.ts)
+
+Options:
+  --config <path>                 JSON config file`;
+
+// Thrown for bad command lines; reported together with the usage text
+class UsageError extends Error {}
+
+// Value following a --flag, as a positive integer
+const intFlag = (args: string[], flag: string) => {
+  const index = args.indexOf(flag);
+  if (index === -1) {
+    return undefined;
+  }
+
+  const value = args[index + 1];
+  if (!value || !/^\d+$/.test(value)) {
+    throw new UsageError(`${flag} needs a non-negative integer`);
+  }
+  return Number(value);
+};
+
+// Value following --out, or fallback without one
+const outFlag = (args: string[], fallback: string) => {
+  const index = args.indexOf("--out");
+  const out = index === -1 ? fallback : args[index + 1];
+  if (!out) {
+    throw new UsageError("--out needs a path");
+  }
+  return out;
+};
+
+// The document only depends on the routes, so in-memory stores will do
+const openApiDocument = async () => {
+  const server = createMyServer({ logLevel: "silent" });
+  const document = server.openApiDocument;
+  await server.shutdown();
+  return document;
+};
+
+const databasePath = () => {
+  const { dbPath } = loadConfig();
+
+  if (!dbPath || dbPath === ":memory:") {
+    throw new UsageError(
+      "Set DB_PATH (or dbPath in --config) to a database file"
+    );
+  }
+  return dbPath;
+};
+
+const openDatabase = () => new Database(databasePath());
+
+const commands: Record<string, (args: string[]) => void | Promise<void>> = {
+  migrate: (args) => {
+    const db = openDatabase();
+    const applied = migrateUp(db, migrations, intFlag(args, "--to"));
+    db.close();
+
+    if (applied.length === 0) {
+      console.log("Database is up to date");
+    }
+    for (const { version, name } of applied) {
+      console.log(`Applied ${version} ${name}`);
+    }
+  },
+
+  "migrate:rollback": (args) => {
+    const db = openDatabase();
+    const reverted = migrateDown(db, migrations, intFlag(args, "--steps"));
+    db.close();
+
+    if (reverted.length === 0) {
+      console.log("No migrations to roll back");
+    }
+    for (const { version, name } of reverted) {
+      console.log(`Rolled back ${version} ${name}`);
+    }
+  },
+
+  "migrate:status": () => {
+    const db = openDatabase();
+    const status = migrationStatus(db, migrations);
+    db.close();
+
+    for (const { version, name, appliedAt } of status) {
+      const number = String(version).padStart(3, "0");
+      console.log(
+        appliedAt
+          ? `applied  ${number} ${name}  ${appliedAt}`
+          : `pending  ${number} ${name}`
+      );
+    }
+  },
+
+  "keys:issue": (args) => {
+    const [name] = args;
+    if (!name || name.startsWith("--")) {
+      throw new UsageError("keys:issue needs a key name");
+    }
+
+    const index = args.indexOf("--role");
+    const role = index === -1 ? "contributor" : args[index + 1];
+    if (!roles.includes(role as Role)) {
+      throw new UsageError(`--role needs one of ${roles.join(", ")}`);
+    }
+
+    const apiKeys = createSqliteApiKeyStore(databasePath());
+    const { apiKey, key } = apiKeys.issue(name, role as Role);
+    apiKeys.close();
+
+    console.log(
+      `Issued ${apiKey.role} key ${apiKey.id} for ${name}. Store it now; it is not shown again:`
+    );
+    console.log(key);
+  },
+
+  "keys:revoke": ([id]) => {
+    if (!id || !/^\d+$/.test(id)) {
+      throw new UsageError("keys:revoke needs a key ID");
+    }
+
+    const apiKeys = createSqliteApiKeyStore(databasePath());
+    const apiKey = apiKeys.revoke(Number(id));
+    apiKeys.close();
+
+    if (!apiKey) {
+      throw new Error(`No API key with ID ${id}`);
+    }
+    console.log(`Revoked key ${apiKey.id} for ${apiKey.name}`);
+  },
+
+  "keys:list": () => {
+    const apiKeys = createSqliteApiKeyStore(databasePath());
+    const keys = apiKeys.list();
+    apiKeys.close();
+
+    for (const { id, name, role, createdAt, revokedAt } of keys) {
+      console.log(
+        `${String(id).padStart(4)}  ${
+          revokedAt ? "revoked" : "active "
+        }  ${role.padEnd(11)}  ${createdAt}  ${name}`
+      );
+    }
+  },
+
+  "trash:purge": (args) => {
+    const days = intFlag(args, "--older-than-days") ?? 0;
+    const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+
+    const store = createSqliteItemStore(databasePath());
+    const count = store.purgeDeleted(new Date(cutoff).toISOString());
+    store.close();
+
+    console.log(`Purged ${count} item${count === 1 ? "" : "s"} from the trash`);
+  },
+
+  openapi: async (args) => {
+    const out = outFlag(args, "openapi.json");
+    const document = await openApiDocument();
+
+    writeFileSync(out, `${JSON.stringify(document, null, 2)}\n`);
+    console.log(`Wrote ${out}`);
+  },
+
+  client: async (args) => {
+    const out = outFlag(args, "src/client.ts");
+    const source = generateClient(await openApiDocument());
+
+    writeFileSync(out, source);
+    console.log(`Wrote ${out}`);
+  },
+};
+
+const [commandName, ...args] = process.argv.slice(2);
+const command = commands[commandName ?? ""];
+
+if (!command) {
+  console.error(usage);
+  process.exit(1);
+}
+
+try {
+  await command(args);
+} catch (error) {
+  if (error instanceof UsageError) {
+    console.error(`${error.message}\n\n${usage}`);
+  } else if (error instanceof Error) {
+    // ConfigError and SchemaTooNewError messages are meant for operators
+    console.error(error.message);
+  } else {
+    throw error;
+  }
+  process.exit(1);
+}
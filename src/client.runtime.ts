@@ -0,0 +1,198 @@
+import type { ValidationError } from "./client.js";
+
+// Hand-written part of the items client: transport, retries and error
+// mapping. The generated client.ts describes each operation and calls
+// createRequester. Only fetch and type imports, so consumers can bundle it
+// without the server's dependencies.
+
+export type ItemsClientOptions = {
+  // Server origin, e.g. "https://items.example.com"
+  baseUrl: string;
+  // Sent as "Authorization: ApiKey <key>"
+  apiKey?: string;
+  // Bearer JWT; used instead of apiKey when both are set
+  token?: string;
+  // Per attempt, in milliseconds
+  timeout?: number;
+  // How often a request answered with 5xx is tried again. Only GET, PUT and
+  // DELETE are retried; a failed POST may still have created the item.
+  retries?: number;
+  // Delay before the first retry, doubled for each further one
+  retryDelay?: number;
+};
+
+// One API operation, as client.ts is generated with it
+export type Operation = {
+  method: "GET" | "POST" | "PUT" | "DELETE";
+  // OpenAPI path, e.g. "/items/{id}"
+  path: string;
+};
+
+// Any error response; body is the parsed JSON body, if there was one
+export class ItemsApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly body?: unknown
+  ) {
+    super(message);
+    this.name = "ItemsApiError";
+  }
+}
+
+// 400 with a list of problems in the request body or query
+export class ItemsValidationError extends ItemsApiError {
+  constructor(
+    message: string,
+    readonly details: ValidationError[],
+    body: unknown
+  ) {
+    super(message, 400, body);
+    this.name = "ItemsValidationError";
+  }
+}
+
+export class ItemNotFoundError extends ItemsApiError {
+  constructor(readonly id: number, body: unknown) {
+    super(`Item ${id} not found`, 404, body);
+    this.name = "ItemNotFoundError";
+  }
+}
+
+// The server refused the ID, e.g. because it is not a positive integer
+export class InvalidItemIdError extends ItemsApiError {
+  constructor(readonly id: number, body: unknown) {
+    super(`Invalid item ID ${id}`, 400, body);
+    this.name = "InvalidItemIdError";
+  }
+}
+
+export class ItemsTimeoutError extends Error {
+  constructor(readonly timeout: number) {
+    super(`Request timed out after ${timeout}ms`);
+    this.name = "ItemsTimeoutError";
+  }
+}
+
+export type RequestOptions = {
+  body?: unknown;
+  headers?: Record<string, string>;
+  // Item ID in the path, also used to report not found and invalid ID errors
+  id?: number;
+  query?: Record<string, unknown>;
+};
+
+const idempotentMethods = ["GET", "PUT", "DELETE"];
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const parseBody = async (response: Response) => {
+  const text = await response.text();
+  try {
+    return text ? JSON.parse(text) : undefined;
+  } catch {
+    return text;
+  }
+};
+
+const toError = (status: number, body: unknown, id?: number) => {
+  const { error, details } = (body ?? {}) as {
+    error?: unknown;
+    details?: unknown;
+  };
+  const message = typeof error === "string" ? error : "Request failed";
+
+  if (id !== undefined && status === 404) {
+    return new ItemNotFoundError(id, body);
+  }
+  if (id !== undefined && status === 400 && message === "Invalid item ID") {
+    return new InvalidItemIdError(id, body);
+  }
+  if (
+    status === 400 &&
+    Array.isArray(details) &&
+    details.every((detail) => typeof detail === "object")
+  ) {
+    return new ItemsValidationError(message, details, body);
+  }
+  return new ItemsApiError(`${message} (${status})`, status, body);
+};
+
+// If-Match header for an item version, if one is given
+export const ifMatch = (version?: number): Record<string, string> =>
+  version === undefined ? {} : { "If-Match": `"${version}"` };
+
+// Send operation, retrying idempotent ones on 5xx. Resolves with the parsed
+// body of a 2xx response and throws for any other.
+export const createRequester = ({
+  baseUrl,
+  apiKey,
+  token,
+  timeout = 10_000,
+  retries = 2,
+  retryDelay = 200,
+}: ItemsClientOptions) => {
+  const origin = baseUrl.replace(/\/+$/, "");
+  const authorization = token
+    ? `Bearer ${token}`
+    : apiKey && `ApiKey ${apiKey}`;
+
+  const send = async (
+    method: string,
+    path: string,
+    body: unknown,
+    headers: Record<string, string>
+  ): Promise<{ response: Response; parsed: unknown }> => {
+    try {
+      const response = await fetch(`${origin}${path}`, {
+        method,
+        headers: {
+          Accept: "application/json",
+          ...(body !== undefined && { "Content-Type": "application/json" }),
+          ...(authorization && { Authorization: authorization }),
+          ...headers,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: AbortSignal.timeout(timeout),
+      });
+      return { response, parsed: await parseBody(response) };
+    } catch (error) {
+      if (error instanceof Error && error.name === "TimeoutError") {
+        throw new ItemsTimeoutError(timeout);
+      }
+      throw error;
+    }
+  };
+
+  return async (
+    { method, path }: Operation,
+    { body, headers = {}, id, query = {} }: RequestOptions = {}
+  ) => {
+    const allowedRetries = idempotentMethods.includes(method) ? retries : 0;
+    const search = new URLSearchParams();
+
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) {
+        search.set(key, String(value));
+      }
+    }
+    const queryString = search.toString();
+    const url = `${path.replace("{id}", String(id))}${
+      queryString && `?${queryString}`
+    }`;
+
+    for (let attempt = 0; ; attempt++) {
+      const { response, parsed } = await send(method, url, body, headers);
+
+      if (response.ok) {
+        return { body: parsed, response };
+      }
+      if (response.status >= 500 && attempt < allowedRetries) {
+        await sleep(retryDelay * 2 ** attempt);
+        continue;
+      }
+      throw toError(response.status, parsed, id);
+    }
+  };
+};
@@ -0,0 +1,167 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createMemoryApiKeyStore } from "./apikeys.js";
+import {
+  createItemsClient,
+  InvalidItemIdError,
+  ItemNotFoundError,
+  ItemsApiError,
+  ItemsTimeoutError,
+  ItemsValidationError,
+} from "./client.js";
+import {
+  createMyServer,
+  type MyServer,
+  type MyServerOptions,
+} from "./server.js";
+import type { ItemStore } from "./store.js";
+import { createMemoryItemStore } from "./store.memory.js";
+
+const baseUrlOf = (server: http.Server) =>
+  `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+describe("ItemsClient", () => {
+  let server: MyServer;
+  let baseUrl: string;
+
+  const serve = async (options: MyServerOptions = {}) => {
+    server = createMyServer({
+      host: "127.0.0.1",
+      port: 0,
+      logLevel: "silent",
+      ...options,
+    });
+    await server.start();
+    baseUrl = baseUrlOf(server);
+  };
+
+  afterEach(async () => {
+    await server.shutdown();
+  });
+
+  describe("against a running server", () => {
+    beforeEach(() => serve());
+
+    it("should create, read, list, update and delete items", async () => {
+      const client = createItemsClient({ baseUrl });
+
+      const created = await client.create({
+        name: "Widget",
+        description: "A widget",
+      });
+      expect(created).toEqual({
+        id: 1,
+        name: "Widget",
+        description: "A widget",
+        version: 1,
+      });
+      await client.create({ name: "Gadget", description: "A gadget" });
+
+      expect(await client.get(created.id)).toEqual(created);
+      expect(await client.list({ sort: "name", limit: 1 })).toEqual({
+        items: [expect.objectContaining({ name: "Gadget" })],
+        total: 2,
+      });
+
+      const updated = await client.update(
+        created.id,
+        { name: "Widget 2", description: "A better widget" },
+        { version: 1 }
+      );
+      expect(updated).toMatchObject({ name: "Widget 2", version: 2 });
+
+      expect(await client.delete(created.id)).toMatchObject({
+        id: created.id,
+        deletedAt: expect.any(String),
+      });
+      await expect(client.get(created.id)).rejects.toBeInstanceOf(
+        ItemNotFoundError
+      );
+    });
+
+    it("should map error responses to typed errors", async () => {
+      const client = createItemsClient({ baseUrl });
+
+      const invalid = await client
+        .create({ name: "", description: "x" })
+        .catch((error) => error);
+      expect(invalid).toBeInstanceOf(ItemsValidationError);
+      expect(invalid.details).toEqual([
+        expect.objectContaining({ field: "name", code: "required" }),
+      ]);
+
+      await expect(client.get(42)).rejects.toMatchObject({
+        name: "ItemNotFoundError",
+        status: 404,
+        id: 42,
+      });
+      await expect(client.get(-1)).rejects.toBeInstanceOf(InvalidItemIdError);
+
+      const { id } = await client.create({ name: "a", description: "b" });
+      const conflict = await client
+        .update(id, { name: "c", description: "d" }, { version: 5 })
+        .catch((error) => error);
+      expect(conflict).toBeInstanceOf(ItemsApiError);
+      expect(conflict.status).toBe(412);
+    });
+  });
+
+  it("should authenticate with an API key", async () => {
+    const apiKeys = createMemoryApiKeyStore();
+    const { key } = apiKeys.issue("client");
+    await serve({ apiKeys, requireAuth: true });
+
+    await expect(createItemsClient({ baseUrl }).list()).rejects.toMatchObject({
+      status: 401,
+    });
+    expect(await createItemsClient({ baseUrl, apiKey: key }).list()).toEqual({
+      items: [],
+      total: 0,
+    });
+  });
+
+  it("should retry reads answered with 5xx", async () => {
+    const store = createMemoryItemStore();
+    let failures = 2;
+    const flaky: ItemStore = {
+      ...store,
+      get: (id) => {
+        if (failures-- > 0) {
+          throw new Error("Disk on fire");
+        }
+        return store.get(id);
+      },
+    };
+    const { id } = store.create({ name: "a", description: "b" });
+    await serve({ store: flaky });
+
+    const client = createItemsClient({ baseUrl, retries: 2, retryDelay: 1 });
+
+    expect(await client.get(id)).toMatchObject({ id });
+    expect(failures).toBe(-1);
+
+    failures = 3;
+    await expect(client.get(id)).rejects.toMatchObject({ status: 500 });
+  });
+
+  it("should give up after the timeout", async () => {
+    // Accepts connections but never answers
+    const silent = http.createServer(() => undefined);
+    await new Promise<void>((resolve) =>
+      silent.listen(0, "127.0.0.1", resolve)
+    );
+    await serve();
+
+    try {
+      const client = createItemsClient({
+        baseUrl: baseUrlOf(silent),
+        timeout: 50,
+      });
+      await expect(client.list()).rejects.toBeInstanceOf(ItemsTimeoutError);
+    } finally {
+      silent.closeAllConnections();
+      await new Promise((resolve) => silent.close(resolve));
+    }
+  });
+});
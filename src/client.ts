@@ -0,0 +1,134 @@
+// Generated by `pnpm cli client` from the OpenAPI document; do not edit.
+// Transport, retries and error classes are in client.runtime.ts.
+
+import {
+  createRequester,
+  ifMatch,
+  type ItemsClientOptions,
+  type Operation,
+} from "./client.runtime.js";
+
+export {
+  InvalidItemIdError,
+  ItemNotFoundError,
+  ItemsApiError,
+  ItemsTimeoutError,
+  ItemsValidationError,
+  type ItemsClientOptions,
+} from "./client.runtime.js";
+
+export type Item = {
+  id: number;
+  name: string;
+  description: string;
+  // Incremented on every change; the ETag
+  version: number;
+  // Caller who created the item; unset when anonymous
+  ownerId?: string;
+  // When the item was moved to the trash
+  deletedAt?: string;
+};
+
+export type ItemInput = {
+  name: string;
+  description: string;
+};
+
+export type ValidationError = {
+  // Path of the offending value, e.g. "tags[2]"; "" for the root
+  field: string;
+  code: string;
+  message: string;
+};
+
+export type ListItemsParams = {
+  // Page size
+  limit?: number;
+  // Items to skip
+  offset?: number;
+  // Continue after this item in sort order; cannot be combined with offset
+  after?: number;
+  // Comma-separated fields (id, name, description), "-" for descending
+  sort?: string;
+  // Exact name
+  name?: string;
+  // Owner ID, or "me" for the caller
+  owner?: string;
+  // Case-insensitive substring of name or description
+  q?: string;
+};
+
+export type ItemPage = {
+  items: Item[];
+  // Number of matches ignoring paging
+  total: number;
+};
+
+export type ItemsClient = {
+  // List active items
+  list(params?: ListItemsParams): Promise<ItemPage>;
+  // Create an item
+  create(input: ItemInput): Promise<Item>;
+  // Get an item
+  get(id: number): Promise<Item>;
+  // Replace an item
+  update(
+    id: number,
+    input: ItemInput,
+    options?: { version?: number }
+  ): Promise<Item>;
+  // Move an item to the trash
+  delete(id: number, options?: { version?: number }): Promise<Item>;
+};
+
+const operations: Record<keyof ItemsClient, Operation> = {
+  list: { method: "GET", path: "/items" },
+  create: { method: "POST", path: "/items" },
+  get: { method: "GET", path: "/items/{id}" },
+  update: { method: "PUT", path: "/items/{id}" },
+  delete: { method: "DELETE", path: "/items/{id}" },
+};
+
+export const createItemsClient = (options: ItemsClientOptions): ItemsClient => {
+  const request = createRequester(options);
+
+  return {
+    list: async (params = {}) => {
+      const { body, response } = await request(operations.list, {
+        query: params,
+      });
+
+      return {
+        items: body as Item[],
+        total: Number(response.headers.get("X-Total-Count")),
+      };
+    },
+
+    create: async (input) => {
+      const { body } = await request(operations.create, { body: input });
+      return body as Item;
+    },
+
+    get: async (id) => {
+      const { body } = await request(operations.get, { id });
+      return body as Item;
+    },
+
+    update: async (id, input, { version } = {}) => {
+      const { body } = await request(operations.update, {
+        id,
+        body: input,
+        headers: ifMatch(version),
+      });
+      return body as Item;
+    },
+
+    delete: async (id, { version } = {}) => {
+      const { body } = await request(operations.delete, {
+        id,
+        headers: ifMatch(version),
+      });
+      return (body as { item: Item }).item;
+    },
+  };
+};
@@ -0,0 +1,58 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { generateClient } from "./clientgen.js";
+import { createMyServer } from "./server.js";
+
+describe("generateClient", () => {
+  const document = createMyServer({ logLevel: "silent" }).openApiDocument;
+
+  // A copy of the document with changes made to GET /items
+  const withListOperation = (change: (operation: any) => void) => {
+    const copy = structuredClone(document);
+    change((copy.paths["/items"] as Record<string, any>).get);
+    return copy;
+  };
+
+  it("should have generated the committed client.ts", () => {
+    const committed = readFileSync(
+      new URL("./client.ts", import.meta.url),
+      "utf8"
+    );
+
+    expect(
+      generateClient(document),
+      "client.ts is out of date; run `pnpm cli client`"
+    ).toBe(committed);
+  });
+
+  it("should follow the documented parameters", () => {
+    const source = generateClient(
+      withListOperation((operation) => {
+        operation.parameters.push({
+          name: "tag",
+          in: "query",
+          description: "Only items with this tag",
+          schema: { type: "string" },
+        });
+      })
+    );
+
+    expect(source).toContain(
+      "  // Only items with this tag\n  tag?: string;\n};"
+    );
+  });
+
+  it("should refuse operations it cannot describe", () => {
+    expect(() =>
+      generateClient(
+        withListOperation((operation) => {
+          operation.parameters.push({
+            name: "X-Tenant",
+            in: "header",
+            schema: { type: "string" },
+          });
+        })
+      )
+    ).toThrow("GET /items: only the If-Match header is supported");
+  });
+});
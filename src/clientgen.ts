@@ -0,0 +1,333 @@
+import type { OpenApiDocument } from "./openapi.js";
+
+// Generates client.ts, the typed items client, from the OpenAPI document:
+// the schema types it uses, and an ItemsClient method for every operation
+// with an "x-client-method". Run by `pnpm cli client`; clientgen.test.ts fails
+// when client.ts is out of date.
+
+type Schema = {
+  $ref?: string;
+  type?: string;
+  enum?: unknown[];
+  properties?: Record<string, Schema>;
+  required?: string[];
+  items?: Schema;
+  description?: string;
+};
+
+type Parameter = {
+  name: string;
+  in: "path" | "query" | "header";
+  description?: string;
+  schema: Schema;
+};
+
+type Response = {
+  content?: Record<string, { schema: Schema }>;
+  headers?: Record<string, { description?: string }>;
+};
+
+type Operation = {
+  "x-client-method"?: string;
+  summary?: string;
+  parameters?: (Parameter | { $ref: string })[];
+  requestBody?: { content: Record<string, { schema: Schema }> };
+  responses: Record<string, Response>;
+};
+
+// Conditional GET headers; the client does not cache, so never sends them
+const ignoredHeaders = ["If-None-Match", "If-Modified-Since"];
+
+const maxLineLength = 80;
+
+const refName = (ref: string) => ref.slice(ref.lastIndexOf("/") + 1);
+
+const pascalCase = (name: string) => name[0].toUpperCase() + name.slice(1);
+
+// Text as // comment lines that fit maxLineLength
+const comment = (text: string | undefined, indent: string) => {
+  if (!text) {
+    return [];
+  }
+
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/)) {
+    const length = indent.length + 3 + line.length + 1 + word.length;
+    if (line && length > maxLineLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  lines.push(line);
+  return lines.map((line) => `${indent}// ${line}`);
+};
+
+// Object literal on one line if it fits between prefix and suffix, else one
+// entry per line. Prettier keeps either layout as it is.
+const objectLiteral = (
+  entries: string[],
+  indent: string,
+  prefix: string,
+  suffix: string
+) => {
+  const inline = `{ ${entries.join(", ")} }`;
+  if (prefix.length + inline.length + suffix.length <= maxLineLength) {
+    return inline;
+  }
+  return `{\n${entries
+    .map((entry) => `${indent}  ${entry},`)
+    .join("\n")}\n${indent}}`;
+};
+
+export const generateClient = (document: OpenApiDocument): string => {
+  const components = document.components as unknown as {
+    schemas: Record<string, Schema>;
+    parameters: Record<string, Parameter>;
+  };
+
+  const resolve = (parameter: Parameter | { $ref: string }) =>
+    "$ref" in parameter
+      ? components.parameters[refName(parameter.$ref)]
+      : parameter;
+
+  // Schemas of components that the generated types refer to
+  const used = new Set<string>(["ValidationError"]);
+
+  const typeOf = (schema: Schema, indent: string): string => {
+    if (schema.$ref) {
+      const name = refName(schema.$ref);
+      if (!used.has(name)) {
+        used.add(name);
+        typeOf(components.schemas[name], "");
+      }
+      return name;
+    }
+    if (schema.enum) {
+      return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+    }
+    switch (schema.type) {
+      case "integer":
+      case "number":
+        return "number";
+      case "string":
+      case "boolean":
+        return schema.type;
+      case "array":
+        return `${typeOf(schema.items!, indent)}[]`;
+      case "object":
+        return objectType(schema, indent);
+    }
+    throw new Error(`Cannot generate a type for ${JSON.stringify(schema)}`);
+  };
+
+  const objectType = (
+    { properties = {}, required = [] }: Schema,
+    indent: string
+  ) => {
+    const inner = `${indent}  `;
+    const lines = Object.entries(properties).flatMap(([name, property]) => [
+      ...comment(property.description, inner),
+      `${inner}${name}${required.includes(name) ? "" : "?"}: ${typeOf(
+        property,
+        inner
+      )};`,
+    ]);
+    return `{\n${lines.join("\n")}\n${indent}}`;
+  };
+
+  const declarations: string[] = [];
+  const signatures: string[] = [];
+  const table: string[] = [];
+  const methods: string[] = [];
+  let usesIfMatch = false;
+
+  for (const [path, pathItem] of Object.entries(document.paths)) {
+    for (const [method, value] of Object.entries(pathItem)) {
+      const operation = value as Operation;
+      const name = operation["x-client-method"];
+      if (!name) {
+        continue;
+      }
+
+      const where = `${method.toUpperCase()} ${path}`;
+      const parameters = (operation.parameters ?? []).map(resolve);
+      const pathParams = parameters.filter((param) => param.in === "path");
+      const queryParams = parameters.filter((param) => param.in === "query");
+      const headers = parameters
+        .filter((param) => param.in === "header")
+        .map((param) => param.name)
+        .filter((header) => !ignoredHeaders.includes(header));
+
+      if (pathParams.some((param) => param.name !== "id")) {
+        throw new Error(`${where}: only an "id" path parameter is supported`);
+      }
+      if (headers.some((header) => header !== "If-Match")) {
+        throw new Error(`${where}: only the If-Match header is supported`);
+      }
+
+      const args: string[] = [];
+      const params: string[] = [];
+      const options: string[] = [];
+
+      if (pathParams.length > 0) {
+        args.push("id: number");
+        params.push("id");
+        options.push("id");
+      }
+
+      const bodySchema =
+        operation.requestBody?.content["application/json"]?.schema;
+      if (bodySchema) {
+        args.push(`input: ${typeOf(bodySchema, "")}`);
+        params.push("input");
+        options.push("body: input");
+      }
+
+      if (queryParams.length > 0) {
+        const type = `${pascalCase(name)}ItemsParams`;
+        const fields = queryParams.flatMap((param) => [
+          ...comment(param.description, "  "),
+          `  ${param.name}?: ${typeOf(param.schema, "  ")};`,
+        ]);
+        declarations.push(`export type ${type} = {\n${fields.join("\n")}\n};`);
+        args.push(`params?: ${type}`);
+        params.push("params = {}");
+        options.push("query: params");
+      }
+
+      if (headers.includes("If-Match")) {
+        usesIfMatch = true;
+        args.push("options?: { version?: number }");
+        params.push("{ version } = {}");
+        options.push("headers: ifMatch(version)");
+      }
+
+      // The first 2xx response with a JSON body is what the method returns
+      const [status, response] =
+        Object.entries(operation.responses).find(
+          ([status, response]) =>
+            status.startsWith("2") && response.content?.["application/json"]
+        ) ?? [];
+      const schema = response?.content?.["application/json"].schema;
+      let result: string;
+      let returned: string[];
+
+      if (schema?.$ref) {
+        result = typeOf(schema, "");
+        returned = [`return body as ${result};`];
+      } else if (
+        schema?.type === "array" &&
+        schema.items?.$ref &&
+        response?.headers?.["X-Total-Count"]
+      ) {
+        // Arrays come with their total, for paging
+        const item = typeOf(schema.items, "");
+        result = `${item}Page`;
+        declarations.push(
+          [
+            `export type ${result} = {`,
+            `  items: ${item}[];`,
+            ...comment(response.headers["X-Total-Count"].description, "  "),
+            "  total: number;",
+            "};",
+          ].join("\n")
+        );
+        returned = [
+          "",
+          "return {",
+          `  items: body as ${item}[],`,
+          '  total: Number(response.headers.get("X-Total-Count")),',
+          "};",
+        ];
+      } else if (
+        schema?.properties?.item?.$ref &&
+        schema.required?.includes("item")
+      ) {
+        // Responses that wrap the item in "item" are unwrapped
+        result = typeOf(schema.properties.item, "");
+        returned = [`return (body as { item: ${result} }).item;`];
+      } else {
+        throw new Error(`${where}: no ${status ?? "2xx"} response to return`);
+      }
+
+      comment(operation.summary, "  ").forEach((line) => signatures.push(line));
+      const signature = `  ${name}(${args.join(", ")}): Promise<${result}>;`;
+      signatures.push(
+        signature.length <= maxLineLength
+          ? signature
+          : `  ${name}(\n${args
+              .map((arg) => `    ${arg}`)
+              .join(",\n")}\n  ): Promise<${result}>;`
+      );
+
+      table.push(
+        `  ${name}: { method: "${method.toUpperCase()}", path: "${path}" },`
+      );
+
+      const bindings = returned.length > 1 ? "{ body, response }" : "{ body }";
+      const call = `      const ${bindings} = await request(operations.${name}`;
+      const requestOptions =
+        options.length > 0
+          ? `, ${objectLiteral(options, "      ", `${call}, `, ");")}`
+          : "";
+      methods.push(
+        [
+          `    ${name}: async (${params.join(", ")}) => {`,
+          `${call}${requestOptions});`,
+          ...returned.map((line) => (line ? `      ${line}` : line)),
+          "    },",
+        ].join("\n")
+      );
+    }
+  }
+
+  // Declare the used schemas in document order, ValidationError included
+  // for ItemsValidationError
+  const types = Object.entries(components.schemas)
+    .filter(([name]) => used.has(name))
+    .map(
+      ([name, schema]) => `export type ${name} = ${objectType(schema, "")};`
+    );
+
+  return `${[
+    "// Generated by `pnpm cli client` from the OpenAPI document; do not edit.",
+    "// Transport, retries and error classes are in client.runtime.ts.",
+    "",
+    "import {",
+    "  createRequester,",
+    ...(usesIfMatch ? ["  ifMatch,"] : []),
+    "  type ItemsClientOptions,",
+    "  type Operation,",
+    '} from "./client.runtime.js";',
+    "",
+    "export {",
+    "  InvalidItemIdError,",
+    "  ItemNotFoundError,",
+    "  ItemsApiError,",
+    "  ItemsTimeoutError,",
+    "  ItemsValidationError,",
+    "  type ItemsClientOptions,",
+    '} from "./client.runtime.js";',
+    "",
+    [
+      ...types,
+      ...declarations,
+      `export type ItemsClient = {\n${signatures.join("\n")}\n};`,
+      `const operations: Record<keyof ItemsClient, Operation> = {\n${table.join(
+        "\n"
+      )}\n};`,
+      [
+        "export const createItemsClient = (options: ItemsClientOptions): ItemsClient => {",
+        "  const request = createRequester(options);",
+        "",
+        "  return {",
+        methods.join("\n\n"),
+        "  };",
+        "};",
+      ].join("\n"),
+    ].join("\n\n"),
+  ].join("\n")}\n`;
+};
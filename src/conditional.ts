@@ -0,0 +1,47 @@
+import type { Item } from "./store.js";
+
+// HTTP conditional request helpers (RFC 9110 section 13)
+
+// Strong entity tag for an item, derived from its version
+export const itemETag = (item: Item) => `"${item.version}"`;
+
+// Strong tags must differ between content codings, so a compressed item is
+// tagged e.g. "3-gzip". Version tags are digits, so the suffix is unambiguous.
+export const codedETag = (etag: string, coding: string) =>
+  etag.replace(/"$/, `-${coding}"`);
+
+// Clients send back whichever tag they got; all of them name the version
+const parseETags = (header: string) =>
+  header
+    .split(",")
+    .map((tag) => tag.trim().replace(/-[a-z]+"$/, '"'))
+    .filter((tag) => tag.length > 0);
+
+// If-Match uses strong comparison, so weak tags never match
+export const matchesIfMatch = (header: string, etag: string) => {
+  const tags = parseETags(header);
+  return tags.includes("*") || tags.includes(etag);
+};
+
+// If-None-Match uses weak comparison, ignoring any W/ prefix
+export const matchesIfNoneMatch = (header: string, etag: string) => {
+  const tags = parseETags(header).map((tag) => tag.replace(/^W\//, ""));
+  return tags.includes("*") || tags.includes(etag.replace(/^W\//, ""));
+};
+
+// HTTP date for an ISO 8601 time; HTTP dates have whole seconds only
+export const httpDate = (iso: string) => new Date(iso).toUTCString();
+
+// Whether the second of an ISO 8601 time is over at now (milliseconds).
+// Until then a later change can share its HTTP date, so a client given that
+// date as Last-Modified would be told nothing changed.
+export const secondIsOver = (iso: string, now: number) =>
+  Date.parse(httpDate(iso)) + 1000 <= now;
+
+// Whether nothing changed since If-Modified-Since. Changes in the same
+// second as the header's time count as not modified, so only use this once
+// secondIsOver(lastModified).
+export const notModifiedSince = (header: string, lastModified: string) => {
+  const since = Date.parse(header);
+  return !isNaN(since) && Date.parse(httpDate(lastModified)) <= since;
+};
@@ -0,0 +1,126 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ConfigError, defaultConfig, loadConfig } from "./config.js";
+
+describe("loadConfig", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "config-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeConfig = (config: unknown) => {
+    const file = path.join(dir, "config.json");
+    fs.writeFileSync(file, JSON.stringify(config));
+    return file;
+  };
+
+  it("should use defaults without a file or environment", () => {
+    expect(loadConfig({ env: {}, argv: [] })).toEqual(defaultConfig);
+  });
+
+  it("should read environment variables", () => {
+    const config = loadConfig({
+      env: {
+        PORT: "8080",
+        HOST: "127.0.0.1",
+        DB_PATH: ":memory:",
+        CORS_ORIGINS: "https://a.example, https://b.example",
+        MAX_BODY_SIZE: "2048",
+        LOG_LEVEL: "warn",
+        SHUTDOWN_TIMEOUT: "500",
+        REQUIRE_AUTH: "true",
+        JWT_SECRET: "0123456789abcdef0123456789abcdef",
+        WEBHOOK_MAX_ATTEMPTS: "3",
+        COMPRESSION: "false",
+        COMPRESSION_THRESHOLD: "0",
+        CACHE_CONTROL: "private, max-age=60",
+      },
+      argv: [],
+    });
+
+    expect(config).toEqual({
+      port: 8080,
+      host: "127.0.0.1",
+      dbPath: ":memory:",
+      corsOrigins: ["https://a.example", "https://b.example"],
+      maxBodySize: 2048,
+      logLevel: "warn",
+      shutdownTimeout: 500,
+      requireAuth: true,
+      jwtSecret: "0123456789abcdef0123456789abcdef",
+      rateLimits: [],
+      webhookTimeout: 5000,
+      webhookMaxAttempts: 3,
+      webhookDisableAfter: 20,
+      compression: false,
+      compressionThreshold: 0,
+      cacheControl: "private, max-age=60",
+    });
+  });
+
+  it("should let environment variables override the config file", () => {
+    const file = writeConfig({ port: 4000, dbPath: "data.db" });
+
+    const config = loadConfig({
+      env: { PORT: "5000" },
+      argv: ["--config", file],
+    });
+
+    expect(config).toMatchObject({ port: 5000, dbPath: "data.db" });
+  });
+
+  it("should read the config file named by CONFIG_FILE", () => {
+    const file = writeConfig({ logLevel: "debug" });
+
+    expect(loadConfig({ env: { CONFIG_FILE: file }, argv: [] }).logLevel).toBe(
+      "debug"
+    );
+  });
+
+  it("should report every invalid setting with its source", () => {
+    const file = writeConfig({ port: "http", colour: "blue" });
+
+    expect(() =>
+      loadConfig({ env: { LOG_LEVEL: "loud" }, argv: ["--config", file] })
+    ).toThrow(
+      new ConfigError([
+        `"port" must be an integer (in ${file})`,
+        `Unknown field "colour" (in ${file})`,
+        '"logLevel" must be one of debug, info, warn, error, silent (from LOG_LEVEL)',
+      ])
+    );
+  });
+
+  it("should read rate limit rules from RATE_LIMITS", () => {
+    const rules = [{ method: "POST", capacity: 10, refillPerSecond: 0.5 }];
+
+    expect(
+      loadConfig({ env: { RATE_LIMITS: JSON.stringify(rules) }, argv: [] })
+        .rateLimits
+    ).toEqual(rules);
+    expect(() =>
+      loadConfig({
+        env: { RATE_LIMITS: '[{"capacity": 0, "refillPerSecond": 0}]' },
+        argv: [],
+      })
+    ).toThrow(
+      new ConfigError([
+        '"rateLimits[0].capacity" must be at least 1 (from RATE_LIMITS)',
+        "Rate limit refillPerSecond must be greater than 0 (from RATE_LIMITS)",
+      ])
+    );
+  });
+
+  it("should fail clearly for a missing config file", () => {
+    expect(() =>
+      loadConfig({ env: {}, argv: ["--config", path.join(dir, "none.json")] })
+    ).toThrow(/Cannot read config file/);
+  });
+});
@@ -0,0 +1,248 @@
+import fs from "node:fs";
+import type { RateLimitRule } from "./ratelimit.js";
+import { validate, type ObjectSchema } from "./validation.js";
+
+export const logLevels = ["debug", "info", "warn", "error", "silent"] as const;
+
+export type LogLevel = (typeof logLevels)[number];
+
+export type Config = {
+  port: number;
+  // Listen on all interfaces when unset
+  host?: string;
+  // SQLite database file, or ":memory:"; items are kept in memory when unset
+  dbPath?: string;
+  // Origins allowed by CORS; "*" allows any origin
+  corsOrigins: string[];
+  // Maximum request body size in bytes
+  maxBodySize: number;
+  logLevel: LogLevel;
+  // How long shutdown waits for in-flight requests, in milliseconds
+  shutdownTimeout: number;
+  // Reject requests without credentials. Invalid credentials are always
+  // rejected, and requests without them only read once an API key is
+  // issued or jwtSecret is set.
+  requireAuth: boolean;
+  // HMAC secret for bearer tokens; bearer tokens are refused when unset
+  jwtSecret?: string;
+  // Per-client token buckets; requests matching no rule are not limited
+  rateLimits: RateLimitRule[];
+  // Days deleted items stay in the trash; kept until purged when unset
+  trashRetentionDays?: number;
+  // How long a webhook receiver may take to answer, in milliseconds
+  webhookTimeout: number;
+  // Attempts per webhook delivery before it is given up
+  webhookMaxAttempts: number;
+  // Consecutive failed deliveries after which a webhook is disabled
+  webhookDisableAfter: number;
+  // Compress responses with brotli, gzip or deflate as clients accept
+  compression: boolean;
+  // JSON bodies smaller than this many bytes are sent uncompressed
+  compressionThreshold: number;
+  // Cache-Control of item read routes
+  cacheControl: string;
+};
+
+export const defaultConfig: Config = {
+  port: 3000,
+  corsOrigins: ["*"],
+  maxBodySize: 1024 * 1024,
+  logLevel: "info",
+  shutdownTimeout: 10_000,
+  requireAuth: false,
+  rateLimits: [],
+  webhookTimeout: 5000,
+  webhookMaxAttempts: 8,
+  webhookDisableAfter: 20,
+  compression: true,
+  compressionThreshold: 1024,
+  cacheControl: "no-cache",
+};
+
+// Thrown by loadConfig with every problem found, so startup can report
+// them all at once
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(
+      `Invalid configuration:\n${problems
+        .map((problem) => `  - ${problem}`)
+        .join("\n")}`
+    );
+    this.name = "ConfigError";
+  }
+}
+
+const configSchema: ObjectSchema = {
+  type: "object",
+  fields: {
+    port: { type: "integer", minimum: 0, maximum: 65535 },
+    host: { type: "string", minLength: 1 },
+    dbPath: { type: "string", minLength: 1 },
+    corsOrigins: {
+      type: "array",
+      items: { type: "string", required: true, trim: true },
+    },
+    maxBodySize: { type: "integer", minimum: 1 },
+    logLevel: { type: "string", enum: logLevels },
+    shutdownTimeout: { type: "integer", minimum: 0 },
+    requireAuth: { type: "boolean" },
+    jwtSecret: { type: "string", minLength: 32 },
+    trashRetentionDays: { type: "integer", minimum: 1 },
+    webhookTimeout: { type: "integer", minimum: 1 },
+    webhookMaxAttempts: { type: "integer", minimum: 1 },
+    webhookDisableAfter: { type: "integer", minimum: 1 },
+    compression: { type: "boolean" },
+    compressionThreshold: { type: "integer", minimum: 0 },
+    cacheControl: { type: "string", minLength: 1 },
+    rateLimits: {
+      type: "array",
+      items: {
+        type: "object",
+        required: true,
+        fields: {
+          method: { type: "string", pattern: /^[A-Za-z]+$/ },
+          route: { type: "string", pattern: /^\// },
+          capacity: { type: "integer", required: true, minimum: 1 },
+          refillPerSecond: {
+            type: "number",
+            required: true,
+            rules: [
+              {
+                code: "too_small",
+                message: "Rate limit refillPerSecond must be greater than 0",
+                test: (value) => value > 0,
+              },
+            ],
+          },
+        },
+      },
+    },
+  },
+};
+
+// Environment variable for each setting
+const envVars: Record<keyof Config, string> = {
+  port: "PORT",
+  host: "HOST",
+  dbPath: "DB_PATH",
+  corsOrigins: "CORS_ORIGINS",
+  maxBodySize: "MAX_BODY_SIZE",
+  logLevel: "LOG_LEVEL",
+  shutdownTimeout: "SHUTDOWN_TIMEOUT",
+  requireAuth: "REQUIRE_AUTH",
+  jwtSecret: "JWT_SECRET",
+  rateLimits: "RATE_LIMITS",
+  trashRetentionDays: "TRASH_RETENTION_DAYS",
+  webhookTimeout: "WEBHOOK_TIMEOUT",
+  webhookMaxAttempts: "WEBHOOK_MAX_ATTEMPTS",
+  webhookDisableAfter: "WEBHOOK_DISABLE_AFTER",
+  compression: "COMPRESSION",
+  compressionThreshold: "COMPRESSION_THRESHOLD",
+  cacheControl: "CACHE_CONTROL",
+};
+
+const numericKeys: (keyof Config)[] = [
+  "port",
+  "maxBodySize",
+  "shutdownTimeout",
+  "trashRetentionDays",
+  "webhookTimeout",
+  "webhookMaxAttempts",
+  "webhookDisableAfter",
+  "compressionThreshold",
+];
+
+// Convert environment strings to the types the schema expects. Values that
+// do not convert are passed through so validation can report them.
+const fromEnv = (env: NodeJS.ProcessEnv) => {
+  const values: Record<string, unknown> = {};
+
+  for (const [key, name] of Object.entries(envVars)) {
+    const value = env[name];
+
+    if (value === undefined || value === "") {
+      continue;
+    }
+    if (numericKeys.includes(key as keyof Config)) {
+      values[key] = /^\d+$/.test(value) ? Number(value) : value;
+    } else if (key === "requireAuth" || key === "compression") {
+      values[key] = value === "true" ? true : value === "false" ? false : value;
+    } else if (key === "rateLimits") {
+      // A JSON array, like in the config file
+      try {
+        values[key] = JSON.parse(value);
+      } catch {
+        values[key] = value;
+      }
+    } else if (key === "corsOrigins") {
+      values[key] = value.split(",").filter((origin) => origin.trim());
+    } else {
+      values[key] = value;
+    }
+  }
+
+  return values;
+};
+
+const readConfigFile = (file: string) => {
+  let text: string;
+
+  try {
+    text = fs.readFileSync(file, "utf8");
+  } catch (error) {
+    throw new ConfigError([
+      `Cannot read config file ${file}: ${(error as Error).message}`,
+    ]);
+  }
+
+  try {
+    return JSON.parse(text) as unknown;
+  } catch (error) {
+    throw new ConfigError([
+      `Config file ${file} is not valid JSON: ${(error as Error).message}`,
+    ]);
+  }
+};
+
+// Return the value following --config in the argument list
+const configFileArg = (argv: string[]) => {
+  const index = argv.indexOf("--config");
+  return index === -1 ? undefined : argv[index + 1];
+};
+
+// Load settings from defaults, then an optional JSON file (--config <path>
+// or CONFIG_FILE), then environment variables
+export const loadConfig = ({
+  env = process.env,
+  argv = process.argv.slice(2),
+}: { env?: NodeJS.ProcessEnv; argv?: string[] } = {}): Config => {
+  const file = configFileArg(argv) ?? env.CONFIG_FILE;
+  const problems: string[] = [];
+  let config: Config = { ...defaultConfig };
+
+  if (file) {
+    const { value, errors } = validate<Partial<Config>>(
+      configSchema,
+      readConfigFile(file)
+    );
+    problems.push(...errors.map((error) => `${error.message} (in ${file})`));
+    config = { ...config, ...value };
+  }
+
+  const { value, errors } = validate<Partial<Config>>(
+    configSchema,
+    fromEnv(env)
+  );
+  problems.push(
+    ...errors.map((error) => {
+      const key = error.field.split(/[.[]/)[0] as keyof Config;
+      return `${error.message} (from ${envVars[key]})`;
+    })
+  );
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  return { ...config, ...value };
+};
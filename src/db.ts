@@ -0,0 +1,18 @@
+import Database from "better-sqlite3";
+import { migrateUp } from "./migrate.js";
+import { migrations } from "./migrations/index.js";
+
+// Open an SQLite database and bring its schema up to date. Throws
+// SchemaTooNewError for databases migrated by a newer version of the code.
+export const openDatabase = (dbPath: string): Database.Database => {
+  const db = new Database(dbPath);
+
+  try {
+    migrateUp(db, migrations);
+  } catch (error) {
+    db.close();
+    throw error;
+  }
+
+  return db;
+};
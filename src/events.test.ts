@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { createEventPublisher } from "./events.js";
+import type { ItemEvent } from "./store.js";
+
+const event = (id: number): ItemEvent => ({
+  id,
+  itemId: 1,
+  type: "updated",
+  at: "2024-01-01T00:00:00.000Z",
+});
+
+describe("createEventPublisher", () => {
+  it("should deliver events once the outermost write finishes", () => {
+    let depth = 0;
+    const publisher = createEventPublisher(() => depth > 0);
+    const received: number[] = [];
+    publisher.subscribe((e) => received.push(e.id));
+
+    publisher.publishing(() => {
+      depth++;
+      publisher.publishing(() => publisher.queue(event(1)));
+      expect(received).toEqual([]);
+      depth--;
+    });
+
+    expect(received).toEqual([1]);
+  });
+
+  it("should drop events of writes that throw", () => {
+    const publisher = createEventPublisher(() => false);
+    const received: number[] = [];
+    publisher.subscribe((e) => received.push(e.id));
+
+    expect(() =>
+      publisher.publishing(() => {
+        publisher.queue(event(1));
+        throw new Error("Rolled back");
+      })
+    ).toThrow("Rolled back");
+    publisher.publishing(() => publisher.queue(event(2)));
+
+    expect(received).toEqual([2]);
+  });
+
+  it("should stop delivering after unsubscribing", () => {
+    const publisher = createEventPublisher(() => false);
+    const received: number[] = [];
+    const unsubscribe = publisher.subscribe((e) => received.push(e.id));
+
+    publisher.publishing(() => publisher.queue(event(1)));
+    unsubscribe();
+    publisher.publishing(() => publisher.queue(event(2)));
+
+    expect(received).toEqual([1]);
+  });
+});
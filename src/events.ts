@@ -0,0 +1,77 @@
+import type { Item, ItemEvent, ItemEventListener } from "./store.js";
+
+export type EventPublisher = {
+  subscribe(listener: ItemEventListener): () => void;
+  // Queue an event recorded by the write in progress
+  queue(event: ItemEvent): void;
+  // Run a store write. Its events are delivered once no transaction is
+  // open any more, and dropped if the write throws.
+  publishing<T>(write: () => T): T;
+};
+
+// Delivers item events to subscribers after the writes recording them have
+// committed, so listeners never see changes that are rolled back
+export const createEventPublisher = (
+  inTransaction: () => boolean
+): EventPublisher => {
+  const listeners = new Set<ItemEventListener>();
+  let pending: ItemEvent[] = [];
+
+  const flush = () => {
+    if (inTransaction()) {
+      return;
+    }
+
+    const events = pending;
+    pending = [];
+    for (const event of events) {
+      for (const listener of listeners) {
+        listener(event);
+      }
+    }
+  };
+
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    queue: (event) => {
+      pending.push(event);
+    },
+
+    publishing: (write) => {
+      const queued = pending.length;
+
+      try {
+        const result = write();
+        flush();
+        return result;
+      } catch (error) {
+        pending.length = queued;
+        throw error;
+      }
+    },
+  };
+};
+
+// What change streams send for an event: the item as it is after the
+// change, or as it was before being purged
+export type ChangeMessage = {
+  id: number;
+  type: ItemEvent["type"];
+  item: Item;
+};
+
+export const toChangeMessage = (event: ItemEvent): ChangeMessage => ({
+  id: event.id,
+  type: event.type,
+  item: (event.after ?? event.before)!,
+});
+
+// Format an event for a text/event-stream response
+export const formatServerSentEvent = ({ id, type, item }: ChangeMessage) =>
+  `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(item)}\n\n`;
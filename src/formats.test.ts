@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { escapeXml, itemFormats, negotiate } from "./formats.js";
+
+const offers = ["application/json", "text/csv", "application/xml"];
+
+describe("negotiate", () => {
+  it("should prefer the first offer without a preference", () => {
+    expect(negotiate(undefined, offers)).toBe("application/json");
+    expect(negotiate("*/*", offers)).toBe("application/json");
+    expect(negotiate("text/*, application/xml", offers)).toBe("text/csv");
+  });
+
+  it("should use the quality of the most specific range", () => {
+    expect(negotiate("*/*;q=0.9, application/json;q=0.2", offers)).toBe(
+      "text/csv"
+    );
+    expect(negotiate("application/*;q=0, application/xml", offers)).toBe(
+      "application/xml"
+    );
+  });
+
+  it("should return undefined when nothing is acceptable", () => {
+    expect(negotiate("image/png", offers)).toBeUndefined();
+    expect(negotiate("text/csv;q=0", offers)).toBeUndefined();
+  });
+});
+
+describe("itemFormats", () => {
+  const item = {
+    id: 1,
+    name: "a,b",
+    description: 'say "x"\r\nnext',
+    version: 2,
+    ownerId: "u1",
+  };
+
+  it("should quote CSV fields with separators, quotes and line breaks", () => {
+    expect(itemFormats["text/csv"].row(item)).toBe(
+      '1,"a,b","say ""x""\r\nnext",2,u1,\r\n'
+    );
+  });
+
+  it("should defuse CSV fields a spreadsheet would run as formulas", () => {
+    const row = (name: string) =>
+      itemFormats["text/csv"].row({ ...item, name, version: -1 });
+
+    expect(row("=HYPERLINK(1)")).toBe(
+      '1,\'=HYPERLINK(1),"say ""x""\r\nnext",-1,u1,\r\n'
+    );
+    for (const name of ["+1", "-1", "@SUM(A1)", "\tx", "'=x"]) {
+      expect(row(name)).toContain(`,'${name}`);
+    }
+    expect(row("'quoted")).toContain(",'quoted,");
+  });
+
+  it("should escape markup and drop characters XML cannot hold", () => {
+    expect(escapeXml("<a href='x'>&\u0001</a>")).toBe(
+      "&lt;a href=&apos;x&apos;&gt;&amp;\uFFFD&lt;/a&gt;"
+    );
+  });
+});
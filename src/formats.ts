@@ -0,0 +1,149 @@
+import type { Item } from "./store.js";
+
+// Representations of item listings other than JSON. Each is written row by
+// row, so listings can be streamed without building the whole body.
+export type ItemFormat = {
+  start: string;
+  row(item: Item): string;
+  end: string;
+};
+
+export const JSON_TYPE = "application/json";
+
+// Offered media types, most preferred first (for Accept: */*)
+export const listMediaTypes = [
+  JSON_TYPE,
+  "text/csv",
+  "application/x-ndjson",
+  "application/xml",
+];
+
+// Columns of CSV rows and elements of XML items, in order
+const itemFields = [
+  "id",
+  "name",
+  "description",
+  "version",
+  "ownerId",
+  "deletedAt",
+] as const;
+
+// Spreadsheets run text starting with these characters as a formula, so
+// such text is exported with a ' in front (as is text that already starts
+// with ' before one of them, so that imports can take exactly one ' off)
+const formulaPattern = /^'*[=+\-@\t\r]/;
+
+export const unescapeCsvFormula = (text: string) =>
+  formulaPattern.test(text) && text.startsWith("'") ? text.slice(1) : text;
+
+// Quote fields containing separators, quotes or line breaks (RFC 4180)
+const csvField = (value: unknown) => {
+  let text = value === undefined ? "" : String(value);
+  if (typeof value === "string" && formulaPattern.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (values: unknown[]) => `${values.map(csvField).join(",")}\r\n`;
+
+// Characters XML 1.0 cannot represent at all, even as references
+const invalidXmlChars =
+  /[^\t\n\r\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu;
+
+const xmlEntities: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&apos;",
+};
+
+export const escapeXml = (text: string) =>
+  text
+    .replace(invalidXmlChars, "\uFFFD")
+    .replace(/[&<>"']/g, (char) => xmlEntities[char]);
+
+const xmlElement = (name: string, value: unknown) =>
+  value === undefined ? "" : `<${name}>${escapeXml(String(value))}</${name}>`;
+
+export const itemFormats: Record<string, ItemFormat> = {
+  "text/csv": {
+    start: csvRow([...itemFields]),
+    row: (item) => csvRow(itemFields.map((column) => item[column])),
+    end: "",
+  },
+  "application/x-ndjson": {
+    start: "",
+    row: (item) => `${JSON.stringify(item)}\n`,
+    end: "",
+  },
+  "application/xml": {
+    start: '<?xml version="1.0" encoding="UTF-8"?>\n<items>\n',
+    row: (item) =>
+      `<item>${itemFields
+        .map((column) => xmlElement(column, item[column]))
+        .join("")}</item>\n`,
+    end: "</items>\n",
+  },
+};
+
+type MediaRange = { type: string; subtype: string; quality: number };
+
+const parseAccept = (accept: string): MediaRange[] =>
+  accept.split(",").flatMap((part) => {
+    const [range, ...params] = part.split(";").map((s) => s.trim());
+    const [type, subtype] = range.toLowerCase().split("/");
+
+    if (!type || !subtype) {
+      return [];
+    }
+
+    const q = params
+      .map((param) => /^q=([\d.]+)$/i.exec(param)?.[1])
+      .find((value) => value !== undefined);
+    const quality = q === undefined ? 1 : Number(q);
+
+    return isNaN(quality) ? [] : [{ type, subtype, quality }];
+  });
+
+// The offered media type the Accept header prefers, or undefined when it
+// accepts none of them. Each type takes the quality of its most specific
+// matching range; ties go to the earlier offer. No header accepts anything.
+export const negotiate = (
+  accept: string | undefined,
+  offers: string[]
+): string | undefined => {
+  if (!accept?.trim()) {
+    return offers[0];
+  }
+
+  const ranges = parseAccept(accept);
+  let best: { offer: string; quality: number } | undefined;
+
+  for (const offer of offers) {
+    const [type, subtype] = offer.split("/");
+    const match = ranges
+      .map((range) => ({
+        range,
+        specificity:
+          range.type === type && range.subtype === subtype
+            ? 2
+            : range.type === type && range.subtype === "*"
+            ? 1
+            : range.type === "*" && range.subtype === "*"
+            ? 0
+            : -1,
+      }))
+      .filter(({ specificity }) => specificity >= 0)
+      .sort((a, b) => b.specificity - a.specificity)[0];
+
+    if (match && match.range.quality > 0) {
+      if (!best || match.range.quality > best.quality) {
+        best = { offer, quality: match.range.quality };
+      }
+    }
+  }
+
+  return best?.offer;
+};
@@ -0,0 +1,195 @@
+import { describe, expect, it, vi } from "vitest";
+import { itemFormats } from "./formats.js";
+import {
+  createCsvParser,
+  createImporter,
+  createNdjsonParser,
+  type ImportRecord,
+  type RecordParser,
+} from "./import.js";
+import { createMemoryItemStore } from "./store.memory.js";
+
+// Feed text to parser in chunks of the given size
+const parseInChunks = (parser: RecordParser, text: string, size: number) => {
+  const records: ImportRecord[] = [];
+  for (let index = 0; index < text.length; index += size) {
+    records.push(...parser.push(text.slice(index, index + size)));
+  }
+  return [...records, ...parser.end()];
+};
+
+describe("createCsvParser", () => {
+  const csv =
+    '\uFEFFid,Name,description\r\n7,"Say ""hi"", there","Line 1\nLine 2"\r\n' +
+    "\r\n8,Plain,Last";
+
+  it.each([1, 3, csv.length])(
+    "should parse quoted fields in chunks of %i",
+    (size) => {
+      expect(parseInChunks(createCsvParser(1000), csv, size)).toEqual([
+        {
+          row: 2,
+          value: { name: 'Say "hi", there', description: "Line 1\nLine 2" },
+        },
+        { row: 4, value: { name: "Plain", description: "Last" } },
+      ]);
+    }
+  );
+
+  it.each(["=1+1", "'=1+1", "-", "'plain", "plain"])(
+    "should read the name %j back from an export",
+    (name) => {
+      const csv = itemFormats["text/csv"];
+      const item = { id: 1, name, description: "d", version: 1 };
+
+      expect(createCsvParser(1000).push(csv.start + csv.row(item))).toEqual([
+        { row: 2, value: { name, description: "d" } },
+      ]);
+    }
+  );
+
+  it("should report an unclosed quote", () => {
+    const parser = createCsvParser(1000);
+
+    expect(parser.push('name,description\na,"b\n')).toEqual([]);
+    expect(parser.end()).toEqual([
+      {
+        row: 2,
+        error: expect.objectContaining({ code: "invalid_csv" }),
+      },
+    ]);
+  });
+
+  it("should refuse uploads without the needed columns", () => {
+    expect(() => createCsvParser(1000).push("name,notes\n")).toThrow(
+      "The CSV header must have name and description columns"
+    );
+    expect(() => createCsvParser(1000).end()).toThrow(
+      "The CSV upload has no header row"
+    );
+  });
+
+  it("should refuse rows longer than the limit", () => {
+    const parser = createCsvParser(20);
+
+    expect(() => parser.push(`name,description\na,${"x".repeat(20)}`)).toThrow(
+      expect.objectContaining({ statusCode: 413 })
+    );
+  });
+});
+
+describe("createNdjsonParser", () => {
+  it("should parse one object per line, dropping output fields", () => {
+    const text =
+      '{"id":3,"name":"a","description":"b","version":2}\n\nnot json\r\n' +
+      '{"name":"c","description":"d"}';
+
+    expect(parseInChunks(createNdjsonParser(1000), text, 4)).toEqual([
+      { row: 1, value: { name: "a", description: "b" } },
+      {
+        row: 3,
+        error: expect.objectContaining({ code: "invalid_json" }),
+      },
+      { row: 4, value: { name: "c", description: "d" } },
+    ]);
+  });
+});
+
+describe("createImporter", () => {
+  const record = (row: number, name: string, description = "imported") => ({
+    row,
+    value: { name, description },
+  });
+
+  it("should write in batched transactions", () => {
+    const store = createMemoryItemStore();
+    const transaction = vi.spyOn(store, "transaction");
+    const importer = createImporter(
+      store,
+      { dryRun: false, onDuplicate: "error" },
+      undefined,
+      2
+    );
+
+    ["a", "b", "c"].forEach((name, index) =>
+      importer.add(record(index + 1, name))
+    );
+    expect(transaction).toHaveBeenCalledTimes(1);
+
+    expect(importer.finish()).toMatchObject({ rows: 3, created: 3 });
+    expect(transaction).toHaveBeenCalledTimes(2);
+  });
+
+  it("should report only written rows when interrupted", () => {
+    const store = createMemoryItemStore();
+    const importer = createImporter(
+      store,
+      { dryRun: false, onDuplicate: "error" },
+      undefined,
+      2
+    );
+
+    ["a", "b", "c"].forEach((name, index) =>
+      importer.add(record(index + 1, name))
+    );
+
+    expect(importer.interrupt()).toMatchObject({
+      complete: false,
+      rows: 3,
+      created: 2,
+    });
+    expect(store.get(3)).toBeUndefined();
+  });
+
+  it("should leave the report as it was when a batch fails", () => {
+    const store = createMemoryItemStore();
+    const importer = createImporter(
+      store,
+      { dryRun: false, onDuplicate: "error" },
+      undefined,
+      2
+    );
+    importer.add(record(1, "a"));
+    importer.add(record(2, "b"));
+    vi.spyOn(store, "create").mockImplementation(() => {
+      throw new Error("disk full");
+    });
+
+    importer.add(record(3, "c"));
+    expect(() => importer.add(record(4, "d"))).toThrow("disk full");
+    expect(importer.interrupt()).toMatchObject({ rows: 4, created: 2 });
+  });
+
+  it("should find duplicates within a dry run without writing", () => {
+    const store = createMemoryItemStore();
+    store.create({ name: "a", description: "old" });
+    const importer = createImporter(
+      store,
+      { dryRun: true, onDuplicate: "update" },
+      undefined
+    );
+
+    importer.add(record(1, "a"));
+    importer.add(record(2, "b"));
+    importer.add(record(3, "b"));
+    importer.add(record(4, ""));
+
+    expect(importer.finish()).toEqual({
+      dryRun: true,
+      complete: true,
+      rows: 4,
+      created: 1,
+      updated: 2,
+      skipped: 0,
+      failed: 1,
+      errors: [
+        {
+          row: 4,
+          details: [expect.objectContaining({ field: "name" })],
+        },
+      ],
+    });
+    expect(store.get(1)?.description).toBe("old");
+    expect(store.get(2)).toBeUndefined();
+  });
+});
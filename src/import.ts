@@ -0,0 +1,433 @@
+import type { ParsedUrlQuery } from "node:querystring";
+import { BodyError } from "./body.js";
+import { unescapeCsvFormula } from "./formats.js";
+import { single } from "./list.js";
+import { isAllowed, type Caller } from "./permissions.js";
+import { itemInputSchema } from "./schemas.js";
+import type { Item, ItemInput, ItemStore } from "./store.js";
+import { validate, type ValidationError } from "./validation.js";
+
+// Rows written per transaction when importing
+export const IMPORT_BATCH_SIZE = 500;
+
+export const importMediaTypes = ["text/csv", "application/x-ndjson"];
+
+// What to do with a row whose name matches an existing item: leave the item
+// alone, replace its description, or report the row as failed
+export type DuplicateMode = "skip" | "update" | "error";
+
+export type ImportParams = {
+  // Validate and report without writing anything
+  dryRun: boolean;
+  onDuplicate: DuplicateMode;
+};
+
+// A record read from the upload. row is its position in the upload, counting
+// the CSV header and blank lines, so it matches spreadsheet row numbers.
+export type ImportRecord = {
+  row: number;
+  value?: unknown;
+  // Why the record could not be read
+  error?: ValidationError;
+};
+
+export type ImportRowError = {
+  row: number;
+  details: ValidationError[];
+};
+
+export type ImportReport = {
+  dryRun: boolean;
+  // False when the upload failed part way. Rows read before the failure
+  // were imported as reported, except those not written yet, which are
+  // counted in rows only.
+  complete: boolean;
+  // Records read, without the CSV header and blank lines
+  rows: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  // Why each failed row failed, in upload order
+  errors: ImportRowError[];
+};
+
+const duplicateModes: DuplicateMode[] = ["skip", "update", "error"];
+
+export const parseImportParams = (
+  query: ParsedUrlQuery
+): { params?: ImportParams; errors: ValidationError[] } => {
+  const errors: ValidationError[] = [];
+  const dryRun = single(query, "dryRun") ?? "false";
+  const onDuplicate = single(query, "onDuplicate") ?? "error";
+
+  if (dryRun !== "true" && dryRun !== "false") {
+    errors.push({
+      field: "dryRun",
+      code: "invalid_value",
+      message: "dryRun must be true or false",
+    });
+  }
+  if (!duplicateModes.includes(onDuplicate as DuplicateMode)) {
+    errors.push({
+      field: "onDuplicate",
+      code: "invalid_value",
+      message: `onDuplicate must be one of ${duplicateModes.join(", ")}`,
+    });
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+  return {
+    params: {
+      dryRun: dryRun === "true",
+      onDuplicate: onDuplicate as DuplicateMode,
+    },
+    errors,
+  };
+};
+
+export type RecordParser = {
+  // Records completed by this chunk of the upload
+  push(text: string): ImportRecord[];
+  // The last record, if the upload does not end with a line break
+  end(): ImportRecord[];
+};
+
+const rowTooLarge = (maxRowSize: number) =>
+  new BodyError(413, `Rows must not exceed ${maxRowSize} characters`);
+
+// Fields of a CSV upload as in RFC 4180: separated by commas, optionally
+// quoted with "" for a literal quote, records ending with LF or CRLF. The
+// header row names the columns; name and description are read, other
+// columns (e.g. id and version of an exported listing) are ignored. The '
+// that exports put before formula-like text is taken off again.
+export const createCsvParser = (maxRowSize: number): RecordParser => {
+  let field = "";
+  let fields: string[] = [];
+  let rowSize = 0;
+  let inQuotes = false;
+  // The previous character closed a quoted field, so another quote is an
+  // escaped one
+  let afterQuote = false;
+  let skipLineFeed = false;
+  let row = 0;
+  let columns: { name: number; description: number } | undefined;
+
+  const toRecord = (): ImportRecord | undefined => {
+    const values = [...fields, field];
+    row++;
+    field = "";
+    fields = [];
+    rowSize = 0;
+
+    if (values.length === 1 && values[0].trim() === "") {
+      return undefined;
+    }
+
+    if (!columns) {
+      // Spreadsheets often start the file with a byte order mark
+      const names = values.map((value, index) =>
+        (index === 0 ? value.replace(/^\uFEFF/, "") : value)
+          .trim()
+          .toLowerCase()
+      );
+      columns = {
+        name: names.indexOf("name"),
+        description: names.indexOf("description"),
+      };
+
+      if (columns.name === -1 || columns.description === -1) {
+        throw new BodyError(
+          400,
+          "The CSV header must have name and description columns"
+        );
+      }
+      return undefined;
+    }
+
+    return {
+      row,
+      value: {
+        name: unescapeCsvFormula(values[columns.name] ?? ""),
+        description: unescapeCsvFormula(values[columns.description] ?? ""),
+      },
+    };
+  };
+
+  return {
+    push: (text) => {
+      const records: ImportRecord[] = [];
+
+      for (const char of text) {
+        if (++rowSize > maxRowSize) {
+          throw rowTooLarge(maxRowSize);
+        }
+
+        const wasAfterQuote = afterQuote;
+        const wasSkipLineFeed = skipLineFeed;
+        afterQuote = false;
+        skipLineFeed = false;
+
+        if (inQuotes) {
+          if (char === '"') {
+            inQuotes = false;
+            afterQuote = true;
+          } else {
+            field += char;
+          }
+        } else if (char === '"') {
+          if (wasAfterQuote) {
+            field += '"';
+            inQuotes = true;
+          } else if (field === "") {
+            inQuotes = true;
+          } else {
+            field += char;
+          }
+        } else if (char === ",") {
+          fields.push(field);
+          field = "";
+        } else if (char === "\r" || char === "\n") {
+          if (char === "\n" && wasSkipLineFeed) {
+            rowSize = 0;
+            continue;
+          }
+          skipLineFeed = char === "\r";
+          const record = toRecord();
+          if (record) {
+            records.push(record);
+          }
+        } else {
+          field += char;
+        }
+      }
+
+      return records;
+    },
+
+    end: () => {
+      if (inQuotes) {
+        row++;
+        return [
+          {
+            row,
+            error: {
+              field: "",
+              code: "invalid_csv",
+              message: "Quoted field is not closed",
+            },
+          },
+        ];
+      }
+      if (field === "" && fields.length === 0) {
+        if (!columns) {
+          throw new BodyError(400, "The CSV upload has no header row");
+        }
+        return [];
+      }
+
+      const record = toRecord();
+      return record ? [record] : [];
+    },
+  };
+};
+
+// Fields of Item that exports include but imports do not take
+const outputFields = ["id", "version", "ownerId", "deletedAt"];
+
+// One JSON object per line; blank lines are skipped
+export const createNdjsonParser = (maxRowSize: number): RecordParser => {
+  let buffer = "";
+  let row = 0;
+
+  const parseLine = (line: string): ImportRecord[] => {
+    row++;
+    if (line.trim() === "") {
+      return [];
+    }
+
+    try {
+      const value = JSON.parse(line);
+      if (value && typeof value === "object" && !Array.isArray(value)) {
+        for (const field of outputFields) {
+          delete value[field];
+        }
+      }
+      return [{ row, value }];
+    } catch {
+      return [
+        {
+          row,
+          error: {
+            field: "",
+            code: "invalid_json",
+            message: "Row is not valid JSON",
+          },
+        },
+      ];
+    }
+  };
+
+  return {
+    push: (text) => {
+      const lines = (buffer + text).split("\n");
+      buffer = lines.pop()!;
+
+      if (buffer.length > maxRowSize) {
+        throw rowTooLarge(maxRowSize);
+      }
+      return lines.flatMap((line) => {
+        if (line.length > maxRowSize) {
+          throw rowTooLarge(maxRowSize);
+        }
+        return parseLine(line);
+      });
+    },
+
+    end: () => parseLine(buffer),
+  };
+};
+
+export type Importer = {
+  add(record: ImportRecord): void;
+  // Write the remaining rows and report on the whole import
+  finish(): ImportReport;
+  // Report on the rows written so far, for an upload that failed
+  interrupt(): ImportReport;
+};
+
+// Validate records and create or update items from them, batchSize rows per
+// transaction. Dry runs go through the same checks without writing.
+export const createImporter = (
+  store: ItemStore,
+  { dryRun, onDuplicate }: ImportParams,
+  caller: Caller | undefined,
+  batchSize = IMPORT_BATCH_SIZE
+): Importer => {
+  const report: ImportReport = {
+    dryRun,
+    complete: false,
+    rows: 0,
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    failed: 0,
+    errors: [],
+  };
+  let batch: { row: number; input: ItemInput }[] = [];
+  // Names a dry run would have created, as those items are not in the store
+  const wouldCreate = new Set<string>();
+
+  const fail = (row: number, details: ValidationError[]) => {
+    report.failed++;
+    report.errors.push({ row, details });
+  };
+
+  // Oldest active item with this name
+  const findByName = (name: string): Item | "new" | undefined =>
+    store.list({
+      name,
+      limit: 1,
+      offset: 0,
+      sort: [{ field: "id", direction: "asc" }],
+    }).items[0] ?? (wouldCreate.has(name) ? "new" : undefined);
+
+  const apply = ({ row, input }: { row: number; input: ItemInput }) => {
+    const duplicate = findByName(input.name);
+
+    if (!duplicate) {
+      if (dryRun) {
+        wouldCreate.add(input.name);
+      } else {
+        store.create(input, { ownerId: caller?.id, actor: caller?.id });
+      }
+      report.created++;
+    } else if (onDuplicate === "skip") {
+      report.skipped++;
+    } else if (onDuplicate === "error") {
+      fail(row, [
+        {
+          field: "name",
+          code: "duplicate",
+          message: `An item named "${input.name}" already exists`,
+        },
+      ]);
+    } else if (duplicate !== "new" && !isAllowed(caller, "update", duplicate)) {
+      fail(row, [
+        {
+          field: "name",
+          code: "forbidden",
+          message: `Not allowed to update item ${duplicate.id}`,
+        },
+      ]);
+    } else {
+      if (duplicate !== "new" && !dryRun) {
+        store.update(duplicate.id, input, { actor: caller?.id });
+      }
+      report.updated++;
+    }
+  };
+
+  // A batch that fails to write leaves the report as it was before it
+  const flush = () => {
+    const rows = batch;
+    const before = { ...report, errors: [...report.errors] };
+    batch = [];
+
+    try {
+      store.transaction(() => rows.forEach(apply));
+    } catch (error) {
+      Object.assign(report, before);
+      throw error;
+    }
+  };
+
+  // Duplicates are only found when a batch is written
+  const sortedReport = () => {
+    report.errors.sort((a, b) => a.row - b.row);
+    return { ...report };
+  };
+
+  return {
+    add: ({ row, value, error }) => {
+      report.rows++;
+      if (error) {
+        fail(row, [error]);
+        return;
+      }
+
+      const { value: input, errors } = validate<ItemInput>(
+        itemInputSchema,
+        value
+      );
+      if (!input) {
+        fail(row, errors);
+        return;
+      }
+
+      if (dryRun) {
+        apply({ row, input });
+        return;
+      }
+      batch.push({ row, input });
+      if (batch.length >= batchSize) {
+        flush();
+      }
+    },
+
+    finish: () => {
+      if (batch.length > 0) {
+        flush();
+      }
+      report.complete = true;
+      return sortedReport();
+    },
+
+    interrupt: () => {
+      batch = [];
+      return sortedReport();
+    },
+  };
+};
@@ -1,9 +1,44 @@
-import { createMyServer } from "./server.js";
+import { ConfigError, loadConfig, type Config } from "./config.js";
+import { SchemaTooNewError } from "./migrate.js";
+import { createMyServer, type MyServer } from "./server.js";
 
-const PORT = 3000;
+let config: Config;
+let server: MyServer;
 
-const server = createMyServer();
+try {
+  config = loadConfig();
+  server = createMyServer(config);
+} catch (error) {
+  if (error instanceof ConfigError || error instanceof SchemaTooNewError) {
+    console.error(error.message);
+    process.exit(1);
+  }
+  throw error;
+}
 
-server.listen(PORT, () => {
-  console.log(`Server running on http://localhost:${PORT}`);
-});
+server.start().then(
+  ({ port }) => {
+    console.log(
+      `Server running on http://${config.host ?? "localhost"}:${port}`
+    );
+  },
+  (error: Error) => {
+    console.error(`Cannot listen on port ${config.port}: ${error.message}`);
+    process.exit(1);
+  }
+);
+
+// Drain in-flight requests and close the store before exiting. The handlers
+// are registered once, so a second signal stops the process immediately.
+const stop = () => {
+  server.shutdown().then(
+    () => process.exit(0),
+    (error: Error) => {
+      console.error(`Shutdown failed: ${error.message}`);
+      process.exit(1);
+    }
+  );
+};
+
+process.once("SIGINT", stop);
+process.once("SIGTERM", stop);
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { signJwt, TokenError, verifyJwt } from "./jwt.js";
+
+const secret = "test-secret-that-is-long-enough!";
+
+describe("verifyJwt", () => {
+  it("should return the claims of a valid token", () => {
+    const token = signJwt({ sub: "alice", role: "editor" }, secret);
+
+    expect(verifyJwt(token, secret)).toEqual({ sub: "alice", role: "editor" });
+  });
+
+  it("should check exp and nbf against the given time", () => {
+    const token = signJwt({ sub: "alice", nbf: 100, exp: 200 }, secret);
+
+    expect(() => verifyJwt(token, secret, 99_000)).toThrow(
+      new TokenError("Token not yet valid")
+    );
+    expect(verifyJwt(token, secret, 150_000).sub).toBe("alice");
+    expect(() => verifyJwt(token, secret, 200_000)).toThrow(
+      new TokenError("Token expired")
+    );
+  });
+
+  it("should reject tampered claims", () => {
+    const [header, , signature] = signJwt({ sub: "alice" }, secret).split(".");
+    const payload = Buffer.from(JSON.stringify({ sub: "admin" })).toString(
+      "base64url"
+    );
+
+    expect(() =>
+      verifyJwt(`${header}.${payload}.${signature}`, secret)
+    ).toThrow(new TokenError("Invalid token signature"));
+  });
+
+  it("should reject unsigned tokens", () => {
+    const encode = (value: object) =>
+      Buffer.from(JSON.stringify(value)).toString("base64url");
+    const token = `${encode({ alg: "none" })}.${encode({ sub: "alice" })}.`;
+
+    expect(() => verifyJwt(token, secret)).toThrow(
+      new TokenError("Unsupported token algorithm")
+    );
+  });
+
+  it("should reject malformed tokens and tokens without a subject", () => {
+    expect(() => verifyJwt("not-a-token", secret)).toThrow(
+      new TokenError("Malformed token")
+    );
+    expect(() => verifyJwt(signJwt({}, secret), secret)).toThrow(
+      new TokenError("Token has no subject")
+    );
+  });
+});
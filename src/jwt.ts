@@ -0,0 +1,85 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+// Registered claims we check, plus whatever else the issuer adds
+export type JwtClaims = {
+  sub?: string;
+  // Seconds since the epoch
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  [claim: string]: unknown;
+};
+
+// Thrown by verifyJwt; the message says what was wrong with the token
+export class TokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TokenError";
+  }
+}
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const sign = (data: string, secret: string) =>
+  createHmac("sha256", secret).update(data).digest();
+
+const decode = (part: string): unknown => {
+  try {
+    return JSON.parse(Buffer.from(part, "base64url").toString("utf8"));
+  } catch {
+    throw new TokenError("Malformed token");
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Create an HS256 JSON Web Token (RFC 7519)
+export const signJwt = (claims: JwtClaims, secret: string) => {
+  const data = `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}`;
+  return `${data}.${sign(data, secret).toString("base64url")}`;
+};
+
+// Check an HS256 token's signature and time claims and return its claims.
+// Only HS256 is accepted, whatever the header says.
+export const verifyJwt = (
+  token: string,
+  secret: string,
+  now = Date.now()
+): JwtClaims => {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new TokenError("Malformed token");
+  }
+
+  const [header, payload, signature] = parts;
+  const decodedHeader = decode(header);
+  if (!isObject(decodedHeader) || decodedHeader.alg !== "HS256") {
+    throw new TokenError("Unsupported token algorithm");
+  }
+
+  const expected = sign(`${header}.${payload}`, secret);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new TokenError("Invalid token signature");
+  }
+
+  const claims = decode(payload);
+  if (!isObject(claims)) {
+    throw new TokenError("Malformed token");
+  }
+
+  const seconds = now / 1000;
+  if (typeof claims.exp === "number" && seconds >= claims.exp) {
+    throw new TokenError("Token expired");
+  }
+  if (typeof claims.nbf === "number" && seconds < claims.nbf) {
+    throw new TokenError("Token not yet valid");
+  }
+  if (typeof claims.sub !== "string" || claims.sub === "") {
+    throw new TokenError("Token has no subject");
+  }
+
+  return claims;
+};
@@ -0,0 +1,221 @@
+import type { ParsedUrlQuery } from "node:querystring";
+import type {
+  Item,
+  ItemCursor,
+  ListQuery,
+  ListResult,
+  SortField,
+  SortOrder,
+} from "./store.js";
+import type { ValidationError } from "./validation.js";
+
+export const DEFAULT_LIMIT = 100;
+export const MAX_LIMIT = 1000;
+
+const sortFields: SortField[] = ["id", "name", "description"];
+
+// Query parameters accepted by GET /items, before the cursor is resolved
+export type ListParams = Omit<ListQuery, "after"> & { after?: number };
+
+// Last value of a query parameter given one or more times
+export const single = (query: ParsedUrlQuery, key: string) => {
+  const value = query[key];
+  return Array.isArray(value) ? value[value.length - 1] : value;
+};
+
+const parseInteger = (value: string) =>
+  /^\d+$/.test(value) ? Number(value) : NaN;
+
+// Parse and validate ?limit=&offset=, adding any problems to errors
+export const parsePaging = (
+  query: ParsedUrlQuery,
+  errors: ValidationError[]
+): { limit: number; offset: number } => {
+  const paging = { limit: DEFAULT_LIMIT, offset: 0 };
+
+  const limit = single(query, "limit");
+  if (limit !== undefined) {
+    paging.limit = parseInteger(limit);
+    if (isNaN(paging.limit) || paging.limit < 1 || paging.limit > MAX_LIMIT) {
+      errors.push({
+        field: "limit",
+        code: "out_of_range",
+        message: `limit must be an integer between 1 and ${MAX_LIMIT}`,
+      });
+    }
+  }
+
+  const offset = single(query, "offset");
+  if (offset !== undefined) {
+    paging.offset = parseInteger(offset);
+    if (isNaN(paging.offset)) {
+      errors.push({
+        field: "offset",
+        code: "out_of_range",
+        message: "offset must be a non-negative integer",
+      });
+    }
+  }
+
+  return paging;
+};
+
+// Parse and validate ?limit=&offset=&after=&sort=&name=&owner=&q=
+export const parseListParams = (
+  query: ParsedUrlQuery
+): { params?: ListParams; errors: ValidationError[] } => {
+  const errors: ValidationError[] = [];
+  const params: ListParams = { ...parsePaging(query, errors), sort: [] };
+
+  const after = single(query, "after");
+  if (after !== undefined) {
+    params.after = parseInteger(after);
+    if (isNaN(params.after) || params.after < 1) {
+      errors.push({
+        field: "after",
+        code: "invalid_type",
+        message: "after must be a positive item ID",
+      });
+    }
+    if (query.offset !== undefined) {
+      errors.push({
+        field: "after",
+        code: "conflict",
+        message: "after and offset cannot be combined",
+      });
+    }
+  }
+
+  const sort = single(query, "sort");
+  if (sort !== undefined) {
+    for (const term of sort.split(",")) {
+      const descending = term.startsWith("-");
+      const field = (descending ? term.slice(1) : term) as SortField;
+
+      if (!sortFields.includes(field)) {
+        errors.push({
+          field: "sort",
+          code: "invalid_value",
+          message: `Cannot sort by "${field}"`,
+        });
+      } else if (params.sort.some((order) => order.field === field)) {
+        errors.push({
+          field: "sort",
+          code: "duplicate",
+          message: `Sort field "${field}" is given more than once`,
+        });
+      } else {
+        params.sort.push({ field, direction: descending ? "desc" : "asc" });
+      }
+    }
+  }
+
+  const name = single(query, "name");
+  if (name !== undefined) {
+    params.name = name;
+  }
+
+  // "me" is resolved to the caller by the route
+  const owner = single(query, "owner");
+  if (owner) {
+    params.ownerId = owner;
+  }
+
+  const q = single(query, "q");
+  if (q) {
+    params.q = q;
+  }
+
+  return errors.length > 0 ? { errors } : { params, errors };
+};
+
+// Append id as a tiebreaker so every ordering is total and pages are stable
+export const withIdTiebreaker = (sort: SortOrder[]): SortOrder[] =>
+  sort.some((order) => order.field === "id")
+    ? sort
+    : [...sort, { field: "id", direction: "asc" }];
+
+// Compare items by the given ordering. Strings compare by code unit, like
+// SQLite's default BINARY collation.
+export const compareItems =
+  (sort: SortOrder[]) =>
+  (a: ItemCursor, b: ItemCursor): number => {
+    for (const { field, direction } of sort) {
+      const left = a[field]!;
+      const right = b[field]!;
+
+      if (left !== right) {
+        const result = left < right ? -1 : 1;
+        return direction === "asc" ? result : -result;
+      }
+    }
+    return 0;
+  };
+
+// Apply a list query to an in-memory array of items
+export const listItems = (items: Item[], query: ListQuery): ListResult => {
+  const search = query.q?.toLowerCase();
+  const compare = compareItems(withIdTiebreaker(query.sort));
+
+  const matching = items
+    .filter((item) => query.name === undefined || item.name === query.name)
+    .filter(
+      (item) => query.ownerId === undefined || item.ownerId === query.ownerId
+    )
+    .filter(
+      (item) =>
+        search === undefined ||
+        item.name.toLowerCase().includes(search) ||
+        item.description.toLowerCase().includes(search)
+    )
+    .sort(compare);
+
+  const start = query.after
+    ? matching.filter((item) => compare(item, query.after!) > 0)
+    : matching.slice(query.offset);
+
+  return {
+    items: start.slice(0, query.limit),
+    total: matching.length,
+    hasMore: start.length > query.limit,
+  };
+};
+
+// Build a Link header (RFC 8288) pointing at neighbouring pages
+export const buildLinkHeader = (
+  path: string,
+  query: ParsedUrlQuery,
+  params: ListParams,
+  page: { hasMore: boolean; lastItem?: Item }
+): string | undefined => {
+  const links: string[] = [];
+
+  const link = (rel: string, overrides: Record<string, string>) => {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (!["offset", "after"].includes(key) && value !== undefined) {
+        search.set(key, single(query, key)!);
+      }
+    }
+    search.set("limit", String(params.limit));
+    for (const [key, value] of Object.entries(overrides)) {
+      search.set(key, value);
+    }
+    links.push(`<${path}?${search}>; rel="${rel}"`);
+  };
+
+  if (query.offset !== undefined) {
+    if (page.hasMore) {
+      link("next", { offset: String(params.offset + params.limit) });
+    }
+    if (params.offset > 0) {
+      link("prev", {
+        offset: String(Math.max(0, params.offset - params.limit)),
+      });
+    }
+  } else if (page.hasMore && page.lastItem) {
+    link("next", { after: String(page.lastItem.id) });
+  }
+
+  return links.length > 0 ? links.join(", ") : undefined;
+};
@@ -0,0 +1,154 @@
+import { randomUUID } from "node:crypto";
+import http from "node:http";
+import { logLevels, type LogLevel } from "./config.js";
+
+export type LogEntry = {
+  time: string;
+  level: Exclude<LogLevel, "silent">;
+  msg: string;
+  [field: string]: unknown;
+};
+
+// Destination for log entries, e.g. stdout or an array in tests
+export type LogSink = (entry: LogEntry) => void;
+
+type LogMethod = (msg: string, fields?: Record<string, unknown>) => void;
+
+export type Logger = {
+  debug: LogMethod;
+  info: LogMethod;
+  warn: LogMethod;
+  error: LogMethod;
+  // Logger that adds the given fields to every entry
+  child(fields: Record<string, unknown>): Logger;
+};
+
+// One JSON object per line; warnings and errors go to stderr
+export const consoleSink: LogSink = (entry) => {
+  const stream =
+    entry.level === "warn" || entry.level === "error"
+      ? process.stderr
+      : process.stdout;
+  stream.write(`${JSON.stringify(entry)}\n`);
+};
+
+// Errors do not survive JSON.stringify, so keep their useful parts
+const serialize = (value: unknown) =>
+  value instanceof Error
+    ? { name: value.name, message: value.message, stack: value.stack }
+    : value;
+
+export const createLogger = ({
+  level = "info",
+  sink = consoleSink,
+  fields = {},
+}: {
+  level?: LogLevel;
+  sink?: LogSink;
+  fields?: Record<string, unknown>;
+} = {}): Logger => {
+  const threshold = logLevels.indexOf(level);
+
+  const method =
+    (entryLevel: LogEntry["level"]): LogMethod =>
+    (msg, extra = {}) => {
+      if (logLevels.indexOf(entryLevel) < threshold) {
+        return;
+      }
+
+      const entry: LogEntry = {
+        time: new Date().toISOString(),
+        level: entryLevel,
+        msg,
+        ...fields,
+      };
+      for (const [key, value] of Object.entries(extra)) {
+        entry[key] = serialize(value);
+      }
+      sink(entry);
+    };
+
+  return {
+    debug: method("debug"),
+    info: method("info"),
+    warn: method("warn"),
+    error: method("error"),
+    child: (childFields) =>
+      createLogger({ level, sink, fields: { ...fields, ...childFields } }),
+  };
+};
+
+// Incoming request IDs are echoed back, so only accept short, safe values
+const requestIdPattern = /^[\w.:-]{1,128}$/;
+
+export const resolveRequestId = (header: string | string[] | undefined) =>
+  typeof header === "string" && requestIdPattern.test(header)
+    ? header
+    : randomUUID();
+
+// Write one access log entry when the response finishes or the client
+// disconnects, including the number of body bytes sent
+export const logAccess = (
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  log: Logger
+) => {
+  const startedAt = process.hrtime.bigint();
+  let bytes = 0;
+
+  const count = (chunk: unknown, encoding?: unknown) => {
+    if (typeof chunk === "string") {
+      bytes += Buffer.byteLength(
+        chunk,
+        typeof encoding === "string" ? (encoding as BufferEncoding) : "utf8"
+      );
+    } else if (chunk instanceof Uint8Array) {
+      bytes += chunk.length;
+    }
+  };
+
+  const write = res.write;
+  const end = res.end;
+
+  // Arguments are forwarded as given; the encoding may be a callback instead
+  res.write = function (
+    this: http.ServerResponse,
+    ...args: Parameters<typeof write>
+  ) {
+    count(args[0], args[1]);
+    return write.apply(this, args);
+  } as typeof res.write;
+
+  res.end = function (
+    this: http.ServerResponse,
+    ...args: Parameters<typeof end>
+  ) {
+    if (typeof args[0] !== "function") {
+      count(args[0], args[1]);
+    }
+    return end.apply(this, args);
+  } as typeof res.end;
+
+  let logged = false;
+
+  const done = () => {
+    if (logged) {
+      return;
+    }
+    logged = true;
+
+    log.info("request completed", {
+      method: req.method,
+      path: req.url,
+      status: res.statusCode,
+      bytes,
+      durationMs:
+        Math.round(Number(process.hrtime.bigint() - startedAt) / 1e4) / 100,
+      userAgent: req.headers["user-agent"],
+      aborted: !res.writableFinished,
+    });
+  };
+
+  res.on("finish", done);
+  res.on("close", done);
+};
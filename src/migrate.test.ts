@@ -0,0 +1,91 @@
+import Database from "better-sqlite3";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  migrateDown,
+  migrateUp,
+  migrationStatus,
+  SchemaTooNewError,
+  type Migration,
+} from "./migrate.js";
+
+const tableMigration = (version: number, table: string): Migration => ({
+  version,
+  name: `create_${table}`,
+  up: (db) => db.exec(`CREATE TABLE ${table} (id INTEGER PRIMARY KEY)`),
+  down: (db) => db.exec(`DROP TABLE ${table}`),
+});
+
+const tables = (db: Database.Database) =>
+  (
+    db
+      .prepare(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 't%' ORDER BY name"
+      )
+      .all() as { name: string }[]
+  ).map(({ name }) => name);
+
+describe("migrations", () => {
+  let db: Database.Database;
+  const migrations = [tableMigration(1, "t1"), tableMigration(2, "t2")];
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("should apply pending migrations in order once", () => {
+    expect(migrateUp(db, [...migrations].reverse())).toHaveLength(2);
+    expect(migrateUp(db, migrations)).toEqual([]);
+    expect(tables(db)).toEqual(["t1", "t2"]);
+  });
+
+  it("should stop at the target version", () => {
+    migrateUp(db, migrations, 1);
+
+    expect(tables(db)).toEqual(["t1"]);
+    expect(migrationStatus(db, migrations)).toEqual([
+      { version: 1, name: "create_t1", appliedAt: expect.any(String) },
+      { version: 2, name: "create_t2", appliedAt: undefined },
+    ]);
+  });
+
+  it("should roll back the most recent migrations", () => {
+    migrateUp(db, migrations);
+
+    const reverted = migrateDown(db, migrations);
+
+    expect(reverted.map(({ version }) => version)).toEqual([2]);
+    expect(tables(db)).toEqual(["t1"]);
+    expect(migrationStatus(db, migrations)[1].appliedAt).toBeUndefined();
+  });
+
+  it("should leave the database untouched when a migration fails", () => {
+    const failing: Migration = {
+      version: 3,
+      name: "broken",
+      up: (db) => {
+        db.exec("CREATE TABLE t3 (id INTEGER PRIMARY KEY)");
+        throw new Error("boom");
+      },
+      down: () => {},
+    };
+
+    expect(() => migrateUp(db, [...migrations, failing])).toThrow("boom");
+    expect(tables(db)).toEqual(["t1", "t2"]);
+    expect(migrationStatus(db, [...migrations, failing])[2].appliedAt).toBe(
+      undefined
+    );
+  });
+
+  it("should refuse a database migrated by newer code", () => {
+    migrateUp(db, [...migrations, tableMigration(3, "t3")]);
+
+    expect(() => migrateUp(db, migrations)).toThrow(SchemaTooNewError);
+    expect(() => migrateDown(db, migrations)).toThrow(
+      "Database schema version 3 is newer than the latest known migration 2"
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import type Database from "better-sqlite3";
+
+// A numbered schema change. up() and down() run inside a transaction, so a
+// failing migration leaves the database untouched.
+export type Migration = {
+  version: number;
+  name: string;
+  up(db: Database.Database): void;
+  down(db: Database.Database): void;
+};
+
+export type MigrationStatus = {
+  version: number;
+  name: string;
+  appliedAt?: string;
+};
+
+// Thrown when the database has migrations this code does not know about
+export class SchemaTooNewError extends Error {
+  constructor(readonly databaseVersion: number, readonly codeVersion: number) {
+    super(
+      `Database schema version ${databaseVersion} is newer than the latest ` +
+        `known migration ${codeVersion}; upgrade the server first`
+    );
+    this.name = "SchemaTooNewError";
+  }
+}
+
+const ensureMigrationsTable = (db: Database.Database) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+};
+
+const appliedMigrations = (db: Database.Database) => {
+  ensureMigrationsTable(db);
+  return db
+    .prepare("SELECT version, name, applied_at FROM schema_migrations")
+    .all() as { version: number; name: string; applied_at: string }[];
+};
+
+const latestVersion = (migrations: Migration[]) =>
+  Math.max(0, ...migrations.map((migration) => migration.version));
+
+// Refuse to touch a database that was migrated by newer code
+const checkNotTooNew = (db: Database.Database, migrations: Migration[]) => {
+  const known = new Set(migrations.map((migration) => migration.version));
+  const unknown = appliedMigrations(db).filter(
+    ({ version }) => !known.has(version)
+  );
+
+  if (unknown.length > 0) {
+    throw new SchemaTooNewError(
+      Math.max(...unknown.map(({ version }) => version)),
+      latestVersion(migrations)
+    );
+  }
+};
+
+// Every known migration with the time it was applied, if it was
+export const migrationStatus = (
+  db: Database.Database,
+  migrations: Migration[]
+): MigrationStatus[] => {
+  const applied = new Map(
+    appliedMigrations(db).map((row) => [row.version, row.applied_at])
+  );
+
+  return [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .map(({ version, name }) => ({
+      version,
+      name,
+      appliedAt: applied.get(version),
+    }));
+};
+
+// Apply pending migrations in order, up to and including `target`.
+// Returns the migrations that ran.
+export const migrateUp = (
+  db: Database.Database,
+  migrations: Migration[],
+  target = latestVersion(migrations)
+): Migration[] => {
+  checkNotTooNew(db, migrations);
+
+  const applied = new Set(appliedMigrations(db).map(({ version }) => version));
+  const pending = [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter(({ version }) => !applied.has(version) && version <= target);
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      db.prepare(
+        "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)"
+      ).run(migration.version, migration.name, new Date().toISOString());
+    })();
+  }
+
+  return pending;
+};
+
+// Revert the most recently applied migrations. Returns the migrations that
+// were rolled back, newest first.
+export const migrateDown = (
+  db: Database.Database,
+  migrations: Migration[],
+  steps = 1
+): Migration[] => {
+  checkNotTooNew(db, migrations);
+
+  const applied = new Set(appliedMigrations(db).map(({ version }) => version));
+  const reverting = [...migrations]
+    .sort((a, b) => b.version - a.version)
+    .filter(({ version }) => applied.has(version))
+    .slice(0, steps);
+
+  for (const migration of reverting) {
+    db.transaction(() => {
+      migration.down(db);
+      db.prepare("DELETE FROM schema_migrations WHERE version = ?").run(
+        migration.version
+      );
+    })();
+  }
+
+  return reverting;
+};
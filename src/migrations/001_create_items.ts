@@ -0,0 +1,22 @@
+import type { Migration } from "../migrate.js";
+
+// IF NOT EXISTS keeps this safe for databases created before migrations
+export const migration: Migration = {
+  version: 1,
+  name: "create_items",
+
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        description TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_items_name ON items(name);
+    `);
+  },
+
+  down: (db) => {
+    db.exec("DROP TABLE items");
+  },
+};
@@ -0,0 +1,23 @@
+import type { Migration } from "../migrate.js";
+
+export const migration: Migration = {
+  version: 2,
+  name: "add_item_version",
+
+  up: (db) => {
+    // Databases versioned before migrations existed already have the column
+    const columns = db.prepare("PRAGMA table_info(items)").all() as {
+      name: string;
+    }[];
+
+    if (!columns.some((column) => column.name === "version")) {
+      db.exec(
+        "ALTER TABLE items ADD COLUMN version INTEGER NOT NULL DEFAULT 1"
+      );
+    }
+  },
+
+  down: (db) => {
+    db.exec("ALTER TABLE items DROP COLUMN version");
+  },
+};
@@ -0,0 +1,49 @@
+import type { Migration } from "../migrate.js";
+
+// External-content FTS5 index over items, kept in sync by triggers
+export const migration: Migration = {
+  version: 3,
+  name: "create_items_fts",
+
+  up: (db) => {
+    db.exec(`
+      CREATE VIRTUAL TABLE items_fts USING fts5(
+        name,
+        description,
+        content = 'items',
+        content_rowid = 'id',
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+
+      CREATE TRIGGER items_fts_insert AFTER INSERT ON items BEGIN
+        INSERT INTO items_fts (rowid, name, description)
+        VALUES (new.id, new.name, new.description);
+      END;
+
+      CREATE TRIGGER items_fts_delete AFTER DELETE ON items BEGIN
+        INSERT INTO items_fts (items_fts, rowid, name, description)
+        VALUES ('delete', old.id, old.name, old.description);
+      END;
+
+      CREATE TRIGGER items_fts_update AFTER UPDATE OF name, description
+      ON items BEGIN
+        INSERT INTO items_fts (items_fts, rowid, name, description)
+        VALUES ('delete', old.id, old.name, old.description);
+        INSERT INTO items_fts (rowid, name, description)
+        VALUES (new.id, new.name, new.description);
+      END;
+
+      -- Index items that existed before this migration
+      INSERT INTO items_fts (items_fts) VALUES ('rebuild');
+    `);
+  },
+
+  down: (db) => {
+    db.exec(`
+      DROP TRIGGER items_fts_insert;
+      DROP TRIGGER items_fts_delete;
+      DROP TRIGGER items_fts_update;
+      DROP TABLE items_fts;
+    `);
+  },
+};
@@ -0,0 +1,24 @@
+import type { Migration } from "../migrate.js";
+
+// Only a SHA-256 hash of each key is stored; the key itself is shown once
+// when it is issued
+export const migration: Migration = {
+  version: 4,
+  name: "create_api_keys",
+
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE api_keys (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        created_at TEXT NOT NULL,
+        revoked_at TEXT
+      )
+    `);
+  },
+
+  down: (db) => {
+    db.exec("DROP TABLE api_keys");
+  },
+};
@@ -0,0 +1,21 @@
+import type { Migration } from "../migrate.js";
+
+// Items created before ownership existed keep a NULL owner
+export const migration: Migration = {
+  version: 5,
+  name: "add_item_owner",
+
+  up: (db) => {
+    db.exec(`
+      ALTER TABLE items ADD COLUMN owner_id TEXT;
+      CREATE INDEX idx_items_owner_id ON items(owner_id);
+    `);
+  },
+
+  down: (db) => {
+    db.exec(`
+      DROP INDEX idx_items_owner_id;
+      ALTER TABLE items DROP COLUMN owner_id;
+    `);
+  },
+};
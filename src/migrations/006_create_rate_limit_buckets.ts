@@ -0,0 +1,21 @@
+import type { Migration } from "../migrate.js";
+
+// Token buckets of the rate limiter, so limits survive restarts
+export const migration: Migration = {
+  version: 6,
+  name: "create_rate_limit_buckets",
+
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE rate_limit_buckets (
+        key TEXT PRIMARY KEY,
+        tokens REAL NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+  },
+
+  down: (db) => {
+    db.exec("DROP TABLE rate_limit_buckets");
+  },
+};
@@ -0,0 +1,22 @@
+import type { Migration } from "../migrate.js";
+
+// Soft delete: trashed items keep their row with deleted_at set
+export const migration: Migration = {
+  version: 7,
+  name: "add_item_deleted_at",
+
+  up: (db) => {
+    db.exec(`
+      ALTER TABLE items ADD COLUMN deleted_at TEXT;
+      CREATE INDEX idx_items_deleted_at ON items(deleted_at);
+    `);
+  },
+
+  down: (db) => {
+    db.exec(`
+      DELETE FROM items WHERE deleted_at IS NOT NULL;
+      DROP INDEX idx_items_deleted_at;
+      ALTER TABLE items DROP COLUMN deleted_at;
+    `);
+  },
+};
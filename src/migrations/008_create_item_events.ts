@@ -0,0 +1,33 @@
+import type { Migration } from "../migrate.js";
+
+// Change history of items. Snapshots are JSON in the API's item shape.
+// Rows are never changed; the trigger rejects updates.
+export const migration: Migration = {
+  version: 8,
+  name: "create_item_events",
+
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE item_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        item_id INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        actor TEXT,
+        at TEXT NOT NULL,
+        before TEXT,
+        after TEXT,
+        reverted_to INTEGER
+      );
+      CREATE INDEX idx_item_events_item_id ON item_events(item_id);
+
+      CREATE TRIGGER item_events_append_only BEFORE UPDATE ON item_events
+      BEGIN
+        SELECT RAISE(ABORT, 'item_events is append-only');
+      END;
+    `);
+  },
+
+  down: (db) => {
+    db.exec("DROP TABLE item_events");
+  },
+};
@@ -0,0 +1,49 @@
+import type { Migration } from "../migrate.js";
+
+// Registered webhooks and their delivery queue. Deliveries double as the
+// delivery log: finished ones stay with their last outcome.
+export const migration: Migration = {
+  version: 9,
+  name: "create_webhooks",
+
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE webhooks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        url TEXT NOT NULL,
+        events TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        failure_count INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        disabled_at TEXT
+      );
+
+      CREATE TABLE webhook_deliveries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        webhook_id INTEGER NOT NULL,
+        event_id INTEGER NOT NULL,
+        event_type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TEXT,
+        last_attempt_at TEXT,
+        response_status INTEGER,
+        error TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_webhook_deliveries_webhook_id
+        ON webhook_deliveries(webhook_id);
+      CREATE INDEX idx_webhook_deliveries_next_attempt_at
+        ON webhook_deliveries(next_attempt_at);
+    `);
+  },
+
+  down: (db) => {
+    db.exec(`
+      DROP TABLE webhook_deliveries;
+      DROP TABLE webhooks;
+    `);
+  },
+};
@@ -0,0 +1,24 @@
+import type { Migration } from "../migrate.js";
+
+// When each table last changed, so collection responses can carry
+// Last-Modified without scanning the table. Seeded from the item history.
+export const migration: Migration = {
+  version: 10,
+  name: "create_table_changes",
+
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE table_changes (
+        table_name TEXT PRIMARY KEY,
+        changed_at TEXT NOT NULL
+      );
+
+      INSERT INTO table_changes (table_name, changed_at)
+      SELECT 'items', MAX(at) FROM item_events HAVING MAX(at) IS NOT NULL;
+    `);
+  },
+
+  down: (db) => {
+    db.exec("DROP TABLE table_changes");
+  },
+};
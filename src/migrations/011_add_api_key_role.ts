@@ -0,0 +1,17 @@
+import type { Migration } from "../migrate.js";
+
+// Keys issued before roles existed act as contributors, as they did
+export const migration: Migration = {
+  version: 11,
+  name: "add_api_key_role",
+
+  up: (db) => {
+    db.exec(
+      "ALTER TABLE api_keys ADD COLUMN role TEXT NOT NULL DEFAULT 'contributor'"
+    );
+  },
+
+  down: (db) => {
+    db.exec("ALTER TABLE api_keys DROP COLUMN role");
+  },
+};
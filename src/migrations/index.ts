@@ -0,0 +1,27 @@
+import type { Migration } from "../migrate.js";
+import { migration as createItems } from "./001_create_items.js";
+import { migration as addItemVersion } from "./002_add_item_version.js";
+import { migration as createItemsFts } from "./003_create_items_fts.js";
+import { migration as createApiKeys } from "./004_create_api_keys.js";
+import { migration as addItemOwner } from "./005_add_item_owner.js";
+import { migration as createRateLimitBuckets } from "./006_create_rate_limit_buckets.js";
+import { migration as addItemDeletedAt } from "./007_add_item_deleted_at.js";
+import { migration as createItemEvents } from "./008_create_item_events.js";
+import { migration as createWebhooks } from "./009_create_webhooks.js";
+import { migration as createTableChanges } from "./010_create_table_changes.js";
+import { migration as addApiKeyRole } from "./011_add_api_key_role.js";
+
+// Every schema migration, in order. Add new migrations to the end.
+export const migrations: Migration[] = [
+  createItems,
+  addItemVersion,
+  createItemsFts,
+  createApiKeys,
+  addItemOwner,
+  createRateLimitBuckets,
+  addItemDeletedAt,
+  createItemEvents,
+  createWebhooks,
+  createTableChanges,
+  addApiKeyRole,
+];
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { buildOpenApiDocument, toJsonSchema } from "./openapi.js";
+import { itemInputSchema, webhookInputSchema } from "./schemas.js";
+import { createMyServer } from "./server.js";
+import { webhookEventTypes } from "./webhooks.js";
+
+// Every "$ref" value anywhere in value
+const refsIn = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap(refsIn);
+  }
+  if (value && typeof value === "object") {
+    return Object.entries(value).flatMap(([key, child]) =>
+      key === "$ref" ? [child as string] : refsIn(child)
+    );
+  }
+  return [];
+};
+
+describe("toJsonSchema", () => {
+  it("should describe the rules validate() enforces", () => {
+    expect(toJsonSchema(itemInputSchema)).toEqual({
+      type: "object",
+      properties: {
+        name: { type: "string", minLength: 1, maxLength: 100 },
+        description: { type: "string", minLength: 1, maxLength: 500 },
+      },
+      required: ["name", "description"],
+      additionalProperties: false,
+    });
+  });
+
+  it("should keep enums and describe custom rules", () => {
+    const schema = toJsonSchema(webhookInputSchema) as {
+      properties: Record<string, unknown>;
+    };
+
+    expect(schema.properties.url).toEqual({
+      type: "string",
+      minLength: 1,
+      maxLength: 2000,
+      description: "URL must be an http or https URL",
+    });
+    expect(schema.properties.events).toEqual({
+      type: "array",
+      items: { type: "string", minLength: 1, enum: webhookEventTypes },
+    });
+  });
+});
+
+describe("buildOpenApiDocument", () => {
+  const server = createMyServer({ logLevel: "silent" });
+  const document = server.openApiDocument;
+
+  it("should document every route of the server", () => {
+    expect(document.openapi).toBe("3.1.0");
+    expect(Object.keys(document.paths)).toContain("/items/{id}");
+    expect(Object.keys(document.paths["/items/{id}"])).toEqual([
+      "get",
+      "put",
+      "patch",
+      "delete",
+    ]);
+  });
+
+  it("should only reference defined components", () => {
+    for (const ref of refsIn(document)) {
+      const [, , section, name] = ref.split("/");
+      const components = document.components as Record<
+        string,
+        Record<string, unknown>
+      >;
+
+      expect(components[section], ref).toHaveProperty([name]);
+    }
+  });
+
+  it("should refuse undocumented routes", () => {
+    expect(() =>
+      buildOpenApiDocument([{ method: "GET", path: "/secret" }])
+    ).toThrow("No OpenAPI operation for GET /secret");
+  });
+});
@@ -0,0 +1,963 @@
+import { MAX_BULK_ITEMS } from "./bulk.js";
+import { DEFAULT_LIMIT, MAX_LIMIT } from "./list.js";
+import {
+  bulkDeleteSchema,
+  bulkUpdateSchema,
+  itemInputSchema,
+  revertSchema,
+  webhookInputSchema,
+  webhookUpdateSchema,
+} from "./schemas.js";
+import type { Schema } from "./validation.js";
+import { webhookEventTypes } from "./webhooks.js";
+
+type JsonSchema = Record<string, unknown>;
+
+// Translate a validation schema into the JSON Schema dialect of OpenAPI 3.1,
+// so documented bodies follow the rules validate() enforces. Custom rules
+// cannot be expressed; their messages become the description.
+export const toJsonSchema = (schema: Schema): JsonSchema => {
+  const description =
+    schema.rules && schema.rules.map((rule) => rule.message).join(" ");
+  const common = { ...(description && { description }) };
+
+  switch (schema.type) {
+    case "string": {
+      // Empty strings count as missing, so required ones need a character
+      const minLength = Math.max(
+        schema.minLength ?? 0,
+        schema.required ? 1 : 0
+      );
+      return {
+        type: "string",
+        ...(minLength > 0 && { minLength }),
+        ...(schema.maxLength !== undefined && { maxLength: schema.maxLength }),
+        ...(schema.pattern && { pattern: schema.pattern.source }),
+        ...(schema.enum && { enum: [...schema.enum] }),
+        ...common,
+      };
+    }
+
+    case "number":
+    case "integer":
+      return {
+        type: schema.type,
+        ...(schema.minimum !== undefined && { minimum: schema.minimum }),
+        ...(schema.maximum !== undefined && { maximum: schema.maximum }),
+        ...common,
+      };
+
+    case "boolean":
+      return { type: "boolean", ...common };
+
+    case "array":
+      return {
+        type: "array",
+        items: toJsonSchema(schema.items),
+        ...(schema.minItems !== undefined && { minItems: schema.minItems }),
+        ...(schema.maxItems !== undefined && { maxItems: schema.maxItems }),
+        ...common,
+      };
+
+    case "object": {
+      const required = Object.entries(schema.fields)
+        .filter(([, field]) => field.required)
+        .map(([name]) => name);
+      return {
+        type: "object",
+        properties: Object.fromEntries(
+          Object.entries(schema.fields).map(([name, field]) => [
+            name,
+            toJsonSchema(field),
+          ])
+        ),
+        ...(required.length > 0 && { required }),
+        ...(!schema.allowUnknown && { additionalProperties: false }),
+        ...common,
+      };
+    }
+  }
+};
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const arrayOf = (items: JsonSchema) => ({ type: "array", items });
+
+const json = (schema: JsonSchema) => ({
+  "application/json": { schema },
+});
+
+const jsonBody = (schema: JsonSchema) => ({
+  required: true,
+  content: json(schema),
+});
+
+const header = (
+  description: string,
+  schema: JsonSchema = { type: "string" }
+) => ({ description, schema });
+
+const etagHeader = header(
+  'Current version of the item, quoted; compressed responses add the coding, e.g. "3-gzip"'
+);
+
+const totalCountHeader = header("Number of matches ignoring paging", {
+  type: "integer",
+});
+
+const linkHeader = header('Links to the "next" and "prev" pages (RFC 8288)');
+
+const lastModifiedHeader = header(
+  "When any item last changed; unset before the first change and until " +
+    "the second of the latest change is over"
+);
+
+const respond = (
+  description: string,
+  schema?: JsonSchema,
+  headers?: Record<string, unknown>
+) => ({
+  description,
+  ...(schema && { content: json(schema) }),
+  ...(headers && { headers }),
+});
+
+// Error responses shared by many operations, by status code
+const errorResponses: Record<number, [string, JsonSchema]> = {
+  400: [
+    "BadRequest",
+    respond("Invalid request; validation failures list every problem", {
+      oneOf: [ref("ValidationFailed"), ref("Error")],
+    }),
+  ],
+  401: [
+    "Unauthorized",
+    {
+      ...respond("Missing or invalid credentials", ref("Error")),
+      headers: {
+        "WWW-Authenticate": header("Accepted authentication schemes"),
+      },
+    },
+  ],
+  403: ["Forbidden", respond("The caller may not do this", ref("Error"))],
+  404: ["NotFound", respond("No such resource", ref("Error"))],
+  406: [
+    "NotAcceptable",
+    respond("None of the types in Accept can be produced", ref("Error")),
+  ],
+  412: [
+    "PreconditionFailed",
+    respond("If-Match does not match the current version", ref("Error")),
+  ],
+  413: ["PayloadTooLarge", respond("Request body too large", ref("Error"))],
+  415: [
+    "UnsupportedMediaType",
+    respond("Request body is not in an accepted format", ref("Error")),
+  ],
+  429: [
+    "TooManyRequests",
+    {
+      ...respond("Rate limit exceeded", ref("Error")),
+      headers: {
+        "Retry-After": header("Seconds until a request is allowed", {
+          type: "integer",
+        }),
+      },
+    },
+  ],
+  500: ["InternalError", respond("Unexpected server error", ref("Error"))],
+};
+
+// Any request can fail authentication, rate limiting or the server
+const commonErrors = [401, 429, 500];
+
+const errors = (...codes: number[]) =>
+  Object.fromEntries(
+    [...codes, ...commonErrors]
+      .sort((a, b) => a - b)
+      .map((code) => [
+        code,
+        { $ref: `#/components/responses/${errorResponses[code][0]}` },
+      ])
+  );
+
+// Errors of routes that read a JSON body
+const bodyErrors = [400, 413, 415];
+
+const param = (name: string) => ({
+  $ref: `#/components/parameters/${name}`,
+});
+
+const itemSchema = (() => {
+  const input = toJsonSchema(itemInputSchema);
+  return {
+    type: "object",
+    properties: {
+      id: { type: "integer", minimum: 1 },
+      ...(input.properties as JsonSchema),
+      version: {
+        type: "integer",
+        minimum: 1,
+        description: "Incremented on every change; the ETag",
+      },
+      ownerId: {
+        type: "string",
+        description: "Caller who created the item; unset when anonymous",
+      },
+      deletedAt: {
+        type: "string",
+        format: "date-time",
+        description: "When the item was moved to the trash",
+      },
+    },
+    required: ["id", "name", "description", "version"],
+    additionalProperties: false,
+  };
+})();
+
+const eventType = { type: "string", enum: webhookEventTypes };
+
+const schemas: Record<string, JsonSchema> = {
+  Item: itemSchema,
+  ItemInput: toJsonSchema(itemInputSchema),
+  BulkUpdate: toJsonSchema(bulkUpdateSchema),
+  BulkDelete: toJsonSchema(bulkDeleteSchema),
+  Revert: toJsonSchema(revertSchema),
+  Error: {
+    type: "object",
+    properties: { error: { type: "string" } },
+    required: ["error"],
+  },
+  ValidationError: {
+    type: "object",
+    properties: {
+      field: {
+        type: "string",
+        description:
+          'Path of the offending value, e.g. "tags[2]"; "" for the root',
+      },
+      code: { type: "string" },
+      message: { type: "string" },
+    },
+    required: ["field", "code", "message"],
+  },
+  ValidationFailed: {
+    type: "object",
+    properties: {
+      error: { type: "string" },
+      details: arrayOf(ref("ValidationError")),
+    },
+    required: ["error", "details"],
+  },
+  PatchFailed: {
+    type: "object",
+    properties: {
+      error: { const: "Invalid patch" },
+      details: arrayOf({ type: "string" }),
+    },
+    required: ["error", "details"],
+  },
+  BulkResult: {
+    type: "object",
+    properties: {
+      index: { type: "integer", description: "Position in the request body" },
+      status: { type: "integer" },
+      item: ref("Item"),
+      error: { type: "string" },
+      details: arrayOf(ref("ValidationError")),
+    },
+    required: ["index", "status"],
+  },
+  BulkResponse: {
+    type: "object",
+    properties: {
+      error: {
+        type: "string",
+        description: "Set when nothing was applied",
+      },
+      results: arrayOf(ref("BulkResult")),
+    },
+    required: ["results"],
+  },
+  ImportReport: {
+    type: "object",
+    properties: {
+      dryRun: { type: "boolean" },
+      complete: {
+        type: "boolean",
+        description:
+          "False when the upload failed part way; rows read but not yet " +
+          "written then only count in rows",
+      },
+      rows: {
+        type: "integer",
+        description: "Rows read, without the CSV header and blank lines",
+      },
+      created: { type: "integer" },
+      updated: { type: "integer" },
+      skipped: { type: "integer" },
+      failed: { type: "integer" },
+      errors: arrayOf({
+        type: "object",
+        properties: {
+          row: {
+            type: "integer",
+            description: "Line of the row, counting the CSV header",
+          },
+          details: arrayOf(ref("ValidationError")),
+        },
+        required: ["row", "details"],
+      }),
+    },
+    required: [
+      "dryRun",
+      "complete",
+      "rows",
+      "created",
+      "updated",
+      "skipped",
+      "failed",
+      "errors",
+    ],
+  },
+  ImportFailed: {
+    type: "object",
+    properties: {
+      error: { type: "string" },
+      // Unset when the upload was refused before any row was read
+      report: ref("ImportReport"),
+    },
+    required: ["error"],
+  },
+  SearchHit: {
+    type: "object",
+    properties: {
+      item: ref("Item"),
+      score: {
+        type: "number",
+        description:
+          "Relevance, higher is better; only comparable within one search",
+      },
+      highlights: {
+        type: "object",
+        description:
+          "HTML-escaped text with matches wrapped in <mark>; the description is shortened",
+        properties: {
+          name: { type: "string" },
+          description: { type: "string" },
+        },
+        required: ["name", "description"],
+      },
+    },
+    required: ["item", "score", "highlights"],
+  },
+  ItemEvent: {
+    type: "object",
+    properties: {
+      id: { type: "integer" },
+      itemId: { type: "integer" },
+      type: eventType,
+      actor: { type: "string" },
+      at: { type: "string", format: "date-time" },
+      before: ref("Item"),
+      after: ref("Item"),
+      revertedTo: { type: "integer" },
+    },
+    required: ["id", "itemId", "type", "at"],
+  },
+  ChangeMessage: {
+    type: "object",
+    description:
+      "Change stream message; the item as after the change, or as before purging",
+    properties: {
+      id: { type: "integer" },
+      type: eventType,
+      item: ref("Item"),
+    },
+    required: ["id", "type", "item"],
+  },
+  Webhook: {
+    type: "object",
+    properties: {
+      id: { type: "integer" },
+      url: { type: "string" },
+      events: { ...arrayOf(eventType), description: "Every type when empty" },
+      enabled: { type: "boolean" },
+      failureCount: { type: "integer" },
+      createdAt: { type: "string", format: "date-time" },
+      disabledAt: { type: "string", format: "date-time" },
+    },
+    required: ["id", "url", "events", "enabled", "failureCount", "createdAt"],
+  },
+  WebhookWithSecret: {
+    allOf: [
+      ref("Webhook"),
+      {
+        type: "object",
+        properties: {
+          secret: {
+            type: "string",
+            description: "Key of the X-Webhook-Signature HMAC; shown once",
+          },
+        },
+        required: ["secret"],
+      },
+    ],
+  },
+  WebhookInput: toJsonSchema(webhookInputSchema),
+  WebhookUpdate: toJsonSchema(webhookUpdateSchema),
+  WebhookDelivery: {
+    type: "object",
+    properties: {
+      id: { type: "integer" },
+      webhookId: { type: "integer" },
+      eventId: { type: "integer" },
+      eventType,
+      status: { type: "string", enum: ["pending", "succeeded", "failed"] },
+      attempts: { type: "integer" },
+      nextAttemptAt: { type: "string", format: "date-time" },
+      lastAttemptAt: { type: "string", format: "date-time" },
+      responseStatus: { type: "integer" },
+      error: { type: "string" },
+      createdAt: { type: "string", format: "date-time" },
+    },
+    required: [
+      "id",
+      "webhookId",
+      "eventId",
+      "eventType",
+      "status",
+      "attempts",
+      "createdAt",
+    ],
+  },
+};
+
+const integerParam = (
+  name: string,
+  description: string,
+  schema: JsonSchema = {}
+) => ({
+  name,
+  in: "query",
+  description,
+  schema: { type: "integer", ...schema },
+});
+
+const parameters: Record<string, JsonSchema> = {
+  ItemId: {
+    name: "id",
+    in: "path",
+    required: true,
+    schema: { type: "integer", minimum: 1 },
+  },
+  WebhookId: {
+    name: "id",
+    in: "path",
+    required: true,
+    schema: { type: "integer", minimum: 1 },
+  },
+  IfMatch: {
+    name: "If-Match",
+    in: "header",
+    description: "Only apply the change if the item still has this ETag",
+    schema: { type: "string" },
+  },
+  IfNoneMatch: {
+    name: "If-None-Match",
+    in: "header",
+    description: "Answer 304 if the item still has this ETag",
+    schema: { type: "string" },
+  },
+  IfModifiedSince: {
+    name: "If-Modified-Since",
+    in: "header",
+    description: "Answer 304 if no item has changed since this HTTP date",
+    schema: { type: "string" },
+  },
+  Limit: integerParam("limit", "Page size", {
+    minimum: 1,
+    maximum: MAX_LIMIT,
+    default: DEFAULT_LIMIT,
+  }),
+  Offset: integerParam("offset", "Items to skip", { minimum: 0, default: 0 }),
+  After: integerParam(
+    "after",
+    "Continue after this item in sort order; cannot be combined with offset",
+    { minimum: 1 }
+  ),
+  Sort: {
+    name: "sort",
+    in: "query",
+    description:
+      'Comma-separated fields (id, name, description), "-" for descending',
+    schema: { type: "string", example: "name,-id" },
+  },
+  Name: {
+    name: "name",
+    in: "query",
+    description: "Exact name",
+    schema: { type: "string" },
+  },
+  Owner: {
+    name: "owner",
+    in: "query",
+    description: 'Owner ID, or "me" for the caller',
+    schema: { type: "string" },
+  },
+  Filter: {
+    name: "q",
+    in: "query",
+    description: "Case-insensitive substring of name or description",
+    schema: { type: "string" },
+  },
+  BulkMode: {
+    name: "mode",
+    in: "query",
+    description:
+      "atomic: all elements or none are applied. partial: valid elements are applied.",
+    schema: { type: "string", enum: ["atomic", "partial"], default: "atomic" },
+  },
+};
+
+const listParameters = [
+  "Limit",
+  "Offset",
+  "After",
+  "Sort",
+  "Name",
+  "Owner",
+  "Filter",
+  "IfModifiedSince",
+].map(param);
+
+// JSON, or the streamed representations chosen with Accept
+const itemList = (description: string) => ({
+  parameters: listParameters,
+  responses: {
+    200: {
+      ...respond(description, arrayOf(ref("Item")), {
+        "X-Total-Count": totalCountHeader,
+        Link: linkHeader,
+        "Last-Modified": lastModifiedHeader,
+      }),
+      content: {
+        ...json(arrayOf(ref("Item"))),
+        "text/csv": {
+          schema: {
+            type: "string",
+            description:
+              "Header row, then one row per item (RFC 4180). Text that " +
+              "spreadsheets would run as a formula gets a ' in front.",
+          },
+        },
+        "application/x-ndjson": {
+          schema: { ...ref("Item"), description: "One item per line" },
+        },
+        "application/xml": {
+          schema: {
+            type: "string",
+            description: "<items> with an <item> element per item",
+          },
+        },
+      },
+    },
+    304: {
+      description: "No item has changed since If-Modified-Since",
+      headers: { "Last-Modified": lastModifiedHeader },
+    },
+    ...errors(400, 406),
+  },
+});
+
+const itemResponse = (description: string) =>
+  respond(description, ref("Item"), { ETag: etagHeader });
+
+// Atomic batches that fail answer with the first failure's status and the
+// per-element results instead of a plain error
+const bulkResponses = (success: number, codes: number[]) => ({
+  [success]: respond("Every element was applied", ref("BulkResponse")),
+  207: respond(
+    "Partial mode: some elements failed; see each result",
+    ref("BulkResponse")
+  ),
+  ...errors(...bodyErrors),
+  ...Object.fromEntries(
+    [400, ...codes].map((code) => [
+      code,
+      respond(
+        "Atomic mode: nothing was applied; see each result",
+        code === 400
+          ? { oneOf: [ref("BulkResponse"), ref("ValidationFailed")] }
+          : ref("BulkResponse")
+      ),
+    ])
+  ),
+});
+
+const bulk = (summary: string, element: JsonSchema) => ({
+  summary,
+  parameters: [param("BulkMode")],
+  requestBody: jsonBody({
+    ...arrayOf(element),
+    minItems: 1,
+    maxItems: MAX_BULK_ITEMS,
+  }),
+});
+
+// Webhooks are managed by authenticated editors only
+const editorsOnly = [{ apiKey: [] }, { bearerAuth: [] }];
+
+// Every route of createMyServer, by "METHOD /path". "x-client-method" names
+// the ItemsClient method that `pnpm cli client` generates for an operation.
+const operations: Record<string, JsonSchema> = {
+  "GET /items": {
+    "x-client-method": "list",
+    summary: "List active items",
+    ...itemList("Active items"),
+  },
+  "GET /items/trash": {
+    summary: "List trashed items",
+    ...itemList("Items in the trash"),
+  },
+  "GET /items/events": {
+    summary: "Stream item changes",
+    description:
+      "Server-Sent Events, one per change, with the event ID as `id`, the " +
+      "change type as `event` and the item as JSON `data`. The same path " +
+      "accepts a WebSocket upgrade that sends ChangeMessage JSON messages. " +
+      "New streams only get changes made after they open. Resumed streams " +
+      "first replay the missed changes, up to 1000; a stream missing more " +
+      "ends (WebSocket close code 1013) after those, to be resumed again " +
+      "from the last one.",
+    parameters: [
+      {
+        name: "Last-Event-ID",
+        in: "header",
+        description: "Resume after this event",
+        schema: { type: "integer", minimum: 0 },
+      },
+      integerParam("lastEventId", "Resume after this event", { minimum: 0 }),
+    ],
+    responses: {
+      200: {
+        description: "Endless event stream",
+        content: {
+          "text/event-stream": { schema: { type: "string" } },
+        },
+      },
+      ...errors(400),
+    },
+  },
+  "GET /items/search": {
+    summary: "Full-text search over active items",
+    parameters: [
+      {
+        name: "q",
+        in: "query",
+        required: true,
+        description:
+          'Words to find; "quoted phrases" and trailing * for prefixes',
+        schema: { type: "string" },
+      },
+      param("Limit"),
+      param("Offset"),
+    ],
+    responses: {
+      200: respond("Hits, most relevant first", arrayOf(ref("SearchHit")), {
+        "X-Total-Count": totalCountHeader,
+      }),
+      ...errors(400),
+    },
+  },
+  "POST /items/bulk": {
+    ...bulk("Create several items", ref("ItemInput")),
+    responses: bulkResponses(201, [403]),
+  },
+  "PUT /items/bulk": {
+    ...bulk("Replace several items", ref("BulkUpdate")),
+    responses: bulkResponses(200, [403, 404, 412]),
+  },
+  "DELETE /items/bulk": {
+    ...bulk("Move several items to the trash", ref("BulkDelete")),
+    responses: bulkResponses(200, [403, 404, 412]),
+  },
+  "POST /items/import": {
+    summary: "Create or update items from a CSV or NDJSON upload",
+    description:
+      "CSV needs a header row with name and description columns; other " +
+      "columns are ignored. NDJSON has one ItemInput per line. Rows are " +
+      "validated like ItemInput and written in batches, so a failing row " +
+      "does not stop the others. Batches written before the upload fails " +
+      "stay written; the error then reports them.",
+    parameters: [
+      {
+        name: "dryRun",
+        in: "query",
+        description: "Report what would happen without writing",
+        schema: { type: "boolean", default: false },
+      },
+      {
+        name: "onDuplicate",
+        in: "query",
+        description:
+          "For rows named like an active item: skip them, update the item, " +
+          "or fail them",
+        schema: {
+          type: "string",
+          enum: ["skip", "update", "error"],
+          default: "error",
+        },
+      },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        "text/csv": { schema: { type: "string" } },
+        "application/x-ndjson": { schema: ref("ItemInput") },
+      },
+    },
+    responses: {
+      200: respond("What was (or would be) imported", ref("ImportReport")),
+      ...errors(...bodyErrors, 403),
+      400: respond("Invalid parameters, or an upload that cannot be read", {
+        oneOf: [ref("ValidationFailed"), ref("ImportFailed")],
+      }),
+      413: respond(
+        "A row is too large; the report tells what was imported before it",
+        ref("ImportFailed")
+      ),
+      500: respond(
+        "Unexpected server error; the report tells what was imported",
+        ref("ImportFailed")
+      ),
+    },
+  },
+  "GET /items/:id": {
+    "x-client-method": "get",
+    summary: "Get an item",
+    parameters: [param("ItemId"), param("IfNoneMatch")],
+    responses: {
+      200: itemResponse("The item"),
+      304: { description: "The item still matches If-None-Match" },
+      ...errors(400, 404),
+    },
+  },
+  "POST /items": {
+    "x-client-method": "create",
+    summary: "Create an item",
+    requestBody: jsonBody(ref("ItemInput")),
+    responses: {
+      201: itemResponse("The created item"),
+      ...errors(...bodyErrors, 403),
+    },
+  },
+  "PUT /items/:id": {
+    "x-client-method": "update",
+    summary: "Replace an item",
+    parameters: [param("ItemId"), param("IfMatch")],
+    requestBody: jsonBody(ref("ItemInput")),
+    responses: {
+      200: itemResponse("The updated item"),
+      ...errors(...bodyErrors, 403, 404, 412),
+    },
+  },
+  "PATCH /items/:id": {
+    summary: "Partially update an item",
+    description:
+      "The patched name and description must form a valid ItemInput.",
+    parameters: [param("ItemId"), param("IfMatch")],
+    requestBody: {
+      required: true,
+      content: {
+        "application/merge-patch+json": {
+          schema: {
+            type: "object",
+            description: "JSON Merge Patch (RFC 7396)",
+          },
+        },
+        "application/json-patch+json": {
+          schema: {
+            ...arrayOf({ type: "object" }),
+            description: "JSON Patch operations (RFC 6902)",
+          },
+        },
+      },
+    },
+    responses: {
+      200: itemResponse("The updated item"),
+      409: respond("A JSON Patch test failed", ref("PatchFailed")),
+      ...errors(...bodyErrors, 403, 404, 412),
+    },
+  },
+  "DELETE /items/:id": {
+    "x-client-method": "delete",
+    summary: "Move an item to the trash",
+    parameters: [param("ItemId"), param("IfMatch")],
+    responses: {
+      200: respond("The trashed item", {
+        type: "object",
+        properties: { message: { type: "string" }, item: ref("Item") },
+        required: ["message", "item"],
+      }),
+      ...errors(400, 403, 404, 412),
+    },
+  },
+  "GET /items/:id/history": {
+    summary: "Every change of an item, oldest first",
+    description:
+      "Kept after the item is purged. The history of trashed and purged " +
+      "items is only shown to callers who may delete them.",
+    parameters: [param("ItemId")],
+    responses: {
+      200: respond("Recorded changes", arrayOf(ref("ItemEvent"))),
+      ...errors(400, 403, 404),
+    },
+  },
+  "POST /items/:id/revert": {
+    summary: "Restore an earlier version of an item as a new version",
+    parameters: [param("ItemId"), param("IfMatch")],
+    requestBody: jsonBody(ref("Revert")),
+    responses: {
+      200: itemResponse("The reverted item"),
+      ...errors(...bodyErrors, 403, 404, 412),
+    },
+  },
+  "GET /webhooks": {
+    security: editorsOnly,
+    summary: "List webhooks",
+    responses: {
+      200: respond("Registered webhooks", arrayOf(ref("Webhook"))),
+      ...errors(403),
+    },
+  },
+  "POST /webhooks": {
+    security: editorsOnly,
+    summary: "Register a webhook",
+    description:
+      "Item events are POSTed to the URL, signed in X-Webhook-Signature " +
+      "(sha256= HMAC of `<X-Webhook-Timestamp>.<body>`). Failed deliveries " +
+      "are retried with exponential backoff; repeated failures disable the " +
+      "webhook.",
+    requestBody: jsonBody(ref("WebhookInput")),
+    responses: {
+      201: respond("The webhook with its secret", ref("WebhookWithSecret")),
+      ...errors(...bodyErrors, 403),
+    },
+  },
+  "GET /webhooks/:id": {
+    security: editorsOnly,
+    summary: "Get a webhook",
+    parameters: [param("WebhookId")],
+    responses: {
+      200: respond("The webhook", ref("Webhook")),
+      ...errors(400, 403, 404),
+    },
+  },
+  "PATCH /webhooks/:id": {
+    security: editorsOnly,
+    summary: "Change, enable or disable a webhook",
+    parameters: [param("WebhookId")],
+    requestBody: jsonBody(ref("WebhookUpdate")),
+    responses: {
+      200: respond("The updated webhook", ref("Webhook")),
+      ...errors(...bodyErrors, 403, 404),
+    },
+  },
+  "DELETE /webhooks/:id": {
+    security: editorsOnly,
+    summary: "Delete a webhook and its pending deliveries",
+    parameters: [param("WebhookId")],
+    responses: {
+      200: respond("The deleted webhook", {
+        type: "object",
+        properties: { message: { type: "string" }, webhook: ref("Webhook") },
+        required: ["message", "webhook"],
+      }),
+      ...errors(400, 403, 404),
+    },
+  },
+  "GET /webhooks/:id/deliveries": {
+    security: editorsOnly,
+    summary: "Delivery log of a webhook, newest first",
+    parameters: [param("WebhookId")],
+    responses: {
+      200: respond("Deliveries", arrayOf(ref("WebhookDelivery"))),
+      ...errors(400, 403, 404),
+    },
+  },
+  "POST /items/:id/restore": {
+    summary: "Move an item out of the trash",
+    parameters: [param("ItemId"), param("IfMatch")],
+    responses: {
+      200: itemResponse("The restored item"),
+      ...errors(400, 403, 404, 412),
+    },
+  },
+  "DELETE /items/trash/:id": {
+    summary: "Permanently delete a trashed item",
+    parameters: [param("ItemId"), param("IfMatch")],
+    responses: {
+      200: respond("The purged item", {
+        type: "object",
+        properties: { message: { type: "string" }, item: ref("Item") },
+        required: ["message", "item"],
+      }),
+      ...errors(400, 403, 404, 412),
+    },
+  },
+  "GET /openapi.json": {
+    summary: "This document",
+    responses: {
+      200: respond("OpenAPI 3.1 document", { type: "object" }),
+      ...errors(),
+    },
+  },
+};
+
+// "/items/:id" -> "/items/{id}"
+const toOpenApiPath = (path: string) => path.replace(/:(\w+)/g, "{$1}");
+
+// Build the OpenAPI document for the given routes. Throws for a route with
+// no operation above, so new routes cannot go undocumented.
+export const buildOpenApiDocument = (
+  routes: { method: string; path: string }[]
+) => {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const { method, path } of routes) {
+    const operation = operations[`${method} ${path}`];
+
+    if (!operation) {
+      throw new Error(`No OpenAPI operation for ${method} ${path}`);
+    }
+    (paths[toOpenApiPath(path)] ??= {})[method.toLowerCase()] = operation;
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Items API",
+      version: "1.0.0",
+    },
+    // Anonymous requests are allowed unless the server requires auth
+    security: [{}, { apiKey: [] }, { bearerAuth: [] }],
+    paths,
+    components: {
+      schemas,
+      parameters,
+      responses: Object.fromEntries(Object.values(errorResponses)),
+      securitySchemes: {
+        apiKey: {
+          type: "apiKey",
+          in: "header",
+          name: "Authorization",
+          description: 'An issued key, sent as "ApiKey <key>"',
+        },
+        bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+      },
+    },
+  };
+};
+
+export type OpenApiDocument = ReturnType<typeof buildOpenApiDocument>;
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { applyJsonPatch, applyMergePatch, PatchError } from "./patch.js";
+
+describe("applyMergePatch", () => {
+  it("should merge nested objects and remove null members", () => {
+    const target = { a: "b", c: { d: "e", f: "g" } };
+
+    expect(applyMergePatch(target, { a: "z", c: { f: null } })).toEqual({
+      a: "z",
+      c: { d: "e" },
+    });
+    expect(target).toEqual({ a: "b", c: { d: "e", f: "g" } });
+  });
+
+  it("should replace the target with non-object patches", () => {
+    expect(applyMergePatch({ a: "b" }, ["c"])).toEqual(["c"]);
+  });
+
+  it("should merge __proto__ as a plain member", () => {
+    const result = applyMergePatch(
+      { name: "a" },
+      JSON.parse('{"__proto__": {"polluted": true}}')
+    ) as Record<string, unknown>;
+
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect(Object.keys(result)).toEqual(["name", "__proto__"]);
+    expect(result.polluted).toBeUndefined();
+  });
+});
+
+describe("applyJsonPatch", () => {
+  it("should apply operations in order", () => {
+    const result = applyJsonPatch({ foo: ["bar"], "a/b": 1 }, [
+      { op: "add", path: "/foo/-", value: "baz" },
+      { op: "move", from: "/a~1b", path: "/moved" },
+      { op: "replace", path: "/foo/0", value: "qux" },
+      { op: "remove", path: "/foo/1" },
+    ]);
+
+    expect(result).toEqual({ foo: ["qux"], moved: 1 });
+  });
+
+  it("should reject missing paths as conflicts", () => {
+    expect(() =>
+      applyJsonPatch({}, [{ op: "replace", path: "/missing", value: 1 }])
+    ).toThrow(expect.objectContaining({ conflict: true }));
+  });
+
+  it("should reject unknown operations", () => {
+    expect(() => applyJsonPatch({}, [{ op: "merge", path: "" }])).toThrow(
+      PatchError
+    );
+  });
+});
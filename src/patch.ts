@@ -0,0 +1,252 @@
+// JSON Merge Patch (RFC 7396) and JSON Patch (RFC 6902) helpers. Both work
+// on copies and never modify the target passed in.
+
+// Thrown when a patch document is malformed or cannot be applied
+export class PatchError extends Error {
+  constructor(message: string, readonly conflict = false) {
+    super(message);
+    this.name = "PatchError";
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const has = (container: Record<string, unknown>, key: string) =>
+  Object.prototype.hasOwnProperty.call(container, key);
+
+// Set an own member. Plain assignment to "__proto__" (a valid JSON member
+// name) would replace the object's prototype instead.
+const setMember = (
+  container: Record<string, unknown>,
+  key: string,
+  value: unknown
+) => {
+  Object.defineProperty(container, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+};
+
+export const applyMergePatch = (target: unknown, patch: unknown): unknown => {
+  if (!isObject(patch)) {
+    return patch;
+  }
+
+  const result: Record<string, unknown> = isObject(target) ? { ...target } : {};
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      setMember(
+        result,
+        key,
+        applyMergePatch(has(result, key) ? result[key] : undefined, value)
+      );
+    }
+  }
+
+  return result;
+};
+
+type Operation = {
+  op: "add" | "remove" | "replace" | "move" | "copy" | "test";
+  path: string;
+  from?: string;
+  value?: unknown;
+};
+
+// Split a JSON Pointer (RFC 6901) into unescaped reference tokens
+const parsePointer = (pointer: string): string[] => {
+  if (pointer === "") {
+    return [];
+  }
+  if (!pointer.startsWith("/")) {
+    throw new PatchError(`Invalid JSON Pointer "${pointer}"`);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+};
+
+const arrayIndex = (array: unknown[], token: string, allowEnd: boolean) => {
+  if (allowEnd && token === "-") {
+    return array.length;
+  }
+  const index = /^(0|[1-9]\d*)$/.test(token) ? Number(token) : NaN;
+  if (
+    isNaN(index) ||
+    index > array.length ||
+    (!allowEnd && index === array.length)
+  ) {
+    throw new PatchError(`Array index "${token}" is out of range`, true);
+  }
+  return index;
+};
+
+// Resolve the parent container of the location a pointer refers to
+const resolveParent = (document: unknown, tokens: string[]) => {
+  let current = document;
+
+  for (const token of tokens.slice(0, -1)) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(current, token, false)];
+    } else if (isObject(current) && has(current, token)) {
+      current = current[token];
+    } else {
+      throw new PatchError(`Path "/${tokens.join("/")}" does not exist`, true);
+    }
+  }
+
+  if (!Array.isArray(current) && !isObject(current)) {
+    throw new PatchError(`Path "/${tokens.join("/")}" does not exist`, true);
+  }
+  return { parent: current, key: tokens[tokens.length - 1] };
+};
+
+const getValue = (document: unknown, pointer: string) => {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    return document;
+  }
+
+  const { parent, key } = resolveParent(document, tokens);
+  if (Array.isArray(parent)) {
+    return parent[arrayIndex(parent, key, false)];
+  }
+  if (!has(parent, key)) {
+    throw new PatchError(`Path "${pointer}" does not exist`, true);
+  }
+  return parent[key];
+};
+
+const addValue = (document: unknown, pointer: string, value: unknown) => {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    return value;
+  }
+
+  const { parent, key } = resolveParent(document, tokens);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, true), 0, value);
+  } else {
+    setMember(parent, key, value);
+  }
+  return document;
+};
+
+const removeValue = (document: unknown, pointer: string) => {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    throw new PatchError("Cannot remove the whole document");
+  }
+
+  const { parent, key } = resolveParent(document, tokens);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, false), 1);
+  } else if (has(parent, key)) {
+    delete parent[key];
+  } else {
+    throw new PatchError(`Path "${pointer}" does not exist`, true);
+  }
+  return document;
+};
+
+const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => has(b, key) && deepEqual(a[key], b[key]))
+    );
+  }
+  return a === b;
+};
+
+const validateOperation = (operation: unknown): Operation => {
+  if (!isObject(operation) || typeof operation.path !== "string") {
+    throw new PatchError("Each operation needs an op and a string path");
+  }
+
+  switch (operation.op) {
+    case "add":
+    case "replace":
+    case "test":
+      if (!has(operation, "value")) {
+        throw new PatchError(`"${operation.op}" operation needs a value`);
+      }
+      break;
+    case "move":
+    case "copy":
+      if (typeof operation.from !== "string") {
+        throw new PatchError(`"${operation.op}" operation needs a from path`);
+      }
+      break;
+    case "remove":
+      break;
+    default:
+      throw new PatchError(`Unknown operation "${String(operation.op)}"`);
+  }
+
+  return operation as Operation;
+};
+
+export const applyJsonPatch = (target: unknown, patch: unknown): unknown => {
+  if (!Array.isArray(patch)) {
+    throw new PatchError("JSON Patch document must be an array");
+  }
+
+  const operations = patch.map(validateOperation);
+  let document = structuredClone(target);
+
+  for (const { op, path, from, value } of operations) {
+    switch (op) {
+      case "add":
+        document = addValue(document, path, structuredClone(value));
+        break;
+      case "remove":
+        document = removeValue(document, path);
+        break;
+      case "replace":
+        getValue(document, path);
+        document =
+          path === ""
+            ? structuredClone(value)
+            : addValue(
+                removeValue(document, path),
+                path,
+                structuredClone(value)
+              );
+        break;
+      case "move": {
+        if (path.startsWith(`${from}/`)) {
+          throw new PatchError("Cannot move a value into one of its children");
+        }
+        const moved = getValue(document, from!);
+        document = addValue(removeValue(document, from!), path, moved);
+        break;
+      }
+      case "copy":
+        document = addValue(
+          document,
+          path,
+          structuredClone(getValue(document, from!))
+        );
+        break;
+      case "test":
+        if (!deepEqual(getValue(document, path), value)) {
+          throw new PatchError(`Test failed at path "${path}"`, true);
+        }
+        break;
+    }
+  }
+
+  return document;
+};
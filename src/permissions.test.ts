@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { identifyCaller, isAllowed, type Caller } from "./permissions.js";
+import type { Item } from "./store.js";
+
+const item: Item = {
+  id: 1,
+  name: "Item",
+  description: "Owned by alice",
+  version: 1,
+  ownerId: "alice",
+};
+
+describe("isAllowed", () => {
+  const allowed = (caller: Caller) =>
+    (["read", "create", "update", "delete"] as const).filter((action) =>
+      isAllowed(caller, action, item)
+    );
+
+  it("should apply the role and ownership rules", () => {
+    expect(allowed({ id: "alice", role: "viewer" })).toEqual(["read"]);
+    expect(allowed({ id: "alice", role: "contributor" })).toEqual([
+      "read",
+      "create",
+      "update",
+      "delete",
+    ]);
+    expect(allowed({ id: "bob", role: "contributor" })).toEqual([
+      "read",
+      "create",
+    ]);
+    expect(allowed({ id: "bob", role: "editor" })).toEqual([
+      "read",
+      "create",
+      "update",
+    ]);
+  });
+
+  it("should let only editors manage webhooks", () => {
+    expect(isAllowed({ id: "carol", role: "editor" }, "manageWebhooks")).toBe(
+      true
+    );
+    expect(
+      isAllowed({ id: "alice", role: "contributor" }, "manageWebhooks")
+    ).toBe(false);
+    expect(isAllowed(undefined, "manageWebhooks")).toBe(false);
+  });
+
+  it("should not treat unowned items as owned by anyone", () => {
+    const { ownerId: _ownerId, ...unowned } = item;
+
+    expect(
+      isAllowed({ id: "alice", role: "contributor" }, "update", unowned)
+    ).toBe(false);
+  });
+
+  it("should let anonymous callers change unowned items only", () => {
+    const { ownerId: _ownerId, ...unowned } = item;
+
+    expect(isAllowed(undefined, "read", item)).toBe(true);
+    expect(isAllowed(undefined, "create")).toBe(true);
+    expect(isAllowed(undefined, "update", item)).toBe(false);
+    expect(isAllowed(undefined, "delete", item)).toBe(false);
+    expect(isAllowed(undefined, "update", unowned)).toBe(true);
+    expect(isAllowed(undefined, "delete", unowned)).toBe(true);
+  });
+
+  it("should let anonymous callers only read without anonymousWrites", () => {
+    const { ownerId: _ownerId, ...unowned } = item;
+    const options = { anonymousWrites: false };
+
+    expect(isAllowed(undefined, "read", item, options)).toBe(true);
+    expect(isAllowed(undefined, "create", undefined, options)).toBe(false);
+    expect(isAllowed(undefined, "update", unowned, options)).toBe(false);
+    expect(isAllowed(undefined, "delete", unowned, options)).toBe(false);
+    expect(
+      isAllowed(
+        { id: "alice", role: "contributor" },
+        "create",
+        undefined,
+        options
+      )
+    ).toBe(true);
+  });
+});
+
+describe("identifyCaller", () => {
+  const req = {} as Parameters<typeof identifyCaller>[1];
+
+  it("should take the role from a bearer token claim", () => {
+    expect(
+      identifyCaller(
+        { subject: "carol", scheme: "Bearer", claims: { role: "editor" } },
+        req
+      )
+    ).toEqual({ id: "carol", role: "editor" });
+  });
+
+  it("should take the role of an API key", () => {
+    expect(
+      identifyCaller(
+        { subject: "moderator", scheme: "ApiKey", keyId: 2, role: "editor" },
+        req
+      )
+    ).toEqual({ id: "moderator", role: "editor" });
+  });
+
+  it("should make other identities contributors", () => {
+    expect(
+      identifyCaller({ subject: "importer", scheme: "ApiKey", keyId: 1 }, req)
+    ).toEqual({ id: "importer", role: "contributor" });
+    expect(
+      identifyCaller(
+        { subject: "eve", scheme: "Bearer", claims: { role: "admin" } },
+        req
+      )
+    ).toEqual({ id: "eve", role: "contributor" });
+    expect(identifyCaller(undefined, req)).toBeUndefined();
+  });
+});
@@ -0,0 +1,74 @@
+import type http from "node:http";
+import type { Identity } from "./auth.js";
+import type { Item } from "./store.js";
+
+// viewer: read only. contributor: also create items, and update or delete
+// the items they own. editor: also update any item and manage webhooks.
+export const roles = ["viewer", "contributor", "editor"] as const;
+
+export type Role = (typeof roles)[number];
+
+// Who a request acts for, as far as permissions are concerned
+export type Caller = {
+  id: string;
+  role: Role;
+};
+
+// Hook that decides the caller of a request. Requests without a caller are
+// anonymous: they may read and, while no API key or bearer secret is
+// configured, create and change items without an owner (set requireAuth to
+// refuse them altogether).
+export type IdentifyCaller = (
+  identity: Identity | undefined,
+  req: http.IncomingMessage
+) => Caller | undefined;
+
+// The identity's subject, with the role of its API key or from a bearer
+// token's "role" claim. Tokens without a known role act as contributors.
+export const identifyCaller: IdentifyCaller = (identity) => {
+  if (!identity) {
+    return undefined;
+  }
+
+  const role = identity.role ?? identity.claims?.role;
+  return {
+    id: identity.subject,
+    role: roles.includes(role as Role) ? (role as Role) : "contributor",
+  };
+};
+
+export type Action = "read" | "create" | "update" | "delete" | "manageWebhooks";
+
+// Whether caller may perform action, on item for update and delete.
+// Anonymous callers only read when anonymousWrites is false, so that nobody
+// gets around a viewer role by leaving out their credentials.
+export const isAllowed = (
+  caller: Caller | undefined,
+  action: Action,
+  item?: Item,
+  { anonymousWrites = true }: { anonymousWrites?: boolean } = {}
+): boolean => {
+  if (action === "read") {
+    return true;
+  }
+  if (!caller) {
+    // Owned items are only changed by their owner or an editor
+    return (
+      anonymousWrites &&
+      (action === "create" ||
+        (item !== undefined && item.ownerId === undefined))
+    );
+  }
+  if (caller.role === "viewer") {
+    return false;
+  }
+  if (action === "manageWebhooks") {
+    return caller.role === "editor";
+  }
+  if (action === "create") {
+    return true;
+  }
+
+  const owns = item !== undefined && item.ownerId === caller.id;
+  return owns || (action === "update" && caller.role === "editor");
+};
@@ -0,0 +1,135 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  createSqliteRateLimitStore,
+  type RateLimitRule,
+  type RateLimitStore,
+} from "./ratelimit.js";
+
+describe("createRateLimiter", () => {
+  let time: number;
+
+  const limiter = (
+    rules: RateLimitRule[],
+    store: RateLimitStore = createMemoryRateLimitStore()
+  ) => createRateLimiter({ rules, store, now: () => time });
+
+  beforeEach(() => {
+    time = 1_000_000;
+  });
+
+  it("should allow a burst of capacity requests, then refill", () => {
+    const limit = limiter([{ capacity: 3, refillPerSecond: 1 }]);
+    const allowed = () => limit("GET", "/items", "client")!.allowed;
+
+    expect([allowed(), allowed(), allowed(), allowed()]).toEqual([
+      true,
+      true,
+      true,
+      false,
+    ]);
+
+    time += 1500;
+    expect([allowed(), allowed()]).toEqual([true, false]);
+  });
+
+  it("should report limits in headers", () => {
+    const limit = limiter([{ capacity: 1, refillPerSecond: 0.25 }]);
+
+    expect(limit("GET", "/items", "client")).toEqual({
+      allowed: true,
+      headers: {
+        "RateLimit-Limit": 1,
+        "RateLimit-Remaining": 0,
+        "RateLimit-Reset": 4,
+        "RateLimit-Policy": "1;w=4",
+      },
+    });
+
+    time += 1000;
+    expect(limit("GET", "/items", "client")).toEqual({
+      allowed: false,
+      headers: {
+        "RateLimit-Limit": 1,
+        "RateLimit-Remaining": 0,
+        "RateLimit-Reset": 3,
+        "RateLimit-Policy": "1;w=4",
+        "Retry-After": 3,
+      },
+    });
+  });
+
+  it("should apply the first rule matching the method and route", () => {
+    const limit = limiter([
+      {
+        method: "delete",
+        route: "/items/:id",
+        capacity: 1,
+        refillPerSecond: 1,
+      },
+      { capacity: 5, refillPerSecond: 1 },
+    ]);
+
+    expect(limit("DELETE", "/items/7", "c")!.headers["RateLimit-Limit"]).toBe(
+      1
+    );
+    expect(limit("GET", "/items/7", "c")!.headers["RateLimit-Limit"]).toBe(5);
+    expect(
+      limiter([{ route: "/items", capacity: 1, refillPerSecond: 1 }])(
+        "GET",
+        "/other",
+        "c"
+      )
+    ).toBeUndefined();
+  });
+
+  it("should keep a bucket per client", () => {
+    const limit = limiter([{ capacity: 1, refillPerSecond: 1 }]);
+
+    expect(limit("GET", "/items", "a")!.allowed).toBe(true);
+    expect(limit("GET", "/items", "b")!.allowed).toBe(true);
+    expect(limit("GET", "/items", "a")!.allowed).toBe(false);
+  });
+
+  it("should give tokens back with a negative cost, up to capacity", () => {
+    const limit = limiter([{ capacity: 2, refillPerSecond: 1 }]);
+
+    limit("GET", "/items", "client");
+    limit("GET", "/items", "client");
+    expect(limit("GET", "/items", "client", -1)!.allowed).toBe(true);
+    expect(limit("GET", "/items", "client")!.allowed).toBe(true);
+    expect(limit("GET", "/items", "client")!.allowed).toBe(false);
+
+    const refunded = limit("GET", "/items", "other", -1)!;
+    expect(refunded.headers["RateLimit-Remaining"]).toBe(2);
+  });
+
+  describe("with the SQLite store", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "limits-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should keep buckets across restarts", () => {
+      const dbPath = path.join(dir, "items.db");
+      const rules = [{ capacity: 1, refillPerSecond: 1 }];
+
+      const first = createSqliteRateLimitStore(dbPath);
+      expect(limiter(rules, first)("GET", "/", "a")!.allowed).toBe(true);
+      first.close();
+
+      const second = createSqliteRateLimitStore(dbPath);
+      expect(limiter(rules, second)("GET", "/", "a")!.allowed).toBe(false);
+      second.close();
+    });
+  });
+});
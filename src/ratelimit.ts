@@ -0,0 +1,159 @@
+import { openDatabase } from "./db.js";
+import { compilePath } from "./router.js";
+
+// Token bucket for requests matching method and route. Each request takes a
+// token; tokens flow back at refillPerSecond up to capacity.
+export type RateLimitRule = {
+  // Any method when unset
+  method?: string;
+  // Route pattern such as "/items/:id"; any path when unset
+  route?: string;
+  // Largest burst a client can send at once
+  capacity: number;
+  refillPerSecond: number;
+};
+
+export type Bucket = {
+  tokens: number;
+  // Milliseconds since the epoch
+  updatedAt: number;
+};
+
+// Where bucket state lives, per rule and client
+export type RateLimitStore = {
+  // Replace the bucket for key with fn's result in one atomic step. fn gets
+  // undefined for a key seen for the first time.
+  update(key: string, fn: (bucket: Bucket | undefined) => Bucket): Bucket;
+  close(): void;
+};
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  // RateLimit-* headers, plus Retry-After when the request is refused
+  headers: Record<string, string | number>;
+};
+
+// Decide whether a client may make a request now, taking cost tokens (1 by
+// default; -1 gives a token back). Undefined when no rule covers the request.
+export type RateLimiter = (
+  method: string,
+  pathname: string,
+  client: string,
+  cost?: number
+) => RateLimitDecision | undefined;
+
+// The first rule matching a request applies
+export const createRateLimiter = ({
+  rules,
+  store,
+  now = Date.now,
+}: {
+  rules: RateLimitRule[];
+  store: RateLimitStore;
+  now?: () => number;
+}): RateLimiter => {
+  const compiled = rules.map((rule) => ({
+    rule,
+    pattern:
+      rule.route === undefined ? undefined : compilePath(rule.route).pattern,
+    // Bucket keys name the rule so reordering rules keeps their state
+    name: `${rule.method?.toUpperCase() ?? "*"} ${rule.route ?? "*"}`,
+  }));
+
+  return (method, pathname, client, cost = 1) => {
+    const match = compiled.find(
+      ({ rule, pattern }) =>
+        (rule.method === undefined || rule.method.toUpperCase() === method) &&
+        (pattern === undefined || pattern.test(pathname))
+    );
+
+    if (!match) {
+      return undefined;
+    }
+
+    const { capacity, refillPerSecond } = match.rule;
+    const time = now();
+    const result = { allowed: false };
+
+    const bucket = store.update(`${match.name}|${client}`, (current) => {
+      const elapsed = current
+        ? Math.max(0, time - current.updatedAt) / 1000
+        : 0;
+      const tokens = current
+        ? Math.min(capacity, current.tokens + elapsed * refillPerSecond)
+        : capacity;
+
+      result.allowed = tokens >= cost;
+      return {
+        tokens: result.allowed ? Math.min(capacity, tokens - cost) : tokens,
+        updatedAt: time,
+      };
+    });
+
+    // Header fields follow the IETF RateLimit header draft; times are in
+    // whole seconds, rounded up
+    const headers: Record<string, string | number> = {
+      "RateLimit-Limit": capacity,
+      "RateLimit-Remaining": Math.floor(bucket.tokens),
+      "RateLimit-Reset": Math.ceil(
+        (capacity - bucket.tokens) / refillPerSecond
+      ),
+      "RateLimit-Policy": `${capacity};w=${Math.ceil(
+        capacity / refillPerSecond
+      )}`,
+    };
+
+    if (!result.allowed) {
+      headers["Retry-After"] = Math.ceil((1 - bucket.tokens) / refillPerSecond);
+    }
+
+    return { allowed: result.allowed, headers };
+  };
+};
+
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const buckets = new Map<string, Bucket>();
+
+  return {
+    update: (key, fn) => {
+      const bucket = fn(buckets.get(key));
+      buckets.set(key, bucket);
+      return bucket;
+    },
+
+    close: () => {},
+  };
+};
+
+export const createSqliteRateLimitStore = (dbPath: string): RateLimitStore => {
+  const db = openDatabase(dbPath);
+
+  const select = db.prepare(
+    "SELECT tokens, updated_at AS updatedAt FROM rate_limit_buckets WHERE key = ?"
+  );
+  const upsert = db.prepare(
+    `INSERT INTO rate_limit_buckets (key, tokens, updated_at) VALUES (?, ?, ?)
+     ON CONFLICT (key) DO UPDATE
+     SET tokens = excluded.tokens, updated_at = excluded.updated_at`
+  );
+
+  // IMMEDIATE takes the write lock before reading, so servers sharing the
+  // database cannot both spend the same token
+  const update = db.transaction(
+    (key: string, fn: (bucket?: Bucket) => Bucket) => {
+      const bucket = fn(select.get(key) as Bucket | undefined);
+      upsert.run(key, bucket.tokens, bucket.updatedAt);
+      return bucket;
+    }
+  );
+
+  return {
+    update: (key, fn) => update.immediate(key, fn),
+
+    close: () => {
+      if (db.open) {
+        db.close();
+      }
+    },
+  };
+};
@@ -0,0 +1,165 @@
+import http from "node:http";
+import type { Transform, Writable } from "node:stream";
+import zlib from "node:zlib";
+import { codedETag } from "./conditional.js";
+
+// Content codings offered for responses, most preferred first
+export const encodings = ["br", "gzip", "deflate"] as const;
+
+export type Encoding = (typeof encodings)[number];
+
+// Brotli's default quality suits static files and is too slow per request
+const brotliOptions = {
+  params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 5 },
+};
+
+const compressors: Record<Encoding, (data: string) => Buffer> = {
+  br: (data) => zlib.brotliCompressSync(data, brotliOptions),
+  gzip: (data) => zlib.gzipSync(data),
+  deflate: (data) => zlib.deflateSync(data),
+};
+
+const streamCompressors: Record<Encoding, () => Transform> = {
+  br: () => zlib.createBrotliCompress(brotliOptions),
+  gzip: () => zlib.createGzip(),
+  deflate: () => zlib.createDeflate(),
+};
+
+// The coding an Accept-Encoding header prefers, or undefined to send the
+// body as is. Codings not listed are only accepted through "*".
+export const negotiateEncoding = (
+  acceptEncoding: string | undefined
+): Encoding | undefined => {
+  const qualities = new Map<string, number>();
+
+  for (const part of (acceptEncoding ?? "").split(",")) {
+    const [coding, ...params] = part.split(";").map((s) => s.trim());
+    const q = params
+      .map((param) => /^q=([\d.]+)$/i.exec(param)?.[1])
+      .find((value) => value !== undefined);
+
+    if (coding) {
+      qualities.set(coding.toLowerCase(), q === undefined ? 1 : Number(q));
+    }
+  }
+
+  let best: { encoding: Encoding; quality: number } | undefined;
+
+  for (const encoding of encodings) {
+    const quality = qualities.get(encoding) ?? qualities.get("*") ?? 0;
+
+    if (quality > 0 && (!best || quality > best.quality)) {
+      best = { encoding, quality };
+    }
+  }
+  return best?.encoding;
+};
+
+type Compression = { encoding?: Encoding; threshold: number };
+
+const compressionSettings = new WeakMap<http.ServerResponse, Compression>();
+
+// Let sendJson and startBody compress the response to req as it accepts.
+// Bodies sent with sendJson must be at least threshold bytes long.
+export const enableCompression = (
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  threshold: number
+) => {
+  compressionSettings.set(res, {
+    encoding: negotiateEncoding(req.headers["accept-encoding"]),
+    threshold,
+  });
+};
+
+// The coding for a body of size bytes, unknown for streams. Responses that
+// could be compressed vary on Accept-Encoding even when they are not.
+const encodingFor = (res: http.ServerResponse, size?: number) => {
+  const compression = compressionSettings.get(res);
+
+  if (!compression) {
+    return undefined;
+  }
+  appendVary(res, "Accept-Encoding");
+  return size === undefined || size >= compression.threshold
+    ? compression.encoding
+    : undefined;
+};
+
+// A body sent with encoding needs an ETag of its own
+const withCodedETag = (
+  headers: http.OutgoingHttpHeaders,
+  encoding: Encoding | undefined
+): http.OutgoingHttpHeaders =>
+  encoding && typeof headers.ETag === "string"
+    ? { ...headers, ETag: codedETag(headers.ETag, encoding) }
+    : headers;
+
+// Write a JSON response with the given status code
+export const sendJson = (
+  res: http.ServerResponse,
+  statusCode: number,
+  body: unknown,
+  headers: http.OutgoingHttpHeaders = {}
+) => {
+  const json = JSON.stringify(body);
+  const encoding = encodingFor(res, Buffer.byteLength(json));
+
+  res.writeHead(statusCode, {
+    ...withCodedETag(headers, encoding),
+    "Content-Type": "application/json",
+    ...(encoding && { "Content-Encoding": encoding }),
+  });
+  res.end(encoding ? compressors[encoding](json) : json);
+};
+
+// Answer 304 with the headers that sendJson would have sent with body
+export const sendNotModified = (
+  res: http.ServerResponse,
+  body: unknown,
+  headers: http.OutgoingHttpHeaders = {}
+) => {
+  const encoding = encodingFor(res, Buffer.byteLength(JSON.stringify(body)));
+
+  res.writeHead(304, withCodedETag(headers, encoding));
+  res.end();
+};
+
+// Start a response whose body is written piece by piece to the returned
+// stream, which must be ended. Compressed whenever the client accepts it.
+export const startBody = (
+  res: http.ServerResponse,
+  statusCode: number,
+  headers: http.OutgoingHttpHeaders = {}
+): Writable => {
+  const encoding = encodingFor(res);
+
+  res.writeHead(statusCode, {
+    ...withCodedETag(headers, encoding),
+    ...(encoding && { "Content-Encoding": encoding }),
+  });
+
+  if (!encoding) {
+    return res;
+  }
+  const body = streamCompressors[encoding]();
+  body.pipe(res);
+  // Let writers see a client that went away
+  res.on("close", () => body.destroy());
+  return body;
+};
+
+// Add a request header to Vary, keeping those already listed
+export const appendVary = (res: http.ServerResponse, header: string) => {
+  const vary = res.getHeader("Vary");
+
+  if (!vary) {
+    res.setHeader("Vary", header);
+  } else if (
+    !String(vary)
+      .split(/\s*,\s*/)
+      .includes(header)
+  ) {
+    res.setHeader("Vary", `${vary}, ${header}`);
+  }
+};
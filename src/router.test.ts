@@ -0,0 +1,83 @@
+import http from "http";
+import request from "supertest";
+import { describe, expect, it } from "vitest";
+import { createRouter, type Router } from "./router.js";
+
+// Wrap a router in a bare server that 404s on unmatched paths
+const serve = (router: Router) =>
+  http.createServer((req, res) => {
+    const url = new URL(req.url!, "http://localhost");
+
+    if (!router.handle({ req, res }, url.pathname)) {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+
+describe("router", () => {
+  it("should pass decoded path parameters to handlers", async () => {
+    const router = createRouter().get(
+      "/users/:userId/notes/:noteId",
+      ({ res, params }) => {
+        res.end(JSON.stringify(params));
+      }
+    );
+
+    const response = await request(serve(router)).get("/users/a%20b/notes/7");
+
+    expect(JSON.parse(response.text)).toEqual({ userId: "a b", noteId: "7" });
+  });
+
+  it("should match the whole path only", async () => {
+    const router = createRouter().get("/items/:id", ({ res }) => {
+      res.end("ok");
+    });
+
+    await request(serve(router)).get("/items/1").expect(200);
+    await request(serve(router)).get("/items/1/extra").expect(404);
+    await request(serve(router)).get("/items").expect(404);
+  });
+
+  it("should use the first matching route", async () => {
+    const router = createRouter()
+      .get("/items/search", ({ res }) => {
+        res.end("search");
+      })
+      .get("/items/:id", ({ res }) => {
+        res.end("item");
+      });
+
+    const response = await request(serve(router)).get("/items/search");
+
+    expect(response.text).toBe("search");
+  });
+
+  it("should return 405 with Allow header when only the method differs", async () => {
+    const router = createRouter()
+      .get("/items", ({ res }) => {
+        res.end();
+      })
+      .post("/items", ({ res }) => {
+        res.end();
+      });
+
+    const response = await request(serve(router)).delete("/items").expect(405);
+
+    expect(response.headers["allow"]).toBe("GET, POST");
+    expect(response.body).toEqual({ error: "Method not allowed" });
+  });
+
+  it("should list registered routes in order", () => {
+    const handler = () => undefined;
+    const router = createRouter()
+      .get("/items", handler)
+      .post("/items", handler)
+      .delete("/items/:id", handler);
+
+    expect(router.routes()).toEqual([
+      { method: "GET", path: "/items" },
+      { method: "POST", path: "/items" },
+      { method: "DELETE", path: "/items/:id" },
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+import http from "node:http";
+import { sendJson } from "./response.js";
+
+// Extract `:name` segments of a route pattern into a params object type,
+// e.g. RouteParams<"/items/:id"> is { id: string }
+export type RouteParams<Path extends string> =
+  Path extends `${string}:${infer Param}/${infer Rest}`
+    ? { [K in Param]: string } & RouteParams<`/${Rest}`>
+    : Path extends `${string}:${infer Param}`
+    ? { [K in Param]: string }
+    : {};
+
+// Values every handler receives. Servers extend this with their own
+// per-request fields (query, logger, ...).
+export type BaseContext = {
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+};
+
+export type RouteHandler<
+  Context extends BaseContext = BaseContext,
+  Params = Record<string, string>
+> = (ctx: Context & { params: Params }) => void;
+
+type Route<Context extends BaseContext> = {
+  method: string;
+  path: string;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: RouteHandler<Context>;
+};
+
+type Register<Context extends BaseContext> = <Path extends string>(
+  path: Path,
+  handler: RouteHandler<Context, RouteParams<Path>>
+) => Router<Context>;
+
+export type Router<Context extends BaseContext = BaseContext> = {
+  get: Register<Context>;
+  post: Register<Context>;
+  put: Register<Context>;
+  patch: Register<Context>;
+  delete: Register<Context>;
+  // Dispatch a request. Returns false when no route matches the path, so the
+  // caller can send its own 404.
+  handle(ctx: Context, pathname: string): boolean;
+  // Registered routes in registration order, e.g. for documentation
+  routes(): { method: string; path: string }[];
+};
+
+// Compile "/items/:id" into a regex anchored on both ends. Parameters match
+// a single (possibly empty) path segment so handlers decide what is valid.
+export const compilePath = (path: string) => {
+  const paramNames: string[] = [];
+  const source = path
+    .split("/")
+    .map((segment) => {
+      if (segment.startsWith(":")) {
+        paramNames.push(segment.slice(1));
+        return "([^/]*)";
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("/");
+
+  return { pattern: new RegExp(`^${source}$`), paramNames };
+};
+
+const decodeParam = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+export const createRouter = <
+  Context extends BaseContext = BaseContext
+>(): Router<Context> => {
+  const routes: Route<Context>[] = [];
+
+  const register =
+    (method: string): Register<Context> =>
+    (path, handler) => {
+      routes.push({
+        method,
+        path,
+        ...compilePath(path),
+        handler: handler as RouteHandler<Context>,
+      });
+      return router;
+    };
+
+  const router: Router<Context> = {
+    get: register("GET"),
+    post: register("POST"),
+    put: register("PUT"),
+    patch: register("PATCH"),
+    delete: register("DELETE"),
+
+    handle: (ctx, pathname) => {
+      const allowed: string[] = [];
+
+      for (const route of routes) {
+        const match = route.pattern.exec(pathname);
+
+        if (!match) {
+          continue;
+        }
+
+        if (route.method !== ctx.req.method) {
+          if (!allowed.includes(route.method)) {
+            allowed.push(route.method);
+          }
+          continue;
+        }
+
+        const params: Record<string, string> = {};
+        route.paramNames.forEach((name, index) => {
+          params[name] = decodeParam(match[index + 1]);
+        });
+
+        route.handler({ ...ctx, params });
+        return true;
+      }
+
+      // The path exists but not for this method
+      if (allowed.length > 0) {
+        sendJson(
+          ctx.res,
+          405,
+          { error: "Method not allowed" },
+          { Allow: allowed.join(", ") }
+        );
+        return true;
+      }
+
+      return false;
+    },
+
+    routes: () => routes.map(({ method, path }) => ({ method, path })),
+  };
+
+  return router;
+};
@@ -0,0 +1,104 @@
+import type { ObjectSchema } from "./validation.js";
+import { webhookEventTypes } from "./webhooks.js";
+
+// Request body for creating or replacing an item
+export const itemInputSchema: ObjectSchema = {
+  type: "object",
+  fields: {
+    name: {
+      type: "string",
+      label: "Name",
+      required: true,
+      trim: true,
+      maxLength: 100,
+    },
+    description: {
+      type: "string",
+      label: "Description",
+      required: true,
+      trim: true,
+      maxLength: 500,
+    },
+  },
+};
+
+// Element of a PUT /items/bulk body: a full replacement of one item, with
+// an optional version to guard against concurrent changes
+export const bulkUpdateSchema: ObjectSchema = {
+  type: "object",
+  fields: {
+    id: { type: "integer", label: "ID", required: true, minimum: 1 },
+    ...itemInputSchema.fields,
+    version: { type: "integer", label: "Version", minimum: 1 },
+  },
+};
+
+// Element of a DELETE /items/bulk body
+export const bulkDeleteSchema: ObjectSchema = {
+  type: "object",
+  fields: {
+    id: { type: "integer", label: "ID", required: true, minimum: 1 },
+    version: { type: "integer", label: "Version", minimum: 1 },
+  },
+};
+
+// Request body for POST /items/:id/revert
+export const revertSchema: ObjectSchema = {
+  type: "object",
+  fields: {
+    version: { type: "integer", label: "Version", required: true, minimum: 1 },
+  },
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const webhookFields: ObjectSchema["fields"] = {
+  url: {
+    type: "string",
+    label: "URL",
+    trim: true,
+    maxLength: 2000,
+    rules: [
+      {
+        code: "invalid_url",
+        message: "URL must be an http or https URL",
+        test: isHttpUrl,
+      },
+    ],
+  },
+  // Every event type when missing or empty
+  events: {
+    type: "array",
+    label: "Events",
+    items: {
+      type: "string",
+      label: "Event",
+      required: true,
+      enum: webhookEventTypes,
+    },
+  },
+};
+
+// Request body for POST /webhooks
+export const webhookInputSchema: ObjectSchema = {
+  type: "object",
+  fields: {
+    ...webhookFields,
+    url: { ...webhookFields.url, required: true },
+  },
+};
+
+// Request body for PATCH /webhooks/:id; every field is optional
+export const webhookUpdateSchema: ObjectSchema = {
+  type: "object",
+  fields: {
+    ...webhookFields,
+    enabled: { type: "boolean", label: "Enabled" },
+  },
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { parseSearchParams, parseSearchQuery } from "./search.js";
+
+describe("parseSearchQuery", () => {
+  it("should split words, phrases and prefixes", () => {
+    expect(parseSearchQuery('red "Crisp Fruit" app* "big ap"*')).toEqual([
+      { words: ["red"], prefix: false },
+      { words: ["crisp", "fruit"], prefix: false },
+      { words: ["app"], prefix: true },
+      { words: ["big", "ap"], prefix: true },
+    ]);
+  });
+
+  it("should normalize case and diacritics", () => {
+    expect(parseSearchQuery("Crème")).toEqual([
+      { words: ["creme"], prefix: false },
+    ]);
+  });
+
+  it("should treat punctuation as word separators", () => {
+    expect(parseSearchQuery('e-mail (NOT) ""')).toEqual([
+      { words: ["e", "mail"], prefix: false },
+      { words: ["not"], prefix: false },
+    ]);
+  });
+});
+
+describe("parseSearchParams", () => {
+  it("should default paging", () => {
+    expect(parseSearchParams({ q: "apple" }).params).toEqual({
+      terms: [{ words: ["apple"], prefix: false }],
+      limit: 100,
+      offset: 0,
+    });
+  });
+
+  it("should report invalid paging and an empty query together", () => {
+    expect(
+      parseSearchParams({ q: "*", limit: "0" }).errors.map(({ field }) => field)
+    ).toEqual(["limit", "q"]);
+  });
+});
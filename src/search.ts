@@ -0,0 +1,222 @@
+import type { ParsedUrlQuery } from "node:querystring";
+import { parsePaging, single } from "./list.js";
+import type {
+  Item,
+  SearchHit,
+  SearchQuery,
+  SearchResult,
+  SearchTerm,
+} from "./store.js";
+import type { ValidationError } from "./validation.js";
+
+// Markers around matched words in highlights
+export const MARK_START = "<mark>";
+export const MARK_END = "</mark>";
+export const ELLIPSIS = "…";
+// Longest description excerpt, in words
+export const SNIPPET_WORDS = 16;
+// A match in the name counts this many times more than one in the description
+export const NAME_WEIGHT = 2;
+
+// Highlights are HTML: item text is escaped and matches wrapped in <mark>
+const htmlEntities: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"]/g, (char) => htmlEntities[char]);
+
+// Control characters that stand in for the markers where text is marked
+// before it can be escaped, as in SQLite's highlight() and snippet(). Item
+// text containing them gets stray <mark> tags, but nothing else unescaped.
+export const RAW_MARK_START = "\u0002";
+export const RAW_MARK_END = "\u0003";
+
+// Escape text marked with RAW_MARK_START and RAW_MARK_END and turn those
+// into MARK_START and MARK_END
+export const rawMarksToHtml = (text: string) =>
+  escapeHtml(text)
+    .replaceAll(RAW_MARK_START, MARK_START)
+    .replaceAll(RAW_MARK_END, MARK_END);
+
+type Token = { word: string; start: number; end: number };
+
+// Letters and digits, including combining marks of decomposed characters
+const wordPattern = /[\p{L}\p{M}\p{N}]+/gu;
+
+// Lowercase and strip diacritics, like SQLite's unicode61 tokenizer
+const normalize = (word: string) =>
+  word.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+
+const tokenize = (text: string): Token[] =>
+  [...text.matchAll(wordPattern)].map((match) => ({
+    word: normalize(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+
+// Split a search string into terms. "quoted words" form a phrase and a
+// trailing * (after a word or a closing quote) makes a prefix query.
+export const parseSearchQuery = (q: string): SearchTerm[] => {
+  const terms: SearchTerm[] = [];
+
+  for (const [, phrase, phrasePrefix, word] of q.matchAll(
+    /"([^"]*)"(\*)?|([^\s"]+)/g
+  )) {
+    const words = tokenize(phrase ?? word).map((token) => token.word);
+
+    if (words.length > 0) {
+      terms.push({
+        words,
+        prefix:
+          phrase !== undefined
+            ? phrasePrefix !== undefined
+            : word.endsWith("*"),
+      });
+    }
+  }
+  return terms;
+};
+
+// Parse and validate ?q=&limit=&offset=
+export const parseSearchParams = (
+  query: ParsedUrlQuery
+): { params?: SearchQuery; errors: ValidationError[] } => {
+  const errors: ValidationError[] = [];
+  const paging = parsePaging(query, errors);
+  const terms = parseSearchQuery(single(query, "q") ?? "");
+
+  if (terms.length === 0) {
+    errors.push({
+      field: "q",
+      code: "required",
+      message: "q must contain at least one word",
+    });
+  }
+
+  return errors.length > 0
+    ? { errors }
+    : { params: { terms, ...paging }, errors };
+};
+
+// Start positions of every occurrence of term among tokens
+const findTerm = (tokens: Token[], term: SearchTerm): number[] => {
+  const last = term.words.length - 1;
+  const positions: number[] = [];
+
+  for (let start = 0; start + last < tokens.length; start++) {
+    const found = term.words.every((word, offset) => {
+      const token = tokens[start + offset].word;
+      return offset === last && term.prefix
+        ? token.startsWith(word)
+        : token === word;
+    });
+
+    if (found) {
+      positions.push(start);
+    }
+  }
+  return positions;
+};
+
+// Tokenize a field and find every term in it
+const matchField = (text: string, terms: SearchTerm[]) => {
+  const tokens = tokenize(text);
+  const marked = new Set<number>();
+  const counts = terms.map((term) => {
+    const positions = findTerm(tokens, term);
+    for (const start of positions) {
+      term.words.forEach((_, offset) => marked.add(start + offset));
+    }
+    return positions.length;
+  });
+
+  return { text, tokens, marked, counts };
+};
+
+type FieldMatch = ReturnType<typeof matchField>;
+
+// Text from token `from` up to (not including) token `to`, escaped, with
+// marked tokens wrapped. The whole text is kept at either end.
+const markTokens = (
+  { text, tokens, marked }: FieldMatch,
+  from: number,
+  to: number
+) => {
+  let result = "";
+  let position = from === 0 ? 0 : tokens[from].start;
+
+  for (let index = from; index < to; index++) {
+    if (marked.has(index)) {
+      const { start, end } = tokens[index];
+      result += `${escapeHtml(
+        text.slice(position, start)
+      )}${MARK_START}${escapeHtml(text.slice(start, end))}${MARK_END}`;
+      position = end;
+    }
+  }
+
+  const end = to === tokens.length ? text.length : tokens[to - 1].end;
+  return result + escapeHtml(text.slice(position, end));
+};
+
+// Up to SNIPPET_WORDS words starting shortly before the first match
+const snippet = (match: FieldMatch) => {
+  const count = match.tokens.length;
+
+  if (count <= SNIPPET_WORDS) {
+    return markTokens(match, 0, count);
+  }
+
+  const first = match.marked.size > 0 ? Math.min(...match.marked) : 0;
+  const from = Math.max(0, Math.min(first - 3, count - SNIPPET_WORDS));
+  const to = from + SNIPPET_WORDS;
+
+  return `${from > 0 ? ELLIPSIS : ""}${markTokens(match, from, to)}${
+    to < count ? ELLIPSIS : ""
+  }`;
+};
+
+// Search an in-memory array of items. Scores count matches, weighting the
+// name by NAME_WEIGHT.
+export const searchItems = (
+  items: Item[],
+  query: SearchQuery
+): SearchResult => {
+  const hits = items
+    .flatMap((item): SearchHit[] => {
+      const name = matchField(item.name, query.terms);
+      const description = matchField(item.description, query.terms);
+
+      if (
+        query.terms.some((_, i) => name.counts[i] + description.counts[i] === 0)
+      ) {
+        return [];
+      }
+
+      const score = query.terms.reduce(
+        (sum, _, i) =>
+          sum + NAME_WEIGHT * name.counts[i] + description.counts[i],
+        0
+      );
+      return [
+        {
+          item,
+          score,
+          highlights: {
+            name: markTokens(name, 0, name.tokens.length),
+            description: snippet(description),
+          },
+        },
+      ];
+    })
+    .sort((a, b) => b.score - a.score || a.item.id - b.item.id);
+
+  return {
+    hits: hits.slice(query.offset, query.offset + query.limit),
+    total: hits.length,
+  };
+};
@@ -1,557 +1,3502 @@
+import { createHash } from "crypto";
 import http from "http";
+import type { AddressInfo } from "net";
+import type { Duplex } from "stream";
 import request from "supertest";
-import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
-import { createMyServer, resetMyServerData } from "./server.sql.js";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { createMemoryApiKeyStore, type ApiKeyStore } from "./apikeys.js";
+import { signJwt } from "./jwt.js";
+import type { LogEntry } from "./logger.js";
+import type { IdentifyCaller, Role } from "./permissions.js";
+import { createMyServer, type MyServerOptions } from "./server.js";
+import type { ItemStore } from "./store.js";
+import { createMemoryItemStore } from "./store.memory.js";
+import { createSqliteItemStore } from "./store.sql.js";
+import { signWebhookPayload } from "./webhooks.js";
+
+// Run the whole suite against every store backend
+describe.each([
+  { backend: "memory", createStore: () => createMemoryItemStore() },
+  { backend: "sqlite", createStore: () => createSqliteItemStore(":memory:") },
+])("$backend store", ({ createStore }) => {
+  let store: ItemStore;
+  let server: http.Server;
+  let app: http.Server;
+
+  beforeAll(() => {
+    // Create server instance for testing
+    store = createStore();
+    app = createMyServer({ store, logLevel: "silent" });
+    server = app.listen(0); // Use port 0 for random available port
+  });
+
+  afterAll(() => {
+    if (server) {
+      server.close();
+    }
+    store.close();
+  });
+
+  beforeEach(() => {
+    // Reset stored data before each test
+    store.reset();
+  });
+
+  // GET /items tests
+  describe("GET /items", () => {
+    it("should return empty array initially", async () => {
+      const response = await request(app).get("/items").expect(200);
+
+      expect(response.body).toEqual([]);
+    });
+
+    it("should return all items", async () => {
+      // Create test items first
+      await request(app)
+        .post("/items")
+        .send({ name: "Item 1", description: "Description 1" });
+
+      await request(app)
+        .post("/items")
+        .send({ name: "Item 2", description: "Description 2" });
+
+      const response = await request(app).get("/items").expect(200);
+
+      expect(response.body).toHaveLength(2);
+      expect(response.body[0]).toMatchObject({
+        id: 1,
+        name: "Item 1",
+        description: "Description 1",
+      });
+      expect(response.body[1]).toMatchObject({
+        id: 2,
+        name: "Item 2",
+        description: "Description 2",
+      });
+    });
+
+    it("should have correct content type", async () => {
+      const response = await request(app).get("/items").expect(200);
+
+      expect(response.headers["content-type"]).toBe("application/json");
+    });
+  });
+
+  // GET /items pagination, sorting and filtering tests
+  describe("GET /items query parameters", () => {
+    beforeEach(async () => {
+      const items = [
+        { name: "Banana", description: "Yellow fruit" },
+        { name: "apple", description: "Red fruit" },
+        { name: "Cherry", description: "Small 100% red fruit" },
+        { name: "Banana", description: "Another banana" },
+        { name: "Date", description: "Sweet" },
+      ];
+
+      for (const item of items) {
+        await request(app).post("/items").send(item).expect(201);
+      }
+    });
+
+    it("should paginate with limit and offset", async () => {
+      const response = await request(app)
+        .get("/items?limit=2&offset=2")
+        .expect(200);
+
+      expect(response.body.map((item: any) => item.id)).toEqual([3, 4]);
+      expect(response.headers["x-total-count"]).toBe("5");
+      expect(response.headers["link"]).toBe(
+        '</items?limit=2&offset=4>; rel="next", </items?limit=2&offset=0>; rel="prev"'
+      );
+    });
+
+    it("should paginate with an after cursor", async () => {
+      const first = await request(app).get("/items?limit=3").expect(200);
+
+      expect(first.body.map((item: any) => item.id)).toEqual([1, 2, 3]);
+      expect(first.headers["link"]).toBe(
+        '</items?limit=3&after=3>; rel="next"'
+      );
+
+      const second = await request(app)
+        .get("/items?limit=3&after=3")
+        .expect(200);
+
+      expect(second.body.map((item: any) => item.id)).toEqual([4, 5]);
+      expect(second.headers["link"]).toBeUndefined();
+    });
+
+    it("should sort by multiple fields", async () => {
+      const response = await request(app)
+        .get("/items?sort=name,-id")
+        .expect(200);
+
+      expect(response.body.map((item: any) => item.id)).toEqual([
+        4, 1, 3, 5, 2,
+      ]);
+    });
+
+    it("should continue a sorted listing from a cursor", async () => {
+      const response = await request(app)
+        .get("/items?sort=-name&limit=2&after=3")
+        .expect(200);
+
+      expect(response.body.map((item: any) => item.id)).toEqual([1, 4]);
+    });
+
+    it("should filter by exact name", async () => {
+      const response = await request(app).get("/items?name=Banana").expect(200);
+
+      expect(response.body.map((item: any) => item.id)).toEqual([1, 4]);
+      expect(response.headers["x-total-count"]).toBe("2");
+    });
+
+    it("should search name and description case-insensitively", async () => {
+      const response = await request(app).get("/items?q=RED").expect(200);
+
+      expect(response.body.map((item: any) => item.id)).toEqual([2, 3]);
+    });
+
+    it("should treat search wildcards literally", async () => {
+      const response = await request(app).get("/items?q=0%25").expect(200);
+
+      expect(response.body.map((item: any) => item.id)).toEqual([3]);
+    });
+
+    it("should return 400 for invalid query parameters", async () => {
+      const response = await request(app)
+        .get("/items?limit=0&offset=-1&sort=price")
+        .expect(400);
+
+      expect(response.body.error).toBe("Invalid query parameters");
+      expect(response.body.details).toEqual([
+        {
+          field: "limit",
+          code: "out_of_range",
+          message: "limit must be an integer between 1 and 1000",
+        },
+        {
+          field: "offset",
+          code: "out_of_range",
+          message: "offset must be a non-negative integer",
+        },
+        {
+          field: "sort",
+          code: "invalid_value",
+          message: 'Cannot sort by "price"',
+        },
+      ]);
+    });
+
+    it("should reject combining after and offset", async () => {
+      const response = await request(app)
+        .get("/items?after=1&offset=1")
+        .expect(400);
+
+      expect(response.body.details).toContainEqual({
+        field: "after",
+        code: "conflict",
+        message: "after and offset cannot be combined",
+      });
+    });
+  });
+
+  // Bulk endpoint tests
+  describe("Bulk operations", () => {
+    const names = async () =>
+      (await request(app).get("/items").expect(200)).body.map(
+        (item: any) => item.name
+      );
+
+    it("should create every item in one request", async () => {
+      const response = await request(app)
+        .post("/items/bulk")
+        .send([
+          { name: "One", description: "First" },
+          { name: "Two", description: "Second" },
+        ])
+        .expect(201);
+
+      expect(response.body.results).toEqual([
+        { index: 0, status: 201, item: expect.objectContaining({ id: 1 }) },
+        { index: 1, status: 201, item: expect.objectContaining({ id: 2 }) },
+      ]);
+      expect(await names()).toEqual(["One", "Two"]);
+    });
+
+    it("should report per-index errors and create nothing when atomic", async () => {
+      const response = await request(app)
+        .post("/items/bulk")
+        .send([
+          { name: "One", description: "First" },
+          { name: "", description: "Second" },
+        ])
+        .expect(400);
+
+      expect(response.body).toEqual({
+        error: "Bulk operation failed",
+        results: [
+          {
+            index: 0,
+            status: 424,
+            error: "Not applied because another item failed",
+          },
+          {
+            index: 1,
+            status: 400,
+            error: "Validation failed",
+            details: [
+              {
+                field: "name",
+                code: "required",
+                message: "Name is required and must be a non-empty string",
+              },
+            ],
+          },
+        ],
+      });
+      expect(await names()).toEqual([]);
+    });
+
+    it("should apply valid items in partial mode", async () => {
+      const response = await request(app)
+        .post("/items/bulk?mode=partial")
+        .send([
+          { name: "One", description: "First" },
+          { name: "Two" },
+          { name: "Three", description: "Third" },
+        ])
+        .expect(207);
+
+      expect(response.body.results.map((result: any) => result.status)).toEqual(
+        [201, 400, 201]
+      );
+      expect(await names()).toEqual(["One", "Three"]);
+    });
+
+    it("should roll back atomic updates when an item is missing", async () => {
+      await request(app)
+        .post("/items/bulk")
+        .send([
+          { name: "One", description: "First" },
+          { name: "Two", description: "Second" },
+        ])
+        .expect(201);
+
+      const response = await request(app)
+        .put("/items/bulk")
+        .send([
+          { id: 1, name: "Changed", description: "First" },
+          { id: 99, name: "Missing", description: "Nowhere" },
+        ])
+        .expect(404);
+
+      expect(response.body.results[0].status).toBe(424);
+      expect(response.body.results[1]).toEqual({
+        index: 1,
+        status: 404,
+        error: "Item not found",
+      });
+      expect(await names()).toEqual(["One", "Two"]);
+    });
+
+    it("should report version conflicts in partial updates", async () => {
+      await request(app)
+        .post("/items/bulk")
+        .send([
+          { name: "One", description: "First" },
+          { name: "Two", description: "Second" },
+        ])
+        .expect(201);
+
+      const response = await request(app)
+        .put("/items/bulk?mode=partial")
+        .send([
+          { id: 1, name: "Changed", description: "First", version: 1 },
+          { id: 2, name: "Stale", description: "Second", version: 7 },
+        ])
+        .expect(207);
+
+      expect(response.body.results[0]).toMatchObject({
+        status: 200,
+        item: { id: 1, name: "Changed", version: 2 },
+      });
+      expect(response.body.results[1]).toEqual({
+        index: 1,
+        status: 412,
+        error: "Precondition failed",
+      });
+    });
+
+    it("should delete items in bulk", async () => {
+      await request(app)
+        .post("/items/bulk")
+        .send([
+          { name: "One", description: "First" },
+          { name: "Two", description: "Second" },
+          { name: "Three", description: "Third" },
+        ])
+        .expect(201);
+
+      const response = await request(app)
+        .delete("/items/bulk")
+        .send([{ id: 1 }, { id: 3 }])
+        .expect(200);
+
+      expect(response.body.results.map((r: any) => r.item.name)).toEqual([
+        "One",
+        "Three",
+      ]);
+      expect(await names()).toEqual(["Two"]);
+    });
+
+    it("should require a non-empty array body", async () => {
+      const response = await request(app)
+        .post("/items/bulk")
+        .send({ name: "One", description: "First" })
+        .expect(400);
+
+      expect(response.body.details[0].message).toBe(
+        "Request body must be a JSON array of items"
+      );
+
+      await request(app).post("/items/bulk").send([]).expect(400);
+    });
+
+    it("should reject an unknown mode", async () => {
+      const response = await request(app)
+        .post("/items/bulk?mode=sometimes")
+        .send([{ name: "One", description: "First" }])
+        .expect(400);
+
+      expect(response.body.error).toBe("Invalid query parameters");
+    });
+  });
+
+  // GET /items/search tests
+  describe("POST /items/import", () => {
+    const importCsv = (csv: string, query = "") =>
+      request(server)
+        .post(`/items/import${query}`)
+        .set("Content-Type", "text/csv")
+        .send(csv);
+
+    it("should create items from CSV and report failed rows", async () => {
+      const response = await importCsv(
+        "name,description\nWidget,A widget\n,No name\nGadget,A gadget\n"
+      ).expect(200);
+
+      expect(response.body).toEqual({
+        dryRun: false,
+        complete: true,
+        rows: 3,
+        created: 2,
+        updated: 0,
+        skipped: 0,
+        failed: 1,
+        errors: [
+          {
+            row: 3,
+            details: [expect.objectContaining({ field: "name" })],
+          },
+        ],
+      });
+
+      const list = await request(server).get("/items").expect(200);
+      expect(list.body.map((item: { name: string }) => item.name)).toEqual([
+        "Widget",
+        "Gadget",
+      ]);
+    });
+
+    it("should import NDJSON", async () => {
+      const response = await request(server)
+        .post("/items/import")
+        .set("Content-Type", "application/x-ndjson")
+        .send('{"name":"a","description":"b"}\n{"name":"c"}\n')
+        .expect(200);
+
+      expect(response.body).toMatchObject({ rows: 2, created: 1, failed: 1 });
+    });
+
+    it("should not write anything in a dry run", async () => {
+      const response = await importCsv(
+        "name,description\nWidget,A widget\n",
+        "?dryRun=true"
+      ).expect(200);
+
+      expect(response.body).toMatchObject({ dryRun: true, created: 1 });
+      await request(server).get("/items/1").expect(404);
+    });
+
+    it("should handle duplicate names as configured", async () => {
+      await request(server)
+        .post("/items")
+        .send({ name: "Widget", description: "Old" });
+      const csv = "name,description\nWidget,New\n";
+
+      const failed = await importCsv(csv).expect(200);
+      expect(failed.body.errors).toEqual([
+        {
+          row: 2,
+          details: [expect.objectContaining({ code: "duplicate" })],
+        },
+      ]);
+
+      const skipped = await importCsv(csv, "?onDuplicate=skip").expect(200);
+      expect(skipped.body).toMatchObject({ skipped: 1, updated: 0 });
+
+      const updated = await importCsv(csv, "?onDuplicate=update").expect(200);
+      expect(updated.body).toMatchObject({ updated: 1 });
+
+      const item = await request(server).get("/items/1").expect(200);
+      expect(item.body).toMatchObject({ description: "New", version: 2 });
+    });
+
+    it("should report what was imported when the upload fails", async () => {
+      const importStore = createStore();
+      const importServer = createMyServer({
+        store: importStore,
+        logLevel: "silent",
+        maxBodySize: 100,
+      }).listen(0);
+      const { port } = importServer.address() as AddressInfo;
+      const total = () =>
+        importStore.list({ limit: 1, offset: 0, sort: [] }).total;
+
+      const req = http.request({
+        port,
+        method: "POST",
+        path: "/items/import",
+        headers: { "Content-Type": "text/csv" },
+      });
+      const response = new Promise<{ status?: number; body: any }>(
+        (resolve, reject) => {
+          req.on("response", (res) => {
+            let text = "";
+            res.setEncoding("utf8");
+            res.on("data", (chunk: string) => (text += chunk));
+            res.on("end", () =>
+              resolve({ status: res.statusCode, body: JSON.parse(text) })
+            );
+          });
+          req.on("error", reject);
+        }
+      );
+
+      req.write(
+        "name,description\n" +
+          Array.from({ length: 501 }, (_, i) => `Item ${i},Text\n`).join("")
+      );
+      // The first batch is written while the upload goes on
+      await vi.waitFor(() => expect(total()).toBe(500));
+      req.end(`Huge,${"x".repeat(200)}\n`);
+
+      const { status, body } = await response;
+      expect(status).toBe(413);
+      expect(body).toEqual({
+        error: "Rows must not exceed 100 characters",
+        report: {
+          dryRun: false,
+          complete: false,
+          rows: 501,
+          created: 500,
+          updated: 0,
+          skipped: 0,
+          failed: 0,
+          errors: [],
+        },
+      });
+      expect(total()).toBe(500);
+
+      await new Promise((resolve) => importServer.close(resolve));
+      importStore.close();
+    });
+
+    it("should reject bad parameters, types and headers", async () => {
+      const params = await importCsv(
+        "name,description\n",
+        "?dryRun=yes&onDuplicate=merge"
+      ).expect(400);
+      expect(
+        params.body.details.map((detail: { field: string }) => detail.field)
+      ).toEqual(["dryRun", "onDuplicate"]);
+
+      await request(server)
+        .post("/items/import")
+        .send([{ name: "a", description: "b" }])
+        .expect(415);
+
+      const header = await importCsv("title,text\na,b\n").expect(400);
+      expect(header.body.error).toBe(
+        "The CSV header must have name and description columns"
+      );
+    });
+  });
+
+  describe("GET /items/search", () => {
+    const seed = async () => {
+      for (const item of [
+        { name: "Red apple", description: "A crisp fruit from the orchard" },
+        { name: "Banana", description: "Yellow fruit, pairs well with apple" },
+        { name: "Application form", description: "Paperwork for new staff" },
+        { name: "Crème brûlée", description: "Dessert with a burnt top" },
+      ]) {
+        await request(app).post("/items").send(item).expect(201);
+      }
+    };
+
+    const search = async (q: string) =>
+      (
+        await request(app).get("/items/search").query({ q }).expect(200)
+      ).body.map((hit: any) => hit.item.name);
+
+    it("should rank name matches above description matches", async () => {
+      await seed();
+
+      const response = await request(app)
+        .get("/items/search?q=apple")
+        .expect(200);
+
+      expect(response.headers["x-total-count"]).toBe("2");
+      expect(response.body.map((hit: any) => hit.item.name)).toEqual([
+        "Red apple",
+        "Banana",
+      ]);
+      expect(response.body[0].score).toBeGreaterThan(response.body[1].score);
+    });
+
+    it("should highlight matches", async () => {
+      await seed();
+
+      const response = await request(app)
+        .get("/items/search?q=apple")
+        .expect(200);
+
+      expect(response.body[0]).toEqual({
+        item: {
+          id: 1,
+          name: "Red apple",
+          description: "A crisp fruit from the orchard",
+          version: 1,
+        },
+        score: expect.any(Number),
+        highlights: {
+          name: "Red <mark>apple</mark>",
+          description: "A crisp fruit from the orchard",
+        },
+      });
+      expect(response.body[1].highlights.description).toBe(
+        "Yellow fruit, pairs well with <mark>apple</mark>"
+      );
+    });
+
+    it("should support prefix and phrase queries", async () => {
+      await seed();
+
+      expect((await search("app*")).sort()).toEqual([
+        "Application form",
+        "Banana",
+        "Red apple",
+      ]);
+      expect(await search('"crisp fruit"')).toEqual(["Red apple"]);
+      expect(await search('"fruit from"')).toEqual(["Red apple"]);
+      expect(await search('"fruit crisp"')).toEqual([]);
+    });
+
+    it("should require every term and ignore case and accents", async () => {
+      await seed();
+
+      expect(await search("fruit yellow")).toEqual(["Banana"]);
+      expect(await search("CREME brulee")).toEqual(["Crème brûlée"]);
+    });
+
+    it("should shorten long descriptions around the match", async () => {
+      const words = Array.from({ length: 40 }, (_, i) => `word${i}`);
+      words[20] = "needle";
+      await request(app)
+        .post("/items")
+        .send({ name: "Haystack", description: words.join(" ") })
+        .expect(201);
+
+      const response = await request(app)
+        .get("/items/search?q=needle")
+        .expect(200);
+      const snippet: string = response.body[0].highlights.description;
+
+      expect(snippet).toContain("<mark>needle</mark>");
+      expect(snippet.startsWith("…")).toBe(true);
+      expect(snippet.endsWith("…")).toBe(true);
+      expect(snippet).not.toContain("word0 ");
+    });
+
+    it("should escape item text in highlights", async () => {
+      await request(app)
+        .post("/items")
+        .send({
+          name: 'Tom & "Jerry"',
+          description: "Cat <script>alert('cat')</script> & mouse",
+        })
+        .expect(201);
+
+      const response = await request(app)
+        .get("/items/search?q=cat")
+        .expect(200);
+
+      expect(response.body[0].highlights).toEqual({
+        name: "Tom &amp; &quot;Jerry&quot;",
+        description:
+          "<mark>Cat</mark> &lt;script&gt;alert('<mark>cat</mark>')&lt;/script&gt; &amp; mouse",
+      });
+      expect(response.body[0].item.description).toBe(
+        "Cat <script>alert('cat')</script> & mouse"
+      );
+    });
+
+    it("should reflect updates and deletes", async () => {
+      await seed();
+
+      await request(app)
+        .put("/items/1")
+        .send({ name: "Green pear", description: "A soft fruit" })
+        .expect(200);
+      await request(app).delete("/items/2").expect(200);
+
+      expect(await search("apple")).toEqual([]);
+      expect(await search("pear")).toEqual(["Green pear"]);
+    });
+
+    it("should paginate results", async () => {
+      await seed();
+
+      const response = await request(app)
+        .get("/items/search?q=app*&limit=1&offset=1")
+        .expect(200);
+
+      expect(response.headers["x-total-count"]).toBe("3");
+      expect(response.body.map((hit: any) => hit.item.name)).toEqual(
+        (await search("app*")).slice(1, 2)
+      );
+    });
+
+    it("should treat search syntax in the query as plain words", async () => {
+      await seed();
+
+      expect(await search("apple OR NOT (banana) -")).toEqual([]);
+      expect(await search('"red apple')).toEqual(["Red apple"]);
+    });
+
+    it("should reject a query without words", async () => {
+      const response = await request(app)
+        .get("/items/search?q=%22%22%20*")
+        .expect(400);
+
+      expect(response.body).toEqual({
+        error: "Invalid query parameters",
+        details: [
+          {
+            field: "q",
+            code: "required",
+            message: "q must contain at least one word",
+          },
+        ],
+      });
+
+      await request(app).get("/items/search").expect(400);
+    });
+  });
+
+  // GET /items/:id tests
+  describe("GET /items/:id", () => {
+    beforeEach(async () => {
+      await request(app)
+        .post("/items")
+        .send({ name: "Test Item", description: "Test Description" });
+    });
+
+    it("should return specific item by ID", async () => {
+      const response = await request(app).get("/items/1").expect(200);
+
+      expect(response.body).toMatchObject({
+        id: 1,
+        name: "Test Item",
+        description: "Test Description",
+      });
+    });
+
+    it("should return 404 for non-existent item", async () => {
+      const response = await request(app).get("/items/999").expect(404);
+
+      expect(response.body).toEqual({
+        error: "Item not found",
+      });
+    });
+
+    it("should return 400 for invalid ID", async () => {
+      const response = await request(app).get("/items/abc").expect(400);
+
+      expect(response.body).toEqual({
+        error: "Invalid item ID",
+      });
+    });
+
+    it("should return 400 for empty ID", async () => {
+      const response = await request(app).get("/items/").expect(400);
+    });
+
+    it("should return 400 for ID with trailing characters", async () => {
+      const response = await request(app).get("/items/1abc").expect(400);
+
+      expect(response.body).toEqual({
+        error: "Invalid item ID",
+      });
+    });
+  });
+
+  // POST /items tests
+  describe("POST /items", () => {
+    it("should create new item with valid data", async () => {
+      const itemData = {
+        name: "New Item",
+        description: "New Description",
+      };
+
+      const response = await request(app)
+        .post("/items")
+        .send(itemData)
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        id: 1,
+        name: "New Item",
+        description: "New Description",
+      });
+    });
+
+    it("should auto-increment IDs", async () => {
+      await request(app)
+        .post("/items")
+        .send({ name: "Item 1", description: "Description 1" });
+
+      const response = await request(app)
+        .post("/items")
+        .send({ name: "Item 2", description: "Description 2" });
+
+      expect(response.body.id).toBe(2);
+    });
+
+    it("should trim whitespace from input", async () => {
+      const response = await request(app)
+        .post("/items")
+        .send({
+          name: "  Trimmed Name  ",
+          description: "  Trimmed Description  ",
+        })
+        .expect(201);
+
+      expect(response.body.name).toBe("Trimmed Name");
+      expect(response.body.description).toBe("Trimmed Description");
+    });
+
+    it("should return 400 for missing name", async () => {
+      const response = await request(app)
+        .post("/items")
+        .send({ description: "Description only" })
+        .expect(400);
+
+      expect(response.body.error).toBe("Validation failed");
+      expect(response.body.details).toContainEqual({
+        field: "name",
+        code: "required",
+        message: "Name is required and must be a non-empty string",
+      });
+    });
+
+    it("should return 400 for missing description", async () => {
+      const response = await request(app)
+        .post("/items")
+        .send({ name: "Name only" })
+        .expect(400);
+
+      expect(response.body.error).toBe("Validation failed");
+      expect(response.body.details).toContainEqual({
+        field: "description",
+        code: "required",
+        message: "Description is required and must be a non-empty string",
+      });
+    });
+
+    it("should return 400 for empty name", async () => {
+      const response = await request(app)
+        .post("/items")
+        .send({ name: "", description: "Valid description" })
+        .expect(400);
+
+      expect(response.body.details).toContainEqual({
+        field: "name",
+        code: "required",
+        message: "Name is required and must be a non-empty string",
+      });
+    });
+
+    it("should return 400 for empty description", async () => {
+      const response = await request(app)
+        .post("/items")
+        .send({ name: "Valid name", description: "" })
+        .expect(400);
+
+      expect(response.body.details).toContainEqual({
+        field: "description",
+        code: "required",
+        message: "Description is required and must be a non-empty string",
+      });
+    });
+
+    it("should return 400 for whitespace-only name", async () => {
+      const response = await request(app)
+        .post("/items")
+        .send({ name: "   ", description: "Valid description" })
+        .expect(400);
+
+      expect(response.body.details).toContainEqual({
+        field: "name",
+        code: "required",
+        message: "Name is required and must be a non-empty string",
+      });
+    });
+
+    it("should return 400 for non-string name", async () => {
+      const response = await request(app)
+        .post("/items")
+        .send({ name: 123, description: "Valid description" })
+        .expect(400);
+
+      expect(response.body.details).toContainEqual({
+        field: "name",
+        code: "invalid_type",
+        message: "Name is required and must be a non-empty string",
+      });
+    });
+
+    it("should return 400 for name too long", async () => {
+      const longName = "a".repeat(101);
+      const response = await request(app)
+        .post("/items")
+        .send({ name: longName, description: "Valid description" })
+        .expect(400);
+
+      expect(response.body.details).toContainEqual({
+        field: "name",
+        code: "too_long",
+        message: "Name must be 100 characters or less",
+      });
+    });
+
+    it("should return 400 for description too long", async () => {
+      const longDescription = "a".repeat(501);
+      const response = await request(app)
+        .post("/items")
+        .send({ name: "Valid name", description: longDescription })
+        .expect(400);
+
+      expect(response.body.details).toContainEqual({
+        field: "description",
+        code: "too_long",
+        message: "Description must be 500 characters or less",
+      });
+    });
+
+    it("should return 400 for invalid JSON", async () => {
+      const response = await request(app)
+        .post("/items")
+        .set("Content-Type", "application/json")
+        .send("invalid json")
+        .expect(400);
+
+      expect(response.body.error).toBe("Invalid JSON");
+    });
+
+    it("should return 415 for non-JSON content types", async () => {
+      const response = await request(app)
+        .post("/items")
+        .type("form")
+        .send({ name: "Form", description: "Data" })
+        .expect(415);
+
+      expect(response.body.error).toBe("Unsupported media type");
+    });
+
+    it("should accept a JSON content type with a UTF-8 charset", async () => {
+      await request(app)
+        .post("/items")
+        .set("Content-Type", "application/json; charset=utf-8")
+        .send(JSON.stringify({ name: "Café", description: "Crème brûlée" }))
+        .expect(201);
+    });
+
+    it("should return 400 for no request body", async () => {
+      const response = await request(app).post("/items").send().expect(400);
+
+      console.log(response.body);
+      expect(response.body.details).toEqual([
+        { field: "", code: "required", message: "Request body is required" },
+      ]);
+    });
+
+    it("should return 400 for unknown properties", async () => {
+      const response = await request(app)
+        .post("/items")
+        .send({ name: "Valid name", description: "Valid", price: 5 })
+        .expect(400);
+
+      expect(response.body.details).toEqual([
+        {
+          field: "price",
+          code: "unknown_field",
+          message: 'Unknown field "price"',
+        },
+      ]);
+    });
+
+    it("should return 400 for a non-object body", async () => {
+      const response = await request(app)
+        .post("/items")
+        .send(["Valid name", "Valid description"])
+        .expect(400);
+
+      expect(response.body.details).toEqual([
+        {
+          field: "",
+          code: "invalid_type",
+          message: "Request body must be a JSON object",
+        },
+      ]);
+    });
+
+    it("should accept maximum length strings", async () => {
+      const maxName = "a".repeat(100);
+      const maxDescription = "b".repeat(500);
+
+      const response = await request(app)
+        .post("/items")
+        .send({ name: maxName, description: maxDescription })
+        .expect(201);
+
+      expect(response.body.name).toBe(maxName);
+      expect(response.body.description).toBe(maxDescription);
+    });
+  });
+
+  // PUT /items/:id tests
+  describe("PUT /items/:id", () => {
+    beforeEach(async () => {
+      await request(app)
+        .post("/items")
+        .send({ name: "Original Item", description: "Original Description" });
+    });
+
+    it("should update existing item", async () => {
+      const updateData = {
+        name: "Updated Item",
+        description: "Updated Description",
+      };
+
+      const response = await request(app)
+        .put("/items/1")
+        .send(updateData)
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        id: 1,
+        name: "Updated Item",
+        description: "Updated Description",
+      });
+    });
+
+    it("should preserve ID when updating", async () => {
+      const response = await request(app)
+        .put("/items/1")
+        .send({ name: "New Name", description: "New Description" })
+        .expect(200);
+
+      expect(response.body.id).toBe(1);
+    });
+
+    it("should return 404 for non-existent item", async () => {
+      const response = await request(app)
+        .put("/items/999")
+        .send({ name: "Updated", description: "Updated" })
+        .expect(404);
+
+      expect(response.body.error).toBe("Item not found");
+    });
+
+    it("should return 400 for invalid ID", async () => {
+      const response = await request(app)
+        .put("/items/abc")
+        .send({ name: "Updated", description: "Updated" })
+        .expect(400);
+
+      expect(response.body.error).toBe("Invalid item ID");
+    });
+
+    it("should validate input on update", async () => {
+      const response = await request(app)
+        .put("/items/1")
+        .send({ name: "", description: "Valid description" })
+        .expect(400);
+
+      expect(response.body.error).toBe("Validation failed");
+    });
+
+    it("should trim whitespace on update", async () => {
+      const response = await request(app)
+        .put("/items/1")
+        .send({
+          name: "  Updated Name  ",
+          description: "  Updated Description  ",
+        })
+        .expect(200);
+
+      expect(response.body.name).toBe("Updated Name");
+      expect(response.body.description).toBe("Updated Description");
+    });
+
+    it("should return 400 for invalid JSON on update", async () => {
+      const response = await request(app)
+        .put("/items/1")
+        .set("Content-Type", "application/json")
+        .send("invalid json")
+        .expect(400);
+
+      expect(response.body.error).toBe("Invalid JSON");
+    });
+  });
+
+  // PATCH /items/:id tests
+  describe("PATCH /items/:id", () => {
+    beforeEach(async () => {
+      await request(app)
+        .post("/items")
+        .send({ name: "Original Item", description: "Original Description" });
+    });
+
+    it("should apply a merge patch", async () => {
+      const response = await request(app)
+        .patch("/items/1")
+        .set("Content-Type", "application/merge-patch+json")
+        .send(JSON.stringify({ name: "  Patched Name  " }))
+        .expect(200);
+
+      expect(response.body).toEqual({
+        id: 1,
+        name: "Patched Name",
+        description: "Original Description",
+        version: 2,
+      });
+    });
+
+    it("should apply a JSON patch", async () => {
+      const response = await request(app)
+        .patch("/items/1")
+        .set("Content-Type", "application/json-patch+json")
+        .send(
+          JSON.stringify([
+            { op: "test", path: "/name", value: "Original Item" },
+            { op: "copy", from: "/name", path: "/description" },
+          ])
+        )
+        .expect(200);
+
+      expect(response.body.description).toBe("Original Item");
+    });
+
+    it("should validate the patched item", async () => {
+      const response = await request(app)
+        .patch("/items/1")
+        .set("Content-Type", "application/merge-patch+json")
+        .send(JSON.stringify({ description: null }))
+        .expect(400);
+
+      expect(response.body.details).toContainEqual({
+        field: "description",
+        code: "required",
+        message: "Description is required and must be a non-empty string",
+      });
+    });
+
+    it("should return 409 when a JSON patch test fails", async () => {
+      const response = await request(app)
+        .patch("/items/1")
+        .set("Content-Type", "application/json-patch+json")
+        .send(
+          JSON.stringify([
+            { op: "test", path: "/name", value: "Something else" },
+            { op: "replace", path: "/name", value: "Changed" },
+          ])
+        )
+        .expect(409);
+
+      expect(response.body.error).toBe("Invalid patch");
+
+      const item = await request(app).get("/items/1").expect(200);
+      expect(item.body.name).toBe("Original Item");
+    });
+
+    it("should return 400 for a malformed JSON patch", async () => {
+      const response = await request(app)
+        .patch("/items/1")
+        .set("Content-Type", "application/json-patch+json")
+        .send(JSON.stringify({ op: "replace" }))
+        .expect(400);
+
+      expect(response.body.error).toBe("Invalid patch");
+    });
+
+    it("should return 415 for other content types", async () => {
+      const response = await request(app)
+        .patch("/items/1")
+        .send({ name: "Patched" })
+        .expect(415);
+
+      expect(response.headers["accept-patch"]).toBe(
+        "application/merge-patch+json, application/json-patch+json"
+      );
+    });
+
+    it("should return 404 for non-existent item", async () => {
+      const response = await request(app)
+        .patch("/items/999")
+        .set("Content-Type", "application/merge-patch+json")
+        .send(JSON.stringify({ name: "Patched" }))
+        .expect(404);
+
+      expect(response.body.error).toBe("Item not found");
+    });
+  });
+
+  // ETag and conditional request tests
+  describe("Conditional requests", () => {
+    beforeEach(async () => {
+      await request(app)
+        .post("/items")
+        .send({ name: "Versioned Item", description: "Version 1" });
+    });
+
+    it("should return an ETag that changes on update", async () => {
+      const first = await request(app).get("/items/1").expect(200);
+
+      expect(first.body.version).toBe(1);
+      expect(first.headers["etag"]).toBe('"1"');
+
+      const updated = await request(app)
+        .put("/items/1")
+        .send({ name: "Versioned Item", description: "Version 2" })
+        .expect(200);
+
+      expect(updated.body.version).toBe(2);
+      expect(updated.headers["etag"]).toBe('"2"');
+    });
+
+    it("should return 304 when If-None-Match matches", async () => {
+      const response = await request(app)
+        .get("/items/1")
+        .set("If-None-Match", 'W/"1"')
+        .expect(304);
+
+      expect(response.headers["etag"]).toBe('"1"');
+      expect(response.text).toBe("");
+    });
+
+    it("should return 200 when If-None-Match does not match", async () => {
+      await request(app)
+        .get("/items/1")
+        .set("If-None-Match", '"0"')
+        .expect(200);
+    });
+
+    it("should update when If-Match matches", async () => {
+      await request(app)
+        .put("/items/1")
+        .set("If-Match", '"1"')
+        .send({ name: "Updated", description: "Version 2" })
+        .expect(200);
+    });
+
+    it("should return 412 for a stale If-Match on PUT", async () => {
+      await request(app)
+        .put("/items/1")
+        .send({ name: "Other client", description: "Version 2" })
+        .expect(200);
+
+      const response = await request(app)
+        .put("/items/1")
+        .set("If-Match", '"1"')
+        .send({ name: "Lost update", description: "Version 2" })
+        .expect(412);
+
+      expect(response.body.error).toBe("Precondition failed");
+
+      const item = await request(app).get("/items/1").expect(200);
+      expect(item.body.name).toBe("Other client");
+    });
+
+    it("should reject weak tags in If-Match", async () => {
+      await request(app)
+        .put("/items/1")
+        .set("If-Match", 'W/"1"')
+        .send({ name: "Updated", description: "Version 2" })
+        .expect(412);
+    });
+
+    it("should return 412 for a stale If-Match on PATCH", async () => {
+      await request(app)
+        .patch("/items/1")
+        .set("If-Match", '"5"')
+        .set("Content-Type", "application/merge-patch+json")
+        .send(JSON.stringify({ name: "Patched" }))
+        .expect(412);
+    });
+
+    it("should honour If-Match on DELETE", async () => {
+      await request(app).delete("/items/1").set("If-Match", '"2"').expect(412);
+      await request(app).delete("/items/1").set("If-Match", "*").expect(200);
+      await request(app).get("/items/1").expect(404);
+    });
+  });
+
+  // DELETE /items/:id tests
+  describe("DELETE /items/:id", () => {
+    beforeEach(async () => {
+      await request(app)
+        .post("/items")
+        .send({ name: "Item to Delete", description: "Will be deleted" });
+    });
+
+    it("should delete existing item", async () => {
+      const response = await request(app).delete("/items/1").expect(200);
+
+      expect(response.body.message).toBe("Item deleted");
+      expect(response.body.item).toMatchObject({
+        id: 1,
+        name: "Item to Delete",
+        description: "Will be deleted",
+      });
+    });
+
+    it("should actually remove item from storage", async () => {
+      await request(app).delete("/items/1").expect(200);
+
+      // Verify item is gone
+      await request(app).get("/items/1").expect(404);
+    });
+
+    it("should return 404 for non-existent item", async () => {
+      const response = await request(app).delete("/items/999").expect(404);
+
+      expect(response.body.error).toBe("Item not found");
+    });
+
+    it("should return 400 for invalid ID", async () => {
+      const response = await request(app).delete("/items/abc").expect(400);
+
+      expect(response.body.error).toBe("Invalid item ID");
+    });
+
+    it("should handle deleting from middle of array", async () => {
+      // Create multiple items
+      await request(app)
+        .post("/items")
+        .send({ name: "Item 2", description: "Second item" });
+
+      await request(app)
+        .post("/items")
+        .send({ name: "Item 3", description: "Third item" });
+
+      // Delete middle item
+      await request(app).delete("/items/2").expect(200);
+
+      // Verify other items still exist
+      await request(app).get("/items/1").expect(200);
+
+      await request(app).get("/items/3").expect(200);
+
+      // Verify deleted item is gone
+      await request(app).get("/items/2").expect(404);
+    });
+  });
+
+  // Trash tests
+  describe("Trash", () => {
+    beforeEach(async () => {
+      await request(app)
+        .post("/items")
+        .send({ name: "Keep", description: "Stays active" })
+        .expect(201);
+      await request(app)
+        .post("/items")
+        .send({ name: "Trashed", description: "Moved to the trash" })
+        .expect(201);
+    });
+
+    it("should move deleted items to the trash", async () => {
+      const deleted = await request(app).delete("/items/2").expect(200);
+
+      expect(deleted.body).toEqual({
+        message: "Item deleted",
+        item: {
+          id: 2,
+          name: "Trashed",
+          description: "Moved to the trash",
+          version: 2,
+          deletedAt: expect.any(String),
+        },
+      });
+
+      const active = await request(app).get("/items").expect(200);
+      expect(active.body.map((item: any) => item.id)).toEqual([1]);
+
+      const trash = await request(app).get("/items/trash").expect(200);
+      expect(trash.headers["x-total-count"]).toBe("1");
+      expect(trash.body).toEqual([deleted.body.item]);
+    });
+
+    it("should hide trashed items from reads, writes and search", async () => {
+      await request(app).delete("/items/2").expect(200);
+
+      await request(app).get("/items/2").expect(404);
+      await request(app)
+        .put("/items/2")
+        .send({ name: "Changed", description: "Too late" })
+        .expect(404);
+      await request(app).delete("/items/2").expect(404);
+
+      const search = await request(app)
+        .get("/items/search?q=trashed")
+        .expect(200);
+      expect(search.body).toEqual([]);
+    });
+
+    it("should restore trashed items", async () => {
+      await request(app).delete("/items/2").expect(200);
+
+      const response = await request(app)
+        .post("/items/2/restore")
+        .set("If-Match", '"2"')
+        .expect(200);
+
+      expect(response.body).toEqual({
+        id: 2,
+        name: "Trashed",
+        description: "Moved to the trash",
+        version: 3,
+      });
+      expect(response.headers.etag).toBe('"3"');
+      await request(app).get("/items/2").expect(200);
+
+      const trash = await request(app).get("/items/trash").expect(200);
+      expect(trash.body).toEqual([]);
+    });
+
+    it("should only restore items that are in the trash", async () => {
+      const response = await request(app).post("/items/1/restore").expect(404);
+
+      expect(response.body).toEqual({ error: "Item not found in trash" });
+    });
+
+    it("should check If-Match when restoring", async () => {
+      await request(app).delete("/items/2").expect(200);
+
+      await request(app)
+        .post("/items/2/restore")
+        .set("If-Match", '"1"')
+        .expect(412);
+    });
+
+    it("should purge trashed items permanently", async () => {
+      await request(app).delete("/items/2").expect(200);
+
+      const response = await request(app).delete("/items/trash/2").expect(200);
+
+      expect(response.body).toMatchObject({
+        message: "Item purged",
+        item: { id: 2, name: "Trashed" },
+      });
+      await request(app).post("/items/2/restore").expect(404);
+      await request(app).delete("/items/trash/1").expect(404);
+    });
+  });
+
+  // History and revert tests
+  describe("History", () => {
+    beforeEach(async () => {
+      await request(app)
+        .post("/items")
+        .send({ name: "First", description: "Original" })
+        .expect(201);
+      await request(app)
+        .put("/items/1")
+        .send({ name: "Second", description: "Changed" })
+        .expect(200);
+    });
+
+    it("should list every change with before and after snapshots", async () => {
+      await request(app).delete("/items/1").expect(200);
+      await request(app).post("/items/1/restore").expect(200);
+
+      const response = await request(app).get("/items/1/history").expect(200);
+
+      expect(response.body.map((event: any) => event.type)).toEqual([
+        "created",
+        "updated",
+        "deleted",
+        "restored",
+      ]);
+      expect(response.body[0]).toEqual({
+        id: expect.any(Number),
+        itemId: 1,
+        type: "created",
+        at: expect.any(String),
+        after: { id: 1, name: "First", description: "Original", version: 1 },
+      });
+      expect(response.body[1]).toMatchObject({
+        before: { name: "First", version: 1 },
+        after: { name: "Second", version: 2 },
+      });
+      expect(response.body[2].after.deletedAt).toEqual(expect.any(String));
+      expect(response.body[3].after).toEqual({
+        id: 1,
+        name: "Second",
+        description: "Changed",
+        version: 4,
+      });
+    });
+
+    it("should keep the history of purged items", async () => {
+      await request(app).delete("/items/1").expect(200);
+      await request(app).delete("/items/trash/1").expect(200);
+
+      const response = await request(app).get("/items/1/history").expect(200);
+      const purged = response.body[response.body.length - 1];
+
+      expect(purged.type).toBe("purged");
+      expect(purged.before).toMatchObject({ id: 1, version: 3 });
+      expect(purged).not.toHaveProperty("after");
+    });
+
+    it("should not record failed writes", async () => {
+      await request(app)
+        .put("/items/1")
+        .set("If-Match", '"1"')
+        .send({ name: "Stale", description: "Lost update" })
+        .expect(412);
+      await request(app)
+        .post("/items/bulk?mode=atomic")
+        .send([
+          { name: "Valid", description: "Rolled back" },
+          { name: "", description: "Invalid" },
+        ])
+        .expect(400);
+
+      const response = await request(app).get("/items/1/history").expect(200);
+      expect(response.body).toHaveLength(2);
+      await request(app).get("/items/2/history").expect(404);
+    });
+
+    it("should return 404 for items without history", async () => {
+      const response = await request(app).get("/items/999/history").expect(404);
+
+      expect(response.body).toEqual({ error: "Item not found" });
+      await request(app).get("/items/abc/history").expect(400);
+    });
+
+    it("should revert an item to an earlier version", async () => {
+      const response = await request(app)
+        .post("/items/1/revert")
+        .send({ version: 1 })
+        .expect(200);
+
+      expect(response.body).toEqual({
+        id: 1,
+        name: "First",
+        description: "Original",
+        version: 3,
+      });
+      expect(response.headers.etag).toBe('"3"');
+
+      const history = await request(app).get("/items/1/history").expect(200);
+      expect(history.body[2]).toMatchObject({
+        type: "updated",
+        revertedTo: 1,
+        before: { name: "Second", version: 2 },
+        after: { name: "First", version: 3 },
+      });
+    });
+
+    it("should reject unknown revisions and invalid bodies", async () => {
+      const unknown = await request(app)
+        .post("/items/1/revert")
+        .send({ version: 5 })
+        .expect(404);
+      expect(unknown.body).toEqual({ error: "Revision not found" });
+
+      const invalid = await request(app)
+        .post("/items/1/revert")
+        .send({ version: "1" })
+        .expect(400);
+      expect(invalid.body.details[0]).toMatchObject({ field: "version" });
+
+      await request(app)
+        .post("/items/2/revert")
+        .send({ version: 1 })
+        .expect(404);
+    });
+
+    it("should honour If-Match when reverting", async () => {
+      await request(app)
+        .post("/items/1/revert")
+        .set("If-Match", '"1"')
+        .send({ version: 1 })
+        .expect(412);
+      await request(app)
+        .post("/items/1/revert")
+        .set("If-Match", '"2"')
+        .send({ version: 1 })
+        .expect(200);
+    });
+  });
+
+  // CORS and OPTIONS tests
+  describe("Content negotiation", () => {
+    beforeEach(async () => {
+      await request(server)
+        .post("/items")
+        .send({ name: "Plain", description: "First" });
+      await request(server)
+        .post("/items")
+        .send({ name: 'Say "hi", <b>', description: "Line 1\nLine 2 & more" });
+      await request(server)
+        .post("/items")
+        .send({ name: "Third", description: "Last" });
+    });
+
+    it("should answer JSON without an Accept header", async () => {
+      const response = await request(server).get("/items").expect(200);
+
+      expect(response.headers["content-type"]).toBe("application/json");
+      expect(response.headers["vary"]).toBe("Accept, Accept-Encoding");
+    });
+
+    it("should return escaped CSV", async () => {
+      const response = await request(server)
+        .get("/items?limit=2")
+        .set("Accept", "text/csv")
+        .expect(200);
+
+      expect(response.headers["content-type"]).toBe("text/csv; charset=utf-8");
+      expect(response.headers["x-total-count"]).toBe("3");
+      expect(response.text).toBe(
+        "id,name,description,version,ownerId,deletedAt\r\n" +
+          "1,Plain,First,1,,\r\n" +
+          '2,"Say ""hi"", <b>","Line 1\nLine 2 & more",1,,\r\n'
+      );
+    });
+
+    it("should return one JSON object per line for NDJSON", async () => {
+      const response = await request(server)
+        .get("/items?sort=-id")
+        .set("Accept", "application/x-ndjson")
+        .buffer(true)
+        .parse((res, callback) => {
+          let text = "";
+          res.on("data", (chunk) => (text += chunk));
+          res.on("end", () => callback(null, text));
+        })
+        .expect(200);
+
+      const lines = (response.body as string).trimEnd().split("\n");
+      expect(lines.map((line) => JSON.parse(line).id)).toEqual([3, 2, 1]);
+      expect(JSON.parse(lines[1]).description).toBe("Line 1\nLine 2 & more");
+    });
+
+    it("should return escaped XML", async () => {
+      const response = await request(server)
+        .get("/items?limit=2&offset=1")
+        .set("Accept", "application/xml")
+        .expect(200);
+
+      expect(response.headers["content-type"]).toBe(
+        "application/xml; charset=utf-8"
+      );
+      expect(response.text).toBe(
+        '<?xml version="1.0" encoding="UTF-8"?>\n<items>\n' +
+          "<item><id>2</id><name>Say &quot;hi&quot;, &lt;b&gt;</name>" +
+          "<description>Line 1\nLine 2 &amp; more</description>" +
+          "<version>1</version></item>\n" +
+          "<item><id>3</id><name>Third</name><description>Last</description>" +
+          "<version>1</version></item>\n" +
+          "</items>\n"
+      );
+    });
+
+    it("should link to the next page of a streamed listing", async () => {
+      const response = await request(server)
+        .get("/items?limit=2")
+        .set("Accept", "text/csv")
+        .expect(200);
+
+      expect(response.headers["link"]).toBe(
+        '</items?limit=2&after=2>; rel="next"'
+      );
+    });
+
+    it("should pick the type with the highest quality", async () => {
+      const response = await request(server)
+        .get("/items")
+        .set("Accept", "application/xml;q=0.5, text/*;q=0.8, */*;q=0.1")
+        .expect(200);
+
+      expect(response.headers["content-type"]).toBe("text/csv; charset=utf-8");
+    });
+
+    it("should return 406 for unsupported types", async () => {
+      const response = await request(server)
+        .get("/items")
+        .set("Accept", "text/html, application/json;q=0")
+        .expect(406);
+
+      expect(response.body.error).toMatch(/^Not acceptable/);
+    });
+  });
+
+  describe("GET /openapi.json", () => {
+    it("should serve the OpenAPI document", async () => {
+      const response = await request(server).get("/openapi.json").expect(200);
+
+      expect(response.body.openapi).toBe("3.1.0");
+      expect(response.body.paths["/items/{id}/revert"]).toHaveProperty("post");
+      expect(response.body.components.schemas.Item).toBeDefined();
+    });
+  });
+
+  describe("CORS and OPTIONS", () => {
+    it("should handle OPTIONS request", async () => {
+      const response = await request(app).options("/items").expect(200);
+
+      expect(response.headers["access-control-allow-origin"]).toBe("*");
+      expect(response.headers["access-control-allow-methods"]).toBe(
+        "GET, POST, PUT, PATCH, DELETE"
+      );
+      expect(response.headers["access-control-allow-headers"]).toBe(
+        "Authorization, Content-Type, If-Match, If-None-Match, " +
+          "If-Modified-Since, X-Request-Id"
+      );
+    });
+
+    it("should include CORS headers in all responses", async () => {
+      const response = await request(app).get("/items").expect(200);
+
+      expect(response.headers["access-control-allow-origin"]).toBe("*");
+      expect(response.headers["access-control-allow-methods"]).toBe(
+        "GET, POST, PUT, PATCH, DELETE"
+      );
+      expect(response.headers["access-control-allow-headers"]).toBe(
+        "Authorization, Content-Type, If-Match, If-None-Match, " +
+          "If-Modified-Since, X-Request-Id"
+      );
+    });
+  });
+
+  // 404 tests
+  describe("404 handling", () => {
+    it("should return 404 for unknown routes", async () => {
+      const response = await request(app).get("/unknown-route").expect(404);
+
+      expect(response.body.error).toBe("Not found");
+    });
+
+    it("should return 405 for unsupported methods", async () => {
+      const response = await request(app).post("/items/1").expect(405);
+
+      expect(response.body.error).toBe("Method not allowed");
+      expect(response.headers["allow"]).toBe("GET, PUT, PATCH, DELETE");
+    });
+
+    it("should return 404 for extra path segments", async () => {
+      const response = await request(app).get("/items/1/anything").expect(404);
+
+      expect(response.body.error).toBe("Not found");
+    });
+  });
+
+  // Integration tests
+  describe("Integration Tests", () => {
+    it("should perform complete CRUD operations", async () => {
+      // Create
+      const createResponse = await request(app)
+        .post("/items")
+        .send({ name: "Integration Test Item", description: "For testing" })
+        .expect(201);
+
+      const itemId = createResponse.body.id;
+
+      // Read
+      const readResponse = await request(app)
+        .get(`/items/${itemId}`)
+        .expect(200);
+
+      expect(readResponse.body.name).toBe("Integration Test Item");
+
+      // Update
+      const updateResponse = await request(app)
+        .put(`/items/${itemId}`)
+        .send({
+          name: "Updated Integration Item",
+          description: "Updated for testing",
+        })
+        .expect(200);
+
+      expect(updateResponse.body.name).toBe("Updated Integration Item");
+
+      // Verify update
+      const verifyResponse = await request(app)
+        .get(`/items/${itemId}`)
+        .expect(200);
+
+      expect(verifyResponse.body.name).toBe("Updated Integration Item");
+
+      // Delete
+      await request(app).delete(`/items/${itemId}`).expect(200);
+
+      // Verify deletion
+      await request(app).get(`/items/${itemId}`).expect(404);
+    });
+
+    it("should handle multiple items correctly", async () => {
+      const items = [
+        { name: "Item 1", description: "First item" },
+        { name: "Item 2", description: "Second item" },
+        { name: "Item 3", description: "Third item" },
+      ];
+
+      // Create multiple items
+      for (const item of items) {
+        await request(app).post("/items").send(item).expect(201);
+      }
+
+      // Get all items
+      const response = await request(app).get("/items").expect(200);
+
+      expect(response.body).toHaveLength(3);
+      expect(response.body.map((item: any) => item.name)).toEqual([
+        "Item 1",
+        "Item 2",
+        "Item 3",
+      ]);
+    });
+
+    it("should maintain data consistency", async () => {
+      // Create initial item
+      await request(app)
+        .post("/items")
+        .send({ name: "Consistency Test", description: "Testing consistency" })
+        .expect(201);
+
+      // Get count
+      let response = await request(app).get("/items").expect(200);
+
+      expect(response.body).toHaveLength(1);
+
+      // Update item
+      await request(app)
+        .put("/items/1")
+        .send({
+          name: "Updated Consistency Test",
+          description: "Still testing",
+        })
+        .expect(200);
+
+      // Verify count unchanged
+      response = await request(app).get("/items").expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].name).toBe("Updated Consistency Test");
+
+      // Delete item
+      await request(app).delete("/items/1").expect(200);
+
+      // Verify empty
+      response = await request(app).get("/items").expect(200);
+
+      expect(response.body).toHaveLength(0);
+    });
+  });
+});
+
+// Server options tests
+describe("Compression and caching", () => {
+  const createApp = async (options: MyServerOptions = {}) => {
+    const app = createMyServer({ logLevel: "silent", ...options });
+    for (let i = 1; i <= 20; i++) {
+      await request(app)
+        .post("/items")
+        .send({ name: `Item ${i}`, description: "x".repeat(100) });
+    }
+    return app;
+  };
+
+  // Responses are decoded by supertest, so only the headers show compression
+  it.each(["br", "gzip", "deflate"])(
+    "should compress large JSON bodies with %s",
+    async (encoding) => {
+      const app = await createApp();
+
+      const response = await request(app)
+        .get("/items")
+        .set("Accept-Encoding", `${encoding}, identity;q=0.5`)
+        .expect(200);
+
+      expect(response.headers["content-encoding"]).toBe(encoding);
+      expect(response.headers["vary"]).toBe("Accept, Accept-Encoding");
+      expect(response.body).toHaveLength(20);
+    }
+  );
+
+  it("should compress streamed listings", async () => {
+    const app = await createApp();
+
+    const response = await request(app)
+      .get("/items")
+      .set("Accept", "text/csv")
+      .set("Accept-Encoding", "gzip")
+      .expect(200);
+
+    expect(response.headers["content-encoding"]).toBe("gzip");
+    expect(response.text.split("\r\n")).toHaveLength(22);
+  });
+
+  it("should send small bodies and unwanted codings uncompressed", async () => {
+    const app = await createApp();
+
+    const small = await request(app)
+      .get("/items/1")
+      .set("Accept-Encoding", "gzip")
+      .expect(200);
+    expect(small.headers["content-encoding"]).toBeUndefined();
+    expect(small.headers["vary"]).toBe("Accept-Encoding");
+
+    const identity = await request(app)
+      .get("/items")
+      .set("Accept-Encoding", "gzip;q=0, identity")
+      .expect(200);
+    expect(identity.headers["content-encoding"]).toBeUndefined();
+
+    const disabled = await request(await createApp({ compression: false }))
+      .get("/items")
+      .set("Accept-Encoding", "gzip")
+      .expect(200);
+    expect(disabled.headers["content-encoding"]).toBeUndefined();
+    expect(disabled.headers["vary"]).toBe("Accept");
+  });
+
+  it("should tag each content coding of an item apart", async () => {
+    const app = await createApp({ compressionThreshold: 0 });
+
+    const gzip = await request(app)
+      .get("/items/1")
+      .set("Accept-Encoding", "gzip")
+      .expect(200);
+    expect(gzip.headers["content-encoding"]).toBe("gzip");
+    expect(gzip.headers["etag"]).toBe('"1-gzip"');
+
+    const identity = await request(app)
+      .get("/items/1")
+      .set("Accept-Encoding", "identity")
+      .expect(200);
+    expect(identity.headers["etag"]).toBe('"1"');
+
+    const notModified = await request(app)
+      .get("/items/1")
+      .set("Accept-Encoding", "br")
+      .set("If-None-Match", '"1-gzip"')
+      .expect(304);
+    expect(notModified.headers["etag"]).toBe('"1-br"');
+
+    // Any coding's tag names the version for writes
+    const updated = await request(app)
+      .put("/items/1")
+      .set("Accept-Encoding", "identity")
+      .set("If-Match", '"1-gzip"')
+      .send({ name: "Renamed", description: "Item" })
+      .expect(200);
+    expect(updated.headers["etag"]).toBe('"2"');
+    await request(app)
+      .put("/items/1")
+      .set("If-Match", '"1-gzip"')
+      .send({ name: "Again", description: "Item" })
+      .expect(412);
+  });
+
+  it("should set the configured Cache-Control on read routes", async () => {
+    const app = await createApp({ cacheControl: "private, max-age=30" });
+
+    for (const path of ["/items", "/items/1", "/items/search?q=item"]) {
+      const response = await request(app).get(path).expect(200);
+      expect(response.headers["cache-control"]).toBe("private, max-age=30");
+    }
+  });
+
+  it("should answer If-Modified-Since from the last item change", async () => {
+    let now = Date.parse("2024-05-01T10:00:00.500Z");
+    const app = createMyServer({
+      store: createMemoryItemStore({ now: () => now }),
+      logLevel: "silent",
+    });
+
+    const empty = await request(app).get("/items").expect(200);
+    expect(empty.headers["cache-control"]).toBe("no-cache");
+    expect(empty.headers["last-modified"]).toBeUndefined();
+
+    await request(app).post("/items").send({ name: "a", description: "b" });
+    const listed = await request(app).get("/items").expect(200);
+    const lastModified = listed.headers["last-modified"];
+    expect(lastModified).toBe("Wed, 01 May 2024 10:00:00 GMT");
+
+    const notModified = await request(app)
+      .get("/items")
+      .set("If-Modified-Since", lastModified)
+      .expect(304);
+    expect(notModified.headers["last-modified"]).toBe(lastModified);
+    expect(notModified.headers["vary"]).toBe("Accept, Accept-Encoding");
+
+    now += 2000;
+    await request(app).delete("/items/1").expect(200);
+
+    const modified = await request(app)
+      .get("/items/trash")
+      .set("If-Modified-Since", lastModified)
+      .expect(200);
+    expect(modified.headers["last-modified"]).toBe(
+      "Wed, 01 May 2024 10:00:02 GMT"
+    );
+  });
+
+  it("should not date a listing until its second is over", async () => {
+    let now = Date.parse("2024-05-01T10:00:00.100Z");
+    const app = createMyServer({
+      store: createMemoryItemStore({ now: () => now }),
+      logLevel: "silent",
+      now: () => now,
+    });
+    const since = "Wed, 01 May 2024 10:00:00 GMT";
+
+    await request(app).post("/items").send({ name: "a", description: "b" });
+    const early = await request(app).get("/items").expect(200);
+    expect(early.headers["last-modified"]).toBeUndefined();
+
+    now += 500;
+    await request(app).post("/items").send({ name: "c", description: "d" });
+    const changed = await request(app)
+      .get("/items")
+      .set("If-Modified-Since", since)
+      .expect(200);
+    expect(changed.body).toHaveLength(2);
+
+    now += 1000;
+    const settled = await request(app).get("/items").expect(200);
+    expect(settled.headers["last-modified"]).toBe(since);
+    await request(app)
+      .get("/items")
+      .set("If-Modified-Since", since)
+      .expect(304);
+  });
+});
+
+describe("Server options", () => {
+  it("should only allow listed CORS origins", async () => {
+    const app = createMyServer({
+      corsOrigins: ["https://allowed.example"],
+      logLevel: "silent",
+    });
+
+    const allowed = await request(app)
+      .get("/items")
+      .set("Origin", "https://allowed.example")
+      .expect(200);
+
+    expect(allowed.headers["access-control-allow-origin"]).toBe(
+      "https://allowed.example"
+    );
+    expect(allowed.headers["vary"]).toBe("Origin, Accept, Accept-Encoding");
+
+    const denied = await request(app)
+      .get("/items")
+      .set("Origin", "https://other.example")
+      .expect(200);
+
+    expect(denied.headers["access-control-allow-origin"]).toBeUndefined();
+  });
+
+  it("should reject bodies larger than maxBodySize", async () => {
+    const app = createMyServer({ maxBodySize: 64, logLevel: "silent" });
+
+    const response = await request(app)
+      .post("/items")
+      .send({ name: "Item", description: "a".repeat(100) })
+      .expect(413);
+
+    expect(response.body.error).toBe("Payload too large");
+  });
+
+  it("should create an SQLite store from dbPath", async () => {
+    const app = createMyServer({ dbPath: ":memory:", logLevel: "silent" });
+
+    await request(app)
+      .post("/items")
+      .send({ name: "Stored", description: "In SQLite" })
+      .expect(201);
+
+    expect(app.store.get(1)?.name).toBe("Stored");
+    app.store.close();
+  });
+
+  it("should listen on the configured port and host", async () => {
+    const app = createMyServer({ port: 0, host: "127.0.0.1" });
+    const address = await app.start();
+
+    expect(address.address).toBe("127.0.0.1");
+    expect(address.port).toBeGreaterThan(0);
+    app.close();
+  });
+});
+
+// Request logging tests
+describe("Request logging", () => {
+  let entries: LogEntry[];
+  let store: ItemStore;
+  let app: http.Server;
+
+  beforeEach(() => {
+    entries = [];
+    store = createMemoryItemStore();
+    app = createMyServer({
+      store,
+      logSink: (entry) => entries.push(entry),
+    });
+  });
+
+  it("should generate a request ID and echo it", async () => {
+    const response = await request(app).get("/items").expect(200);
+
+    expect(response.headers["x-request-id"]).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+    );
+  });
+
+  it("should honour an incoming X-Request-Id", async () => {
+    const response = await request(app)
+      .get("/items")
+      .set("X-Request-Id", "client-123")
+      .expect(200);
+
+    expect(response.headers["x-request-id"]).toBe("client-123");
+  });
+
+  it("should replace unsafe incoming request IDs", async () => {
+    const response = await request(app)
+      .get("/items")
+      .set("X-Request-Id", "bad id\twith spaces")
+      .expect(200);
+
+    expect(response.headers["x-request-id"]).not.toBe("bad id\twith spaces");
+  });
+
+  it("should write a structured access log entry", async () => {
+    await request(app)
+      .get("/items/1")
+      .set("X-Request-Id", "req-1")
+      .set("User-Agent", "test-agent")
+      .expect(404);
+
+    expect(entries).toEqual([
+      {
+        time: expect.any(String),
+        level: "info",
+        msg: "request completed",
+        requestId: "req-1",
+        method: "GET",
+        path: "/items/1",
+        status: 404,
+        bytes: JSON.stringify({ error: "Item not found" }).length,
+        durationMs: expect.any(Number),
+        userAgent: "test-agent",
+        aborted: false,
+      },
+    ]);
+  });
+
+  it("should log store errors with the request ID", async () => {
+    store.get = () => {
+      throw new Error("disk I/O error");
+    };
+
+    await request(app).get("/items/1").set("X-Request-Id", "req-2").expect(500);
+
+    expect(entries[0]).toMatchObject({
+      level: "error",
+      msg: "Database error",
+      requestId: "req-2",
+      error: { name: "Error", message: "disk I/O error" },
+    });
+    expect(entries[1]).toMatchObject({ requestId: "req-2", status: 500 });
+  });
 
-// Mock server setup
-let server: http.Server;
-let app: http.Server;
+  it("should respect the log level", async () => {
+    app = createMyServer({
+      store,
+      logLevel: "warn",
+      logSink: (entry) => entries.push(entry),
+    });
+
+    await request(app).get("/items").expect(200);
 
-beforeAll(() => {
-  // Create server instance for testing
-  app = createMyServer();
-  server = app.listen(0); // Use port 0 for random available port
+    expect(entries).toEqual([]);
+  });
 });
 
-afterAll(() => {
-  if (server) {
-    server.close();
-  }
+// Authentication tests
+describe("Authentication", () => {
+  const secret = "test-secret-that-is-long-enough!";
+  let apiKeys: ApiKeyStore;
+  let entries: LogEntry[];
+  let store: ItemStore;
+  let app: http.Server;
+
+  beforeEach(() => {
+    apiKeys = createMemoryApiKeyStore();
+    entries = [];
+    store = createMemoryItemStore();
+    app = createMyServer({
+      store,
+      apiKeys,
+      requireAuth: true,
+      jwtSecret: secret,
+      logLevel: "error",
+      logSink: (entry) => entries.push(entry),
+    });
+  });
+
+  const hourFromNow = () => Math.floor(Date.now() / 1000) + 3600;
+
+  it("should ask for credentials when none are sent", async () => {
+    const response = await request(app).get("/items").expect(401);
+
+    expect(response.body).toEqual({ error: "Authentication required" });
+    expect(response.headers["www-authenticate"]).toBe(
+      'Bearer realm="items", ApiKey realm="items"'
+    );
+  });
+
+  it("should accept an issued API key until it is revoked", async () => {
+    const { apiKey, key } = apiKeys.issue("importer");
+
+    await request(app)
+      .get("/items")
+      .set("Authorization", `ApiKey ${key}`)
+      .expect(200);
+
+    apiKeys.revoke(apiKey.id);
+
+    const response = await request(app)
+      .get("/items")
+      .set("Authorization", `ApiKey ${key}`)
+      .expect(401);
+
+    expect(response.body).toEqual({ error: "Invalid API key" });
+    expect(response.headers["www-authenticate"]).toBe(
+      'ApiKey realm="items", error="invalid_key"'
+    );
+  });
+
+  it("should act with the role of the API key", async () => {
+    const viewer = apiKeys.issue("auditor", "viewer").key;
+    const editor = apiKeys.issue("moderator", "editor").key;
+    const contributor = apiKeys.issue("importer").key;
+
+    await request(app)
+      .post("/items")
+      .set("Authorization", `ApiKey ${viewer}`)
+      .send({ name: "Item", description: "Description" })
+      .expect(403);
+    await request(app)
+      .post("/items")
+      .set("Authorization", `ApiKey ${contributor}`)
+      .send({ name: "Item", description: "Description" })
+      .expect(201);
+    await request(app)
+      .put("/items/1")
+      .set("Authorization", `ApiKey ${editor}`)
+      .send({ name: "Edited", description: "By the moderator" })
+      .expect(200);
+
+    await request(app)
+      .get("/webhooks")
+      .set("Authorization", `ApiKey ${contributor}`)
+      .expect(403);
+    await request(app)
+      .get("/webhooks")
+      .set("Authorization", `ApiKey ${editor}`)
+      .expect(200);
+  });
+
+  it("should accept a valid bearer token", async () => {
+    const token = signJwt({ sub: "alice", exp: hourFromNow() }, secret);
+
+    await request(app)
+      .post("/items")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ name: "Item", description: "Description" })
+      .expect(201);
+  });
+
+  it("should reject expired and forged bearer tokens", async () => {
+    const expired = signJwt({ sub: "alice", exp: 1 }, secret);
+    const forged = signJwt({ sub: "alice" }, "another-secret-of-enough-length");
+
+    const response = await request(app)
+      .get("/items")
+      .set("Authorization", `Bearer ${expired}`)
+      .expect(401);
+
+    expect(response.body).toEqual({ error: "Token expired" });
+    expect(response.headers["www-authenticate"]).toBe(
+      'Bearer realm="items", error="invalid_token", ' +
+        'error_description="Token expired"'
+    );
+
+    await request(app)
+      .get("/items")
+      .set("Authorization", `Bearer ${forged}`)
+      .expect(401);
+  });
+
+  it("should reject unsupported schemes", async () => {
+    const response = await request(app)
+      .get("/items")
+      .set("Authorization", "Basic dXNlcjpwYXNz")
+      .expect(401);
+
+    expect(response.body).toEqual({
+      error: "Unsupported authorization scheme",
+    });
+  });
+
+  it("should let preflight requests through", async () => {
+    await request(app).options("/items").expect(200);
+  });
+
+  it("should reject invalid credentials even when auth is optional", async () => {
+    app = createMyServer({ store, apiKeys, logLevel: "silent" });
+
+    await request(app).get("/items").expect(200);
+    await request(app)
+      .get("/items")
+      .set("Authorization", "ApiKey key_unknown")
+      .expect(401);
+  });
+
+  it("should let anonymous requests only read once credentials exist", async () => {
+    app = createMyServer({ store, apiKeys, logLevel: "silent" });
+    const create = () =>
+      request(app)
+        .post("/items")
+        .send({ name: "Item", description: "Description" });
+
+    await create().expect(201);
+
+    const { key } = apiKeys.issue("auditor", "viewer");
+
+    await create().set("Authorization", `ApiKey ${key}`).expect(403);
+    const response = await create().expect(401);
+    expect(response.headers["www-authenticate"]).toBe('ApiKey realm="items"');
+    await request(app)
+      .put("/items/1")
+      .send({ name: "Edited", description: "Anonymously" })
+      .expect(401);
+    await request(app).get("/items/1").expect(200);
+  });
+
+  it("should tag log entries with the subject", async () => {
+    const { key } = apiKeys.issue("importer");
+    store.get = () => {
+      throw new Error("disk I/O error");
+    };
+
+    await request(app)
+      .get("/items/1")
+      .set("Authorization", `ApiKey ${key}`)
+      .expect(500);
+
+    expect(entries[0]).toMatchObject({
+      msg: "Database error",
+      subject: "importer",
+    });
+  });
 });
 
-beforeEach(() => {
-  // Reset in-memory data before each test
-  resetMyServerData();
-});
+// Authorization tests
+describe.each([
+  { backend: "memory", createStore: () => createMemoryItemStore() },
+  { backend: "sqlite", createStore: () => createSqliteItemStore(":memory:") },
+])("Authorization with the $backend store", ({ createStore }) => {
+  let store: ItemStore;
+  let app: http.Server;
+
+  // Callers come from an "X-Caller: <id>:<role>" header in these tests
+  const identifyCaller: IdentifyCaller = (_identity, req) => {
+    const header = req.headers["x-caller"];
+    if (typeof header !== "string") {
+      return undefined;
+    }
+    const [id, role] = header.split(":");
+    return { id, role: role as Role };
+  };
+
+  const as = (caller: string) => ({ "X-Caller": caller });
+
+  beforeEach(async () => {
+    store = createStore();
+    app = createMyServer({ store, identifyCaller, logLevel: "silent" });
+
+    await request(app)
+      .post("/items")
+      .set(as("alice:contributor"))
+      .send({ name: "Alice's", description: "Owned by alice" })
+      .expect(201);
+    await request(app)
+      .post("/items")
+      .set(as("bob:contributor"))
+      .send({ name: "Bob's", description: "Owned by bob" })
+      .expect(201);
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it("should record the owner of created items", async () => {
+    const response = await request(app).get("/items/1").expect(200);
+
+    expect(response.body).toEqual({
+      id: 1,
+      name: "Alice's",
+      description: "Owned by alice",
+      version: 1,
+      ownerId: "alice",
+    });
+  });
+
+  it("should record who changed an item", async () => {
+    await request(app)
+      .put("/items/1")
+      .set(as("carol:editor"))
+      .send({ name: "Edited", description: "By carol" })
+      .expect(200);
+    await request(app)
+      .post("/items/1/revert")
+      .set(as("bob:contributor"))
+      .send({ version: 1 })
+      .expect(403);
+
+    const response = await request(app).get("/items/1/history").expect(200);
+
+    expect(
+      response.body.map(({ type, actor }: any) => ({ type, actor }))
+    ).toEqual([
+      { type: "created", actor: "alice" },
+      { type: "updated", actor: "carol" },
+    ]);
+  });
+
+  it("should let owners update and delete their own items only", async () => {
+    await request(app)
+      .put("/items/1")
+      .set(as("alice:contributor"))
+      .send({ name: "Renamed", description: "Still alice's" })
+      .expect(200);
+
+    const response = await request(app)
+      .put("/items/2")
+      .set(as("alice:contributor"))
+      .send({ name: "Taken", description: "Not alice's" })
+      .expect(403);
+
+    expect(response.body).toEqual({ error: "Forbidden" });
+
+    await request(app)
+      .delete("/items/2")
+      .set(as("alice:contributor"))
+      .expect(403);
+    await request(app)
+      .delete("/items/1")
+      .set(as("alice:contributor"))
+      .expect(200);
+  });
+
+  it("should keep the owner when an item is updated", async () => {
+    const response = await request(app)
+      .patch("/items/2")
+      .set(as("carol:editor"))
+      .set("Content-Type", "application/merge-patch+json")
+      .send(JSON.stringify({ name: "Edited" }))
+      .expect(200);
+
+    expect(response.body).toMatchObject({ name: "Edited", ownerId: "bob" });
+  });
+
+  it("should let editors update but not delete any item", async () => {
+    await request(app)
+      .put("/items/1")
+      .set(as("carol:editor"))
+      .send({ name: "Edited", description: "By carol" })
+      .expect(200);
+    await request(app).delete("/items/1").set(as("carol:editor")).expect(403);
+  });
+
+  it("should only let viewers read", async () => {
+    await request(app).get("/items/1").set(as("dave:viewer")).expect(200);
+    await request(app)
+      .post("/items")
+      .set(as("dave:viewer"))
+      .send({ name: "New", description: "Item" })
+      .expect(403);
+    await request(app)
+      .put("/items/1")
+      .set(as("dave:viewer"))
+      .send({ name: "New", description: "Item" })
+      .expect(403);
+    await request(app)
+      .post("/items/bulk")
+      .set(as("dave:viewer"))
+      .send([{ name: "New", description: "Item" }])
+      .expect(403);
+  });
+
+  it("should report 404 before 403", async () => {
+    const response = await request(app)
+      .delete("/items/99")
+      .set(as("dave:viewer"))
+      .expect(404);
+
+    expect(response.body).toEqual({ error: "Item not found" });
+  });
+
+  it("should check ownership per item in bulk requests", async () => {
+    const response = await request(app)
+      .delete("/items/bulk?mode=partial")
+      .set(as("alice:contributor"))
+      .send([{ id: 1 }, { id: 2 }])
+      .expect(207);
+
+    expect(response.body.results).toEqual([
+      { index: 0, status: 200, item: expect.objectContaining({ id: 1 }) },
+      { index: 1, status: 403, error: "Forbidden" },
+    ]);
+  });
+
+  it("should scope the list to the caller's items with owner=me", async () => {
+    const mine = await request(app)
+      .get("/items?owner=me")
+      .set(as("bob:contributor"))
+      .expect(200);
+
+    expect(mine.body.map((item: any) => item.name)).toEqual(["Bob's"]);
+    expect(mine.headers["x-total-count"]).toBe("1");
 
-// GET /items tests
-describe("GET /items", () => {
-  it("should return empty array initially", async () => {
-    const response = await request(app).get("/items").expect(200);
+    const byOwner = await request(app).get("/items?owner=alice").expect(200);
+    expect(byOwner.body.map((item: any) => item.name)).toEqual(["Alice's"]);
 
-    expect(response.body).toEqual([]);
+    const anonymous = await request(app).get("/items?owner=me").expect(400);
+    expect(anonymous.body.details[0].field).toBe("owner");
   });
 
-  it("should return all items", async () => {
-    // Create test items first
+  it("should show the history of trashed items only to who may delete them", async () => {
     await request(app)
-      .post("/items")
-      .send({ name: "Item 1", description: "Description 1" });
+      .delete("/items/1")
+      .set(as("alice:contributor"))
+      .expect(200);
 
+    await request(app).get("/items/2/history").expect(200);
+    await request(app).get("/items/1/history").expect(401);
     await request(app)
-      .post("/items")
-      .send({ name: "Item 2", description: "Description 2" });
+      .get("/items/1/history")
+      .set(as("carol:editor"))
+      .expect(403);
+    await request(app)
+      .get("/items/1/history")
+      .set(as("alice:contributor"))
+      .expect(200);
 
-    const response = await request(app).get("/items").expect(200);
+    await request(app)
+      .delete("/items/trash/1")
+      .set(as("alice:contributor"))
+      .expect(200);
 
-    expect(response.body).toHaveLength(2);
-    expect(response.body[0]).toMatchObject({
-      id: 1,
-      name: "Item 1",
-      description: "Description 1",
-    });
-    expect(response.body[1]).toMatchObject({
-      id: 2,
-      name: "Item 2",
-      description: "Description 2",
-    });
+    await request(app)
+      .get("/items/1/history")
+      .set(as("bob:contributor"))
+      .expect(403);
+    const response = await request(app)
+      .get("/items/1/history")
+      .set(as("alice:contributor"))
+      .expect(200);
+    expect(response.body.at(-1).type).toBe("purged");
   });
 
-  it("should have correct content type", async () => {
-    const response = await request(app).get("/items").expect(200);
-
-    expect(response.headers["content-type"]).toBe("application/json");
-  });
-});
+  it("should keep anonymous requests away from owned items", async () => {
+    const response = await request(app)
+      .put("/items/1")
+      .send({ name: "Anyone", description: "Can edit" })
+      .expect(401);
 
-// GET /items/:id tests
-describe("GET /items/:id", () => {
-  beforeEach(async () => {
+    expect(response.body).toEqual({ error: "Authentication required" });
+    expect(response.headers["www-authenticate"]).toBeDefined();
+    await request(app).delete("/items/2").expect(401);
     await request(app)
+      .delete("/items/bulk")
+      .send([{ id: 1 }])
+      .expect(403);
+    expect((await request(app).get("/items/1").expect(200)).body.name).toBe(
+      "Alice's"
+    );
+
+    const created = await request(app)
       .post("/items")
-      .send({ name: "Test Item", description: "Test Description" });
+      .send({ name: "Anonymous", description: "Unowned" })
+      .expect(201);
+    await request(app)
+      .put(`/items/${created.body.id}`)
+      .send({ name: "Anyone", description: "Can edit" })
+      .expect(200);
   });
+});
 
-  it("should return specific item by ID", async () => {
-    const response = await request(app).get("/items/1").expect(200);
-
-    expect(response.body).toMatchObject({
-      id: 1,
-      name: "Test Item",
-      description: "Test Description",
+// Rate limiting tests
+describe("Rate limiting", () => {
+  let time: number;
+  let apiKeys: ApiKeyStore;
+  let app: http.Server;
+
+  beforeEach(() => {
+    time = 0;
+    apiKeys = createMemoryApiKeyStore();
+    app = createMyServer({
+      apiKeys,
+      logLevel: "silent",
+      now: () => time,
+      rateLimits: [
+        { method: "POST", route: "/items", capacity: 2, refillPerSecond: 0.5 },
+      ],
     });
   });
 
-  it("should return 404 for non-existent item", async () => {
-    const response = await request(app).get("/items/999").expect(404);
+  const create = () =>
+    request(app).post("/items").send({ name: "Item", description: "Text" });
 
-    expect(response.body).toEqual({
-      error: "Item not found",
-    });
+  it("should refuse requests once the bucket is empty", async () => {
+    const first = await create().expect(201);
+
+    expect(first.headers["ratelimit-limit"]).toBe("2");
+    expect(first.headers["ratelimit-remaining"]).toBe("1");
+    expect(first.headers["ratelimit-policy"]).toBe("2;w=4");
+
+    await create().expect(201);
+    const refused = await create().expect(429);
+
+    expect(refused.body).toEqual({ error: "Too many requests" });
+    expect(refused.headers["retry-after"]).toBe("2");
+    expect(refused.headers["ratelimit-remaining"]).toBe("0");
+    expect(refused.headers["ratelimit-reset"]).toBe("4");
   });
 
-  it("should return 400 for invalid ID", async () => {
-    const response = await request(app).get("/items/abc").expect(400);
+  it("should refill the bucket over time", async () => {
+    await create().expect(201);
+    await create().expect(201);
+    await create().expect(429);
 
-    expect(response.body).toEqual({
-      error: "Invalid item ID",
-    });
+    time += 2000;
+    await create().expect(201);
+    await create().expect(429);
   });
 
-  it("should return 400 for empty ID", async () => {
-    const response = await request(app).get("/items/").expect(400);
+  it("should only limit matching routes and methods", async () => {
+    await create().expect(201);
+    await create().expect(201);
+
+    const response = await request(app).get("/items").expect(200);
+    expect(response.headers["ratelimit-limit"]).toBeUndefined();
   });
-});
 
-// POST /items tests
-describe("POST /items", () => {
-  it("should create new item with valid data", async () => {
-    const itemData = {
-      name: "New Item",
-      description: "New Description",
-    };
+  it("should keep separate buckets per API key", async () => {
+    await create().expect(201);
+    await create().expect(201);
+    await create().expect(429);
 
-    const response = await request(app)
-      .post("/items")
-      .send(itemData)
-      .expect(201);
+    const { key } = apiKeys.issue("importer");
 
-    expect(response.body).toMatchObject({
-      id: 1,
-      name: "New Item",
-      description: "New Description",
-    });
+    await create().set("Authorization", `ApiKey ${key}`).expect(201);
   });
 
-  it("should auto-increment IDs", async () => {
-    await request(app)
-      .post("/items")
-      .send({ name: "Item 1", description: "Description 1" });
+  it("should count failed authentication before authenticating", async () => {
+    const { key } = apiKeys.issue("importer");
+    const guess = () => create().set("Authorization", "ApiKey wrong");
 
-    const response = await request(app)
-      .post("/items")
-      .send({ name: "Item 2", description: "Description 2" });
+    await guess().expect(401);
+    await guess().expect(401);
+    const refused = await guess().expect(429);
+    expect(refused.headers["retry-after"]).toBe("2");
 
-    expect(response.body.id).toBe(2);
+    // Credentials from this address wait for the bucket to refill, while
+    // anonymous requests have a bucket of their own (and, with a key
+    // issued, are refused only for lacking credentials)
+    await create().set("Authorization", `ApiKey ${key}`).expect(429);
+    await create().expect(401);
+
+    time += 2000;
+    await create().set("Authorization", `ApiKey ${key}`).expect(201);
   });
 
-  it("should trim whitespace from input", async () => {
-    const response = await request(app)
-      .post("/items")
-      .send({
-        name: "  Trimmed Name  ",
-        description: "  Trimmed Description  ",
-      })
-      .expect(201);
+  it("should charge authenticated requests to their identity only", async () => {
+    const importer = apiKeys.issue("importer").key;
+    const exporter = apiKeys.issue("exporter").key;
 
-    expect(response.body.name).toBe("Trimmed Name");
-    expect(response.body.description).toBe("Trimmed Description");
+    await create().set("Authorization", `ApiKey ${importer}`).expect(201);
+    await create().set("Authorization", `ApiKey ${importer}`).expect(201);
+    await create().set("Authorization", `ApiKey ${importer}`).expect(429);
+
+    await create().set("Authorization", `ApiKey ${exporter}`).expect(201);
   });
+});
 
-  it("should return 400 for missing name", async () => {
-    const response = await request(app)
-      .post("/items")
-      .send({ description: "Description only" })
-      .expect(400);
+// Trash retention tests
+describe("Trash retention", () => {
+  const day = 24 * 60 * 60 * 1000;
 
-    expect(response.body.error).toBe("Validation failed");
-    expect(response.body.details).toContain(
-      "Name is required and must be a non-empty string"
-    );
-  });
+  it("should purge items trashed longer than the retention period", async () => {
+    let time = Date.parse("2024-01-01T00:00:00Z");
+    const app = createMyServer({
+      logLevel: "silent",
+      now: () => time,
+      trashRetentionDays: 7,
+    });
 
-  it("should return 400 for missing description", async () => {
-    const response = await request(app)
-      .post("/items")
-      .send({ name: "Name only" })
-      .expect(400);
+    for (const name of ["Old", "Recent"]) {
+      await request(app)
+        .post("/items")
+        .send({ name, description: "Item" })
+        .expect(201);
+    }
 
-    expect(response.body.error).toBe("Validation failed");
-    expect(response.body.details).toContain(
-      "Description is required and must be a non-empty string"
-    );
+    await request(app).delete("/items/1").expect(200);
+    time += 5 * day;
+    await request(app).delete("/items/2").expect(200);
+
+    time += 3 * day;
+    expect(app.purgeExpiredTrash()).toBe(1);
+
+    const trash = await request(app).get("/items/trash").expect(200);
+    expect(trash.body.map((item: any) => item.name)).toEqual(["Recent"]);
   });
 
-  it("should return 400 for empty name", async () => {
-    const response = await request(app)
-      .post("/items")
-      .send({ name: "", description: "Valid description" })
-      .expect(400);
+  it("should keep the trash without a retention period", () => {
+    const app = createMyServer({ logLevel: "silent" });
 
-    expect(response.body.details).toContain(
-      "Name is required and must be a non-empty string"
-    );
+    app.store.create({ name: "Item", description: "Item" });
+    app.store.delete(1);
+
+    expect(app.purgeExpiredTrash()).toBe(0);
+    expect(app.store.getDeleted(1)).toBeDefined();
   });
+});
 
-  it("should return 400 for empty description", async () => {
-    const response = await request(app)
+// Graceful shutdown tests
+describe("Webhooks", () => {
+  let time: number;
+  let app: ReturnType<typeof createMyServer>;
+  let receiver: http.Server;
+  let receiverUrl: string;
+  // What the stand-in receiver got, and the status it answers with
+  let received: { headers: http.IncomingHttpHeaders; body: string }[];
+  let answer: number;
+
+  const createApp = (options: Parameters<typeof createMyServer>[0] = {}) =>
+    createMyServer({
+      dbPath: ":memory:",
+      logLevel: "silent",
+      now: () => time,
+      // Callers come from an "X-Role: <role>" header in these tests
+      identifyCaller: (_identity, req) =>
+        typeof req.headers["x-role"] === "string"
+          ? { id: "someone", role: req.headers["x-role"] as Role }
+          : undefined,
+      ...options,
+    });
+
+  // Only editors manage webhooks
+  const editor = () => request.agent(app).set("X-Role", "editor");
+
+  const register = async (body: object = {}) =>
+    (
+      await editor()
+        .post("/webhooks")
+        .send({ url: receiverUrl, ...body })
+        .expect(201)
+    ).body;
+
+  const createItem = () =>
+    request(app)
       .post("/items")
-      .send({ name: "Valid name", description: "" })
-      .expect(400);
+      .send({ name: "Hooked", description: "Announced" })
+      .expect(201);
 
-    expect(response.body.details).toContain(
-      "Description is required and must be a non-empty string"
-    );
+  beforeAll(async () => {
+    receiver = http.createServer((req, res) => {
+      let body = "";
+      req.setEncoding("utf8");
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(answer);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, resolve));
+    receiverUrl = `http://127.0.0.1:${
+      (receiver.address() as AddressInfo).port
+    }/hook`;
   });
 
-  it("should return 400 for whitespace-only name", async () => {
-    const response = await request(app)
-      .post("/items")
-      .send({ name: "   ", description: "Valid description" })
-      .expect(400);
+  afterAll(() => {
+    receiver.close();
+  });
 
-    expect(response.body.details).toContain(
-      "Name is required and must be a non-empty string"
-    );
+  beforeEach(() => {
+    time = Date.parse("2024-01-01T00:00:00Z");
+    received = [];
+    answer = 204;
+    app = createApp();
   });
 
-  it("should return 400 for non-string name", async () => {
-    const response = await request(app)
-      .post("/items")
-      .send({ name: 123, description: "Valid description" })
-      .expect(400);
+  afterEach(async () => {
+    await app.shutdown();
+  });
 
-    expect(response.body.details).toContain(
-      "Name is required and must be a non-empty string"
-    );
+  it("should register webhooks and show the secret only once", async () => {
+    const webhook = await register({ events: ["created", "deleted"] });
+
+    expect(webhook).toEqual({
+      id: 1,
+      url: receiverUrl,
+      events: ["created", "deleted"],
+      enabled: true,
+      failureCount: 0,
+      createdAt: expect.any(String),
+      secret: expect.stringMatching(/^whsec_/),
+    });
+
+    const list = await editor().get("/webhooks").expect(200);
+    const { secret: _secret, ...shown } = webhook;
+    expect(list.body).toEqual([shown]);
+    await editor().get("/webhooks/1").expect(200, shown);
+    await editor().get("/webhooks/2").expect(404);
   });
 
-  it("should return 400 for name too long", async () => {
-    const longName = "a".repeat(101);
-    const response = await request(app)
-      .post("/items")
-      .send({ name: longName, description: "Valid description" })
+  it("should reject invalid webhooks", async () => {
+    const response = await editor()
+      .post("/webhooks")
+      .send({ url: "ftp://example.com", events: ["renamed"] })
       .expect(400);
 
-    expect(response.body.details).toContain(
-      "Name must be 100 characters or less"
-    );
+    expect(response.body.details).toEqual([
+      {
+        field: "url",
+        code: "invalid_url",
+        message: "URL must be an http or https URL",
+      },
+      {
+        field: "events[0]",
+        code: "invalid_value",
+        message: expect.stringContaining("Event must be one of"),
+      },
+    ]);
   });
 
-  it("should return 400 for description too long", async () => {
-    const longDescription = "a".repeat(501);
-    const response = await request(app)
-      .post("/items")
-      .send({ name: "Valid name", description: longDescription })
-      .expect(400);
+  it("should deliver signed item events", async () => {
+    const { secret } = await register();
+    await createItem();
+
+    expect(await app.deliverWebhooks()).toBe(1);
+    expect(received).toHaveLength(1);
 
-    expect(response.body.details).toContain(
-      "Description must be 500 characters or less"
+    const [{ headers, body }] = received;
+    expect(headers["content-type"]).toBe("application/json");
+    expect(headers["x-webhook-event"]).toBe("created");
+    expect(headers["x-webhook-timestamp"]).toBe(String(time / 1000));
+    expect(headers["x-webhook-signature"]).toBe(
+      signWebhookPayload(secret, time / 1000, body)
     );
+    expect(JSON.parse(body)).toEqual({
+      id: 1,
+      type: "created",
+      at: "2024-01-01T00:00:00.000Z",
+      item: { id: 1, name: "Hooked", description: "Announced", version: 1 },
+    });
+
+    const log = await editor().get("/webhooks/1/deliveries").expect(200);
+    expect(log.body).toEqual([
+      {
+        id: 1,
+        webhookId: 1,
+        eventId: 1,
+        eventType: "created",
+        status: "succeeded",
+        attempts: 1,
+        lastAttemptAt: "2024-01-01T00:00:00.000Z",
+        responseStatus: 204,
+        createdAt: "2024-01-01T00:00:00.000Z",
+      },
+    ]);
+    expect(await app.deliverWebhooks()).toBe(0);
   });
 
-  it("should return 400 for invalid JSON", async () => {
-    const response = await request(app)
-      .post("/items")
-      .send("invalid json")
-      .expect(400);
+  it("should only deliver the events a webhook subscribed to", async () => {
+    await register({ events: ["deleted"] });
+    await createItem();
+    await request(app).delete("/items/1").expect(200);
 
-    expect(response.body.error).toBe("Invalid JSON");
+    await app.deliverWebhooks();
+
+    expect(received.map(({ headers }) => headers["x-webhook-event"])).toEqual([
+      "deleted",
+    ]);
   });
 
-  it("should return 400 for no request body", async () => {
-    const response = await request(app).post("/items").send().expect(400);
+  it("should retry failed deliveries with exponential backoff", async () => {
+    await register();
+    await createItem();
+    answer = 500;
+
+    await app.deliverWebhooks();
+    let [delivery] = (await editor().get("/webhooks/1/deliveries")).body;
+    expect(delivery).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      responseStatus: 500,
+      error: "Receiver answered 500",
+      nextAttemptAt: "2024-01-01T00:00:30.000Z",
+    });
 
-    console.log(response.body);
-    expect(response.body.details).toContain("Request body is required");
+    // Not due yet
+    expect(await app.deliverWebhooks()).toBe(0);
+
+    time += 30_000;
+    await app.deliverWebhooks();
+    [delivery] = (await editor().get("/webhooks/1/deliveries")).body;
+    expect(delivery.nextAttemptAt).toBe("2024-01-01T00:01:30.000Z");
+
+    time += 60_000;
+    answer = 200;
+    await app.deliverWebhooks();
+    [delivery] = (await editor().get("/webhooks/1/deliveries")).body;
+    expect(delivery).toMatchObject({ status: "succeeded", attempts: 3 });
+    expect(delivery).not.toHaveProperty("error");
+    expect(received).toHaveLength(3);
   });
 
-  it("should accept maximum length strings", async () => {
-    const maxName = "a".repeat(100);
-    const maxDescription = "b".repeat(500);
+  it("should give up after the maximum number of attempts", async () => {
+    await app.shutdown();
+    app = createApp({ webhookMaxAttempts: 2 });
+    await register();
+    await createItem();
+    answer = 503;
+
+    await app.deliverWebhooks();
+    time += 30_000;
+    await app.deliverWebhooks();
+    time += 60 * 60 * 1000;
+    expect(await app.deliverWebhooks()).toBe(0);
+
+    const [delivery] = (await editor().get("/webhooks/1/deliveries")).body;
+    expect(delivery).toMatchObject({ status: "failed", attempts: 2 });
+    expect(delivery).not.toHaveProperty("nextAttemptAt");
+  });
 
-    const response = await request(app)
-      .post("/items")
-      .send({ name: maxName, description: maxDescription })
+  it("should record unreachable receivers", async () => {
+    await editor()
+      .post("/webhooks")
+      .send({ url: "http://127.0.0.1:1/hook" })
       .expect(201);
+    await createItem();
 
-    expect(response.body.name).toBe(maxName);
-    expect(response.body.description).toBe(maxDescription);
+    await app.deliverWebhooks();
+
+    const [delivery] = (await editor().get("/webhooks/1/deliveries")).body;
+    expect(delivery).toMatchObject({ status: "pending", attempts: 1 });
+    expect(delivery.error).toEqual(expect.any(String));
+    expect(delivery).not.toHaveProperty("responseStatus");
   });
-});
 
-// PUT /items/:id tests
-describe("PUT /items/:id", () => {
-  beforeEach(async () => {
-    await request(app)
-      .post("/items")
-      .send({ name: "Original Item", description: "Original Description" });
+  it("should disable webhooks after repeated failures", async () => {
+    await app.shutdown();
+    app = createApp({ webhookDisableAfter: 2 });
+    await register();
+    await createItem();
+    await createItem();
+    answer = 500;
+
+    await app.deliverWebhooks();
+
+    const disabled = await editor().get("/webhooks/1").expect(200);
+    expect(disabled.body).toMatchObject({
+      enabled: false,
+      failureCount: 2,
+      disabledAt: expect.any(String),
+    });
+
+    // Pending deliveries wait until the webhook is enabled again
+    time += 60 * 60 * 1000;
+    expect(await app.deliverWebhooks()).toBe(0);
+
+    answer = 204;
+    const enabled = await editor()
+      .patch("/webhooks/1")
+      .send({ enabled: true })
+      .expect(200);
+    expect(enabled.body).toMatchObject({ enabled: true, failureCount: 0 });
+    expect(await app.deliverWebhooks()).toBe(2);
   });
 
-  it("should update existing item", async () => {
-    const updateData = {
-      name: "Updated Item",
-      description: "Updated Description",
-    };
+  it("should update and delete webhooks", async () => {
+    await register();
 
-    const response = await request(app)
-      .put("/items/1")
-      .send(updateData)
+    const updated = await editor()
+      .patch("/webhooks/1")
+      .send({ events: ["updated"] })
       .expect(200);
+    expect(updated.body).toMatchObject({
+      url: receiverUrl,
+      events: ["updated"],
+    });
 
-    expect(response.body).toMatchObject({
-      id: 1,
-      name: "Updated Item",
-      description: "Updated Description",
+    await editor().patch("/webhooks/1").send({ enabled: "yes" }).expect(400);
+
+    const deleted = await editor().delete("/webhooks/1").expect(200);
+    expect(deleted.body).toMatchObject({
+      message: "Webhook deleted",
+      webhook: { id: 1 },
     });
-  });
 
-  it("should preserve ID when updating", async () => {
-    const response = await request(app)
-      .put("/items/1")
-      .send({ name: "New Name", description: "New Description" })
-      .expect(200);
+    await createItem();
+    expect(await app.deliverWebhooks()).toBe(0);
+    await editor().get("/webhooks/1/deliveries").expect(404);
+  });
 
-    expect(response.body.id).toBe(1);
+  it("should let only editors manage webhooks", async () => {
+    await request(app)
+      .post("/webhooks")
+      .set("X-Role", "contributor")
+      .send({ url: receiverUrl })
+      .expect(403);
+    await request(app).get("/webhooks").set("X-Role", "viewer").expect(403);
+    await request(app)
+      .post("/webhooks")
+      .set("X-Role", "editor")
+      .send({ url: receiverUrl })
+      .expect(201);
   });
 
-  it("should return 404 for non-existent item", async () => {
+  it("should refuse anonymous callers", async () => {
     const response = await request(app)
-      .put("/items/999")
-      .send({ name: "Updated", description: "Updated" })
-      .expect(404);
+      .post("/webhooks")
+      .send({ url: receiverUrl })
+      .expect(401);
 
-    expect(response.body.error).toBe("Item not found");
+    expect(response.body).toEqual({ error: "Authentication required" });
+    await request(app).get("/webhooks").expect(401);
+    await editor().get("/webhooks").expect(200, []);
+
+    // Before the body is looked at
+    await request(app)
+      .patch("/webhooks/1")
+      .set("Content-Type", "text/plain")
+      .send("not json")
+      .expect(401);
   });
 
-  it("should return 400 for invalid ID", async () => {
-    const response = await request(app)
-      .put("/items/abc")
-      .send({ name: "Updated", description: "Updated" })
-      .expect(400);
+  it("should deliver right after changes once started", async () => {
+    await app.shutdown();
+    app = createApp({ port: 0, host: "127.0.0.1" });
+    await app.start();
+    await register();
 
-    expect(response.body.error).toBe("Invalid item ID");
+    await createItem();
+    await vi.waitFor(() => expect(received).toHaveLength(1));
   });
+});
 
-  it("should validate input on update", async () => {
-    const response = await request(app)
-      .put("/items/1")
-      .send({ name: "", description: "Valid description" })
-      .expect(400);
+describe.each([
+  { backend: "memory", createStore: () => createMemoryItemStore() },
+  { backend: "sqlite", createStore: () => createSqliteItemStore(":memory:") },
+])("Change events with the $backend store", ({ createStore }) => {
+  let app: ReturnType<typeof createMyServer>;
+  let port: number;
+
+  const startServer = async (options: MyServerOptions = {}) => {
+    app = createMyServer({
+      store: createStore(),
+      port: 0,
+      logLevel: "silent",
+      ...options,
+    });
+    port = (await app.start()).port;
+  };
 
-    expect(response.body.error).toBe("Validation failed");
+  beforeEach(async () => {
+    await startServer();
   });
 
-  it("should trim whitespace on update", async () => {
-    const response = await request(app)
-      .put("/items/1")
-      .send({
-        name: "  Updated Name  ",
-        description: "  Updated Description  ",
-      })
-      .expect(200);
-
-    expect(response.body.name).toBe("Updated Name");
-    expect(response.body.description).toBe("Updated Description");
+  afterEach(async () => {
+    await app.shutdown();
   });
 
-  it("should return 400 for invalid JSON on update", async () => {
-    const response = await request(app)
+  const openEventStream = (headers: http.OutgoingHttpHeaders = {}) =>
+    new Promise<http.IncomingMessage>((resolve, reject) => {
+      http
+        .get({ port, path: "/items/events", headers }, resolve)
+        .on("error", reject);
+    });
+
+  // Resolve with the first `count` complete events of a stream
+  const readEvents = (res: http.IncomingMessage, count: number) =>
+    new Promise<string[]>((resolve) => {
+      let text = "";
+      res.setEncoding("utf8");
+      res.on("data", (chunk: string) => {
+        text += chunk;
+        const events = text
+          .split("\n\n")
+          .slice(0, -1)
+          .filter((block) => block.startsWith("id:"));
+        if (events.length >= count) {
+          resolve(events.slice(0, count));
+        }
+      });
+    });
+
+  const openWebSocket = (
+    path: string,
+    headers: http.OutgoingHttpHeaders = {}
+  ) =>
+    new Promise<{ socket: Duplex; head: Buffer; accept: string }>(
+      (resolve, reject) => {
+        const req = http.request({
+          port,
+          path,
+          headers: {
+            Connection: "Upgrade",
+            Upgrade: "websocket",
+            "Sec-WebSocket-Key": "dGhlIHNhbXBsZSBub25jZQ==",
+            "Sec-WebSocket-Version": "13",
+            ...headers,
+          },
+        });
+        req.on("upgrade", (res, socket, head) => {
+          resolve({
+            socket,
+            head,
+            accept: res.headers["sec-websocket-accept"] as string,
+          });
+        });
+        req.on("response", (res) => {
+          res.resume();
+          reject(new Error(`Upgrade refused with ${res.statusCode}`));
+        });
+        req.on("error", reject);
+        req.end();
+      }
+    );
+
+  // Resolve with the first `count` unmasked frames sent by the server
+  const readFrames = (socket: Duplex, head: Buffer, count: number) =>
+    new Promise<{ opcode: number; payload: Buffer }[]>((resolve) => {
+      let buffer = head;
+      const parse = () => {
+        const frames = [];
+        let offset = 0;
+        while (buffer.length >= offset + 2) {
+          let length = buffer[offset + 1] & 0x7f;
+          let start = offset + 2;
+          if (length === 126) {
+            length = buffer.readUInt16BE(offset + 2);
+            start += 2;
+          }
+          if (buffer.length < start + length) {
+            break;
+          }
+          frames.push({
+            opcode: buffer[offset] & 0x0f,
+            payload: buffer.subarray(start, start + length),
+          });
+          offset = start + length;
+        }
+        if (frames.length >= count) {
+          resolve(frames.slice(0, count));
+        }
+      };
+      socket.on("data", (data: Buffer) => {
+        buffer = Buffer.concat([buffer, data]);
+        parse();
+      });
+      parse();
+    });
+
+  it("should stream item changes as server-sent events", async () => {
+    const res = await openEventStream({ "Accept-Encoding": "gzip" });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["content-type"]).toBe("text/event-stream");
+    // Compression would hold events back in the compressor's buffer
+    expect(res.headers["content-encoding"]).toBeUndefined();
+
+    const events = readEvents(res, 3);
+    await request(app)
+      .post("/items")
+      .send({ name: "Live", description: "Streamed" })
+      .expect(201);
+    await request(app)
       .put("/items/1")
-      .send("invalid json")
-      .expect(400);
+      .send({ name: "Live", description: "Changed" })
+      .expect(200);
+    await request(app).delete("/items/1").expect(200);
 
-    expect(response.body.error).toBe("Invalid JSON");
+    const [created, updated, deleted] = await events;
+    res.destroy();
+
+    expect(created).toBe(
+      "id: 1\nevent: created\n" +
+        'data: {"id":1,"name":"Live","description":"Streamed","version":1}'
+    );
+    expect(updated).toMatch(/^id: 2\nevent: updated\ndata: .*"Changed"/);
+    expect(deleted).toMatch(/^id: 3\nevent: deleted\ndata: .*"deletedAt"/);
   });
-});
 
-// DELETE /items/:id tests
-describe("DELETE /items/:id", () => {
-  beforeEach(async () => {
+  it("should only stream changes made after a new stream opens", async () => {
+    for (const name of ["First", "Second"]) {
+      await request(app)
+        .post("/items")
+        .send({ name, description: "Stored" })
+        .expect(201);
+    }
+
+    const res = await openEventStream();
+    const events = readEvents(res, 1);
     await request(app)
       .post("/items")
-      .send({ name: "Item to Delete", description: "Will be deleted" });
-  });
+      .send({ name: "Third", description: "Live" })
+      .expect(201);
 
-  it("should delete existing item", async () => {
-    const response = await request(app).delete("/items/1").expect(200);
+    const [event] = await events;
+    res.destroy();
 
-    expect(response.body.message).toBe("Item deleted");
-    expect(response.body.item).toMatchObject({
-      id: 1,
-      name: "Item to Delete",
-      description: "Will be deleted",
-    });
+    expect(event).toMatch(/^id: 3\nevent: created\ndata: .*"Third"/);
   });
 
-  it("should actually remove item from storage", async () => {
-    await request(app).delete("/items/1").expect(200);
+  it("should end a stream after replaying 1000 missed changes", async () => {
+    for (let i = 1; i <= 1001; i++) {
+      app.store.create({ name: `Item ${i}`, description: "Missed" });
+    }
 
-    // Verify item is gone
-    await request(app).get("/items/1").expect(404);
-  });
+    const res = await openEventStream({ "Last-Event-ID": "0" });
+    let text = "";
+    res.setEncoding("utf8");
+    res.on("data", (chunk: string) => (text += chunk));
+    await new Promise((resolve) => res.on("end", resolve));
 
-  it("should return 404 for non-existent item", async () => {
-    const response = await request(app).delete("/items/999").expect(404);
+    const ids = text.match(/^id: \d+$/gm)!;
+    expect(ids).toHaveLength(1000);
+    expect(ids.at(-1)).toBe("id: 1000");
 
-    expect(response.body.error).toBe("Item not found");
-  });
+    const resumed = await openEventStream({ "Last-Event-ID": "1000" });
+    const [event] = await readEvents(resumed, 1);
+    resumed.destroy();
 
-  it("should return 400 for invalid ID", async () => {
-    const response = await request(app).delete("/items/abc").expect(400);
+    expect(event).toMatch(/^id: 1001\n/);
 
-    expect(response.body.error).toBe("Invalid item ID");
+    const { socket, head } = await openWebSocket("/items/events?lastEventId=0");
+    const frames = await readFrames(socket, head, 1001);
+    socket.destroy();
+
+    const close = frames[1000];
+    expect(close.opcode).toBe(8);
+    expect(close.payload.readUInt16BE(0)).toBe(1013);
   });
 
-  it("should handle deleting from middle of array", async () => {
-    // Create multiple items
-    await request(app)
-      .post("/items")
-      .send({ name: "Item 2", description: "Second item" });
+  it("should resume after Last-Event-ID", async () => {
+    for (const name of ["First", "Second", "Third"]) {
+      await request(app)
+        .post("/items")
+        .send({ name, description: "Stored" })
+        .expect(201);
+    }
+
+    const res = await openEventStream({ "Last-Event-ID": "1" });
+    const events = await readEvents(res, 2);
+    res.destroy();
+
+    expect(events.map((event) => event.split("\n")[0])).toEqual([
+      "id: 2",
+      "id: 3",
+    ]);
 
     await request(app)
-      .post("/items")
-      .send({ name: "Item 3", description: "Third item" });
+      .get("/items/events")
+      .set("Last-Event-ID", "latest")
+      .expect(400, { error: "Invalid Last-Event-ID" });
+  });
 
-    // Delete middle item
-    await request(app).delete("/items/2").expect(200);
+  it("should not announce rolled back changes", async () => {
+    const res = await openEventStream();
+    const events = readEvents(res, 2);
 
-    // Verify other items still exist
-    await request(app).get("/items/1").expect(200);
+    await request(app)
+      .post("/items/bulk?mode=atomic")
+      .send([{ name: "Valid", description: "Created" }])
+      .expect(201);
+    await request(app)
+      .put("/items/bulk?mode=atomic")
+      .send([
+        { id: 1, name: "Changed", description: "Rolled back" },
+        { id: 2, name: "Missing", description: "Fails the batch" },
+      ])
+      .expect(404);
+    await request(app).delete("/items/1").expect(200);
 
-    await request(app).get("/items/3").expect(200);
+    const [created, deleted] = await events;
+    res.destroy();
 
-    // Verify deleted item is gone
-    await request(app).get("/items/2").expect(404);
+    expect(created).toMatch(/^id: 1\nevent: created\n/);
+    expect(deleted).toMatch(/^id: 2\nevent: deleted\ndata: .*"Valid"/);
   });
-});
 
-// CORS and OPTIONS tests
-describe("CORS and OPTIONS", () => {
-  it("should handle OPTIONS request", async () => {
-    const response = await request(app).options("/items").expect(200);
+  it("should stream item changes over a WebSocket", async () => {
+    await request(app)
+      .post("/items")
+      .send({ name: "Before", description: "Replayed" })
+      .expect(201);
 
-    expect(response.headers["access-control-allow-origin"]).toBe("*");
-    expect(response.headers["access-control-allow-methods"]).toBe(
-      "GET, POST, PUT, DELETE"
+    const { socket, head, accept } = await openWebSocket(
+      "/items/events?lastEventId=0"
     );
-    expect(response.headers["access-control-allow-headers"]).toBe(
-      "Content-Type"
+    expect(accept).toBe(
+      createHash("sha1")
+        .update("dGhlIHNhbXBsZSBub25jZQ==258EAFA5-E914-47DA-95CA-C5AB0DC85B11")
+        .digest("base64")
     );
-  });
 
-  it("should include CORS headers in all responses", async () => {
-    const response = await request(app).get("/items").expect(200);
+    const frames = readFrames(socket, head, 2);
+    await request(app)
+      .post("/items")
+      .send({ name: "After", description: "Live" })
+      .expect(201);
 
-    expect(response.headers["access-control-allow-origin"]).toBe("*");
-    expect(response.headers["access-control-allow-methods"]).toBe(
-      "GET, POST, PUT, DELETE"
-    );
-    expect(response.headers["access-control-allow-headers"]).toBe(
-      "Content-Type"
-    );
+    const messages = (await frames).map(({ opcode, payload }) => {
+      expect(opcode).toBe(1);
+      return JSON.parse(payload.toString());
+    });
+    socket.destroy();
+
+    expect(messages).toEqual([
+      {
+        id: 1,
+        type: "created",
+        item: { id: 1, name: "Before", description: "Replayed", version: 1 },
+      },
+      {
+        id: 2,
+        type: "created",
+        item: { id: 2, name: "After", description: "Live", version: 1 },
+      },
+    ]);
   });
-});
 
-// 404 tests
-describe("404 handling", () => {
-  it("should return 404 for unknown routes", async () => {
-    const response = await request(app).get("/unknown-route").expect(404);
+  it("should answer the WebSocket closing handshake", async () => {
+    const { socket, head } = await openWebSocket("/items/events");
+    const frames = readFrames(socket, head, 1);
+    const ended = new Promise((resolve) => socket.on("end", resolve));
 
-    expect(response.body.error).toBe("Not found");
+    // Client frames are masked; close with status 1000
+    const mask = Buffer.from([1, 2, 3, 4]);
+    const payload = Buffer.from([0x03, 0xe8]).map(
+      (byte, index) => byte ^ mask[index]
+    );
+    socket.write(Buffer.concat([Buffer.from([0x88, 0x82]), mask, payload]));
+
+    const [close] = await frames;
+    expect(close.opcode).toBe(8);
+    expect(close.payload.readUInt16BE(0)).toBe(1000);
+    await ended;
   });
 
-  it("should return 404 for unsupported methods", async () => {
-    const response = await request(app).patch("/items/1").expect(404);
+  it("should refuse WebSocket upgrades it cannot serve", async () => {
+    await expect(openWebSocket("/items")).rejects.toThrow("404");
+    await expect(
+      openWebSocket("/items/events", { "Sec-WebSocket-Version": "8" })
+    ).rejects.toThrow("400");
 
-    expect(response.body.error).toBe("Not found");
-  });
-});
+    await app.shutdown();
+    await startServer({ requireAuth: true });
 
-// Integration tests
-describe("Integration Tests", () => {
-  it("should perform complete CRUD operations", async () => {
-    // Create
-    const createResponse = await request(app)
-      .post("/items")
-      .send({ name: "Integration Test Item", description: "For testing" })
-      .expect(201);
+    await expect(openWebSocket("/items/events")).rejects.toThrow("401");
+  });
 
-    const itemId = createResponse.body.id;
+  it("should rate limit WebSocket upgrades", async () => {
+    await app.shutdown();
+    await startServer({
+      rateLimits: [
+        { route: "/items/events", capacity: 1, refillPerSecond: 0.01 },
+      ],
+    });
 
-    // Read
-    const readResponse = await request(app).get(`/items/${itemId}`).expect(200);
+    const { socket } = await openWebSocket("/items/events");
+    socket.resume();
 
-    expect(readResponse.body.name).toBe("Integration Test Item");
+    await expect(openWebSocket("/items/events")).rejects.toThrow("429");
+  });
 
-    // Update
-    const updateResponse = await request(app)
-      .put(`/items/${itemId}`)
-      .send({
-        name: "Updated Integration Item",
-        description: "Updated for testing",
-      })
-      .expect(200);
+  it("should end open streams on shutdown", async () => {
+    const res = await openEventStream();
+    const { socket } = await openWebSocket("/items/events");
+    const sseEnded = new Promise((resolve) => res.on("end", resolve));
+    const wsEnded = new Promise((resolve) => socket.on("end", resolve));
+    res.resume();
+    socket.resume();
 
-    expect(updateResponse.body.name).toBe("Updated Integration Item");
+    await app.shutdown();
 
-    // Verify update
-    const verifyResponse = await request(app)
-      .get(`/items/${itemId}`)
-      .expect(200);
+    await sseEnded;
+    await wsEnded;
+  });
+});
 
-    expect(verifyResponse.body.name).toBe("Updated Integration Item");
+describe("Graceful shutdown", () => {
+  let closed: boolean;
+  let app: ReturnType<typeof createMyServer>;
+  let port: number;
 
-    // Delete
-    await request(app).delete(`/items/${itemId}`).expect(200);
+  const startServer = async (shutdownTimeout: number) => {
+    closed = false;
+    const store = createMemoryItemStore();
+    store.close = () => {
+      closed = true;
+    };
+    app = createMyServer({
+      store,
+      port: 0,
+      logLevel: "silent",
+      shutdownTimeout,
+    });
+    port = (await app.start()).port;
+  };
+
+  // Start a POST /items request and send only part of its body
+  const startSlowRequest = () => {
+    const body = JSON.stringify({ name: "Slow", description: "Request" });
+    const req = http.request({
+      port,
+      method: "POST",
+      path: "/items",
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Length": Buffer.byteLength(body),
+      },
+    });
+    const response = new Promise<http.IncomingMessage>((resolve, reject) => {
+      req.on("response", resolve);
+      req.on("error", reject);
+    });
+    req.write(body.slice(0, 10));
+    return { req, rest: body.slice(10), response };
+  };
 
-    // Verify deletion
-    await request(app).get(`/items/${itemId}`).expect(404);
-  });
+  it("should wait for in-flight requests before closing the store", async () => {
+    await startServer(5000);
+    const slow = startSlowRequest();
+    await new Promise((resolve) => setTimeout(resolve, 20));
 
-  it("should handle multiple items correctly", async () => {
-    const items = [
-      { name: "Item 1", description: "First item" },
-      { name: "Item 2", description: "Second item" },
-      { name: "Item 3", description: "Third item" },
-    ];
+    const shutdown = app.shutdown();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(closed).toBe(false);
 
-    // Create multiple items
-    for (const item of items) {
-      await request(app).post("/items").send(item).expect(201);
-    }
+    slow.req.end(slow.rest);
+    const response = await slow.response;
 
-    // Get all items
-    const response = await request(app).get("/items").expect(200);
+    expect(response.statusCode).toBe(201);
+    expect(response.headers["connection"]).toBe("close");
+    response.resume();
 
-    expect(response.body).toHaveLength(3);
-    expect(response.body.map((item: any) => item.name)).toEqual([
-      "Item 1",
-      "Item 2",
-      "Item 3",
-    ]);
+    await shutdown;
+    expect(closed).toBe(true);
   });
 
-  it("should maintain data consistency", async () => {
-    // Create initial item
-    await request(app)
-      .post("/items")
-      .send({ name: "Consistency Test", description: "Testing consistency" })
-      .expect(201);
-
-    // Get count
-    let response = await request(app).get("/items").expect(200);
+  it("should close remaining connections after the timeout", async () => {
+    await startServer(50);
+    const slow = startSlowRequest();
+    await new Promise((resolve) => setTimeout(resolve, 20));
 
-    expect(response.body).toHaveLength(1);
+    await app.shutdown();
 
-    // Update item
-    await request(app)
-      .put("/items/1")
-      .send({ name: "Updated Consistency Test", description: "Still testing" })
-      .expect(200);
+    expect(closed).toBe(true);
+    await expect(slow.response).rejects.toThrow();
+  });
 
-    // Verify count unchanged
-    response = await request(app).get("/items").expect(200);
+  it("should close idle keep-alive connections right away", async () => {
+    await startServer(5000);
+    const agent = new http.Agent({ keepAlive: true });
+
+    await new Promise<void>((resolve, reject) => {
+      http
+        .get({ port, path: "/items", agent }, (res) => {
+          res.resume();
+          res.on("end", resolve);
+        })
+        .on("error", reject);
+    });
 
-    expect(response.body).toHaveLength(1);
-    expect(response.body[0].name).toBe("Updated Consistency Test");
+    const startedAt = Date.now();
+    await app.shutdown();
 
-    // Delete item
-    await request(app).delete("/items/1").expect(200);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(closed).toBe(true);
+    agent.destroy();
+  });
 
-    // Verify empty
-    response = await request(app).get("/items").expect(200);
+  it("should refuse new connections while shutting down", async () => {
+    await startServer(5000);
+    await app.shutdown();
 
-    expect(response.body).toHaveLength(0);
+    await expect(
+      new Promise((resolve, reject) =>
+        http.get({ port, path: "/items" }, resolve).on("error", reject)
+      )
+    ).rejects.toThrow(/ECONNREFUSED/);
   });
 });
@@ -1,237 +1,1836 @@
 import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { ParsedUrlQuery } from "node:querystring";
+import { pipeline, Readable } from "node:stream";
 import url from "node:url";
+import {
+  createMemoryApiKeyStore,
+  createSqliteApiKeyStore,
+  type ApiKeyStore,
+} from "./apikeys.js";
+import { AuthError, createAuthenticator, type Identity } from "./auth.js";
+import { BodyError, mediaType, readJsonBody } from "./body.js";
+import {
+  parseBulkMode,
+  runBulk,
+  validateBulkBody,
+  type BulkOutcome,
+} from "./bulk.js";
+import {
+  httpDate,
+  itemETag,
+  matchesIfMatch,
+  matchesIfNoneMatch,
+  notModifiedSince,
+  secondIsOver,
+} from "./conditional.js";
+import { defaultConfig, type Config } from "./config.js";
+import { formatServerSentEvent, toChangeMessage } from "./events.js";
+import {
+  itemFormats,
+  JSON_TYPE,
+  listMediaTypes,
+  negotiate,
+  type ItemFormat,
+} from "./formats.js";
+import {
+  createCsvParser,
+  createImporter,
+  createNdjsonParser,
+  importMediaTypes,
+  parseImportParams,
+} from "./import.js";
+import { buildLinkHeader, parseListParams, single } from "./list.js";
+import {
+  createLogger,
+  logAccess,
+  resolveRequestId,
+  type Logger,
+  type LogSink,
+} from "./logger.js";
+import { buildOpenApiDocument, type OpenApiDocument } from "./openapi.js";
+import { applyJsonPatch, applyMergePatch, PatchError } from "./patch.js";
+import {
+  identifyCaller as defaultIdentifyCaller,
+  isAllowed,
+  type Action,
+  type Caller,
+  type IdentifyCaller,
+} from "./permissions.js";
+import {
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  createSqliteRateLimitStore,
+  type RateLimitDecision,
+  type RateLimitStore,
+} from "./ratelimit.js";
+import {
+  appendVary,
+  enableCompression,
+  sendJson,
+  sendNotModified,
+  startBody,
+} from "./response.js";
+import { parseSearchParams } from "./search.js";
+import { createRouter, type BaseContext } from "./router.js";
+import {
+  bulkDeleteSchema,
+  bulkUpdateSchema,
+  itemInputSchema,
+  revertSchema,
+  webhookInputSchema,
+  webhookUpdateSchema,
+} from "./schemas.js";
+import {
+  VersionConflictError,
+  type Item,
+  type ItemCursor,
+  type ItemEvent,
+  type ItemEventType,
+  type ItemInput,
+  type ItemStore,
+  type WriteOptions,
+} from "./store.js";
+import { createMemoryItemStore } from "./store.memory.js";
+import { createSqliteItemStore } from "./store.sql.js";
+import {
+  validate,
+  type ObjectSchema,
+  type ValidationError,
+} from "./validation.js";
+import {
+  createMemoryWebhookStore,
+  createSqliteWebhookStore,
+  createWebhookDispatcher,
+  type Webhook,
+  type WebhookChanges,
+  type WebhookStore,
+} from "./webhooks.js";
+import {
+  acceptWebSocket,
+  isWebSocketUpgrade,
+  rejectUpgrade,
+} from "./websocket.js";
 
-// In-memory storage
-type Item = {
-  id: number;
-  name: string;
-  description: string;
+// How often idle event streams send a comment to keep proxies from closing
+// them
+const heartbeatInterval = 15_000;
+
+// Most events a resuming change stream replays. A stream further behind
+// ends after this many, and the client resumes from the last one it got.
+const backlogLimit = 1000;
+
+export type MyServerOptions = Partial<Config> & {
+  // Defaults to an SQLite store at dbPath, or an in-memory store
+  store?: ItemStore;
+  // Defaults to an SQLite key store at dbPath, or an in-memory one
+  apiKeys?: ApiKeyStore;
+  // Decides who a request acts for and with which role
+  identifyCaller?: IdentifyCaller;
+  // Defaults to an SQLite bucket store at dbPath when rateLimits are set,
+  // or an in-memory one
+  rateLimitStore?: RateLimitStore;
+  // Defaults to an SQLite webhook store at dbPath, or an in-memory one
+  webhookStore?: WebhookStore;
+  // Current time in milliseconds; replaced by a fake clock in tests
+  now?: () => number;
+  // Where structured logs are written; JSON lines on stdout by default
+  logSink?: LogSink;
 };
-let items: Item[] = [];
-let nextId = 1;
 
-export const createMyServer = (): http.Server => {
-  // Input validation helper
-  const validateItemInput = (
-    data: any
-  ): { isValid: boolean; errors: string[] } => {
-    const errors: string[] = [];
+// Per-request values passed to every route handler
+type RequestContext = BaseContext & {
+  query: ParsedUrlQuery;
+  requestId: string;
+  // Logger that tags entries with the request ID and subject
+  log: Logger;
+  // Undefined for anonymous requests
+  identity?: Identity;
+  caller?: Caller;
+};
 
-    if (!data) {
-      errors.push("Request body is required");
-      return { isValid: false, errors };
-    }
+export type MyServer = http.Server & {
+  store: ItemStore;
+  apiKeys: ApiKeyStore;
+  webhooks: WebhookStore;
+  // OpenAPI 3.1 description of every route, as served at /openapi.json
+  openApiDocument: OpenApiDocument;
+  // Permanently delete items trashed more than trashRetentionDays ago.
+  // Runs hourly once started; returns how many items were purged.
+  purgeExpiredTrash(): number;
+  // Attempt every due webhook delivery once. Runs every second once
+  // started, and right after item changes; resolves with how many
+  // deliveries were attempted.
+  deliverWebhooks(): Promise<number>;
+  // Listen on the configured port and host
+  start(): Promise<AddressInfo>;
+  // Stop accepting connections, wait up to shutdownTimeout for in-flight
+  // requests, close the remaining sockets, then close the store
+  shutdown(): Promise<void>;
+};
+
+export const createMyServer = (options: MyServerOptions = {}): MyServer => {
+  const {
+    port = defaultConfig.port,
+    host = defaultConfig.host,
+    dbPath = defaultConfig.dbPath,
+    corsOrigins = defaultConfig.corsOrigins,
+    maxBodySize = defaultConfig.maxBodySize,
+    logLevel = defaultConfig.logLevel,
+    shutdownTimeout = defaultConfig.shutdownTimeout,
+    requireAuth = defaultConfig.requireAuth,
+    jwtSecret = defaultConfig.jwtSecret,
+    rateLimits = defaultConfig.rateLimits,
+    trashRetentionDays = defaultConfig.trashRetentionDays,
+    webhookTimeout = defaultConfig.webhookTimeout,
+    webhookMaxAttempts = defaultConfig.webhookMaxAttempts,
+    webhookDisableAfter = defaultConfig.webhookDisableAfter,
+    compression = defaultConfig.compression,
+    compressionThreshold = defaultConfig.compressionThreshold,
+    cacheControl = defaultConfig.cacheControl,
+    now = Date.now,
+  } = options;
+
+  const store =
+    options.store ??
+    (dbPath !== undefined
+      ? createSqliteItemStore(dbPath, { now })
+      : createMemoryItemStore({ now }));
+
+  const apiKeys =
+    options.apiKeys ??
+    (dbPath !== undefined
+      ? createSqliteApiKeyStore(dbPath)
+      : createMemoryApiKeyStore());
+
+  const identifyCaller = options.identifyCaller ?? defaultIdentifyCaller;
+
+  const rateLimitStore =
+    options.rateLimitStore ??
+    (dbPath !== undefined && rateLimits.length > 0
+      ? createSqliteRateLimitStore(dbPath)
+      : createMemoryRateLimitStore());
+
+  const rateLimit = createRateLimiter({
+    rules: rateLimits,
+    store: rateLimitStore,
+    now,
+  });
+
+  const { authenticate, challenge } = createAuthenticator({
+    apiKeys,
+    jwtSecret,
+  });
+
+  const logger = createLogger({ level: logLevel, sink: options.logSink });
 
-    if (
-      !data.name ||
-      typeof data.name !== "string" ||
-      data.name.trim().length === 0
-    ) {
-      errors.push("Name is required and must be a non-empty string");
+  const webhooks =
+    options.webhookStore ??
+    (dbPath !== undefined
+      ? createSqliteWebhookStore(dbPath)
+      : createMemoryWebhookStore());
+
+  const webhookDispatcher = createWebhookDispatcher({
+    store: webhooks,
+    log: logger,
+    timeout: webhookTimeout,
+    maxAttempts: webhookMaxAttempts,
+    disableAfter: webhookDisableAfter,
+    now,
+  });
+
+  let deliveryTimer: NodeJS.Timeout | undefined;
+  // The latest delivery run, so shutdown can wait for it
+  let delivering: Promise<unknown> = Promise.resolve();
+
+  const runDeliveries = () => {
+    delivering = webhookDispatcher.deliver().catch((error) => {
+      logger.error("Webhook delivery failed", { error });
+    });
+  };
+
+  // Every committed item change is queued for the webhooks subscribed to
+  // it. Failures must not fail the write, which has already happened.
+  store.subscribe((event) => {
+    try {
+      webhookDispatcher.enqueue(event);
+    } catch (error) {
+      logger.error("Webhook enqueue failed", { error });
+      return;
+    }
+    if (deliveryTimer) {
+      setImmediate(runDeliveries);
     }
+  });
+
+  const sendValidationError = (
+    res: http.ServerResponse,
+    errors: ValidationError[]
+  ) => {
+    sendJson(res, 400, { error: "Validation failed", details: errors });
+  };
+
+  const sendUnauthorized = (
+    res: http.ServerResponse,
+    message: string,
+    wwwAuthenticate: string
+  ) => {
+    sendJson(
+      res,
+      401,
+      { error: message },
+      {
+        "WWW-Authenticate": wwwAuthenticate,
+      }
+    );
+  };
+
+  // Anonymous callers only write while there are no credentials to use
+  // instead
+  const permits = (caller: Caller | undefined, action: Action, item?: Item) =>
+    isAllowed(caller, action, item, {
+      anonymousWrites:
+        caller !== undefined || (!jwtSecret && !apiKeys.hasActiveKeys()),
+    });
 
-    if (
-      !data.description ||
-      typeof data.description !== "string" ||
-      data.description.trim().length === 0
-    ) {
-      errors.push("Description is required and must be a non-empty string");
+  // Answer 403 unless caller may perform action (on item), or 401 for
+  // anonymous callers, who might be allowed once authenticated
+  const authorize = (
+    res: http.ServerResponse,
+    caller: Caller | undefined,
+    action: Action,
+    item?: Item
+  ) => {
+    if (permits(caller, action, item)) {
+      return true;
     }
+    if (caller) {
+      sendJson(res, 403, { error: "Forbidden" });
+    } else {
+      sendUnauthorized(res, "Authentication required", challenge);
+    }
+    return false;
+  };
+
+  const sendTooManyRequests = (
+    res: http.ServerResponse,
+    decision: RateLimitDecision
+  ) => {
+    sendJson(res, 429, { error: "Too many requests" }, decision.headers);
+  };
+
+  // Rate limit a request by address before authenticating it, so failed
+  // attempts count too. Requests with credentials have buckets of their own,
+  // so anonymous traffic from an address cannot lock out its valid keys.
+  const limitAddress = (
+    req: http.IncomingMessage,
+    path: string,
+    cost?: number
+  ) =>
+    rateLimit(
+      req.method!,
+      path,
+      `${req.headers.authorization === undefined ? "ip" : "credentials"}:${
+        req.socket.remoteAddress
+      }`,
+      cost
+    );
+
+  // Once authenticated, a request is limited per identity instead
+  const limitIdentity = (
+    req: http.IncomingMessage,
+    path: string,
+    identity: Identity
+  ) => {
+    limitAddress(req, path, -1);
+    return rateLimit(
+      req.method!,
+      path,
+      `${identity.scheme}:${identity.subject}`
+    );
+  };
+
+  const sendInternalError = (
+    res: http.ServerResponse,
+    log: Logger,
+    error: unknown
+  ) => {
+    log.error("Database error", { error });
+    sendJson(res, 500, { error: "Internal server error" });
+  };
+
+  // Media types accepted by PATCH and how to apply them
+  const patchFormats: Record<
+    string,
+    (target: unknown, patch: unknown) => unknown
+  > = {
+    "application/merge-patch+json": applyMergePatch,
+    "application/json-patch+json": applyJsonPatch,
+  };
+
+  // True when an If-Match header is present and does not match the item
+  const failsIfMatch = (req: http.IncomingMessage, item: Item) => {
+    const ifMatch = req.headers["if-match"];
+    return ifMatch !== undefined && !matchesIfMatch(ifMatch, itemETag(item));
+  };
+
+  // Conditional requests make the store re-check the version on write, so a
+  // concurrent change between reading and writing still fails. The caller
+  // is recorded in the item's history.
+  const writeOptions = (
+    req: http.IncomingMessage,
+    item: Item,
+    caller: Caller | undefined
+  ): WriteOptions => ({
+    ...(req.headers["if-match"] !== undefined && {
+      expectedVersion: item.version,
+    }),
+    actor: caller?.id,
+  });
 
-    if (data.name && typeof data.name === "string" && data.name.length > 100) {
-      errors.push("Name must be 100 characters or less");
+  const sendPreconditionFailed = (res: http.ServerResponse) => {
+    sendJson(res, 412, { error: "Precondition failed" });
+  };
+
+  // Event ID a change stream resumes after: the Last-Event-ID header sent
+  // by reconnecting EventSource clients, or ?lastEventId= (for clients that
+  // cannot set headers). Undefined for new streams, which only get new
+  // events; NaN when invalid.
+  const resumeAfter = (req: http.IncomingMessage, query: ParsedUrlQuery) => {
+    const header = req.headers["last-event-id"];
+    const value =
+      typeof header === "string" ? header : single(query, "lastEventId");
+
+    if (value === undefined) {
+      return undefined;
     }
+    return /^\d+$/.test(value) ? Number(value) : NaN;
+  };
 
-    if (
-      data.description &&
-      typeof data.description === "string" &&
-      data.description.length > 500
-    ) {
-      errors.push("Description must be 500 characters or less");
+  // Events a change stream replays before going live. complete is false
+  // when more than backlogLimit are missing; the stream then ends after
+  // replaying the first backlogLimit.
+  const readBacklog = (after: number | undefined) => {
+    if (after === undefined) {
+      return { events: [], complete: true };
     }
 
-    return { isValid: errors.length === 0, errors };
+    const events = store.eventsAfter(after, backlogLimit + 1);
+    return {
+      events: events.slice(0, backlogLimit),
+      complete: events.length <= backlogLimit,
+    };
   };
 
-  const server = http.createServer((req, res) => {
-    // CORS headers
-    res.setHeader("Access-Control-Allow-Origin", "*");
-    res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  // Open change streams, by the function that ends each one
+  const changeStreams = new Set<() => void>();
 
-    if (req.method === "OPTIONS") {
-      res.writeHead(200);
+  // Item IDs are positive decimal integers; anything else is rejected
+  const parseItemId = (value: string) =>
+    /^\d+$/.test(value) ? Number(value) : NaN;
+
+  // Parse a JSON request body, answering 413/415/400 itself when the body
+  // is rejected
+  const readBody = (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    callback: (data: unknown) => void,
+    contentTypes?: string[]
+  ) => {
+    readJsonBody(req, { maxSize: maxBodySize, contentTypes }, (error, data) => {
+      if (!error) {
+        callback(data);
+        return;
+      }
+
+      if (error.statusCode === 413) {
+        // Stop receiving the rest of an oversized upload
+        sendJson(res, 413, { error: error.message }, { Connection: "close" });
+        res.on("finish", () => req.destroy());
+      } else {
+        sendJson(res, error.statusCode, { error: error.message });
+      }
+    });
+  };
+
+  const router = createRouter<RequestContext>();
+
+  // Write a page of items in a non-JSON format row by row, reading them
+  // from the store only as fast as the client takes them
+  const streamItems = (
+    res: http.ServerResponse,
+    log: Logger,
+    headers: http.OutgoingHttpHeaders,
+    format: ItemFormat,
+    items: Iterable<Item>
+  ) => {
+    const rows = function* () {
+      yield format.start;
+      for (const item of items) {
+        yield format.row(item);
+      }
+      yield format.end;
+    };
+
+    pipeline(Readable.from(rows()), startBody(res, 200, headers), (error) => {
+      if (!error) {
+        return;
+      }
+      // A client that went away is no error of ours
+      if (
+        (error as NodeJS.ErrnoException).code !== "ERR_STREAM_PREMATURE_CLOSE"
+      ) {
+        log.error("Database error", { error });
+      }
+      // Too late for an error response; cut the body short instead
+      res.destroy();
+    });
+  };
+
+  // Paginated, sorted and filtered list of active or trashed items, as JSON
+  // or any other representation in listMediaTypes
+  const listItems =
+    (path: string, deleted: boolean) =>
+    ({ req, res, query, log, caller }: RequestContext) => {
+      appendVary(res, "Accept");
+      const responseType = negotiate(req.headers.accept, listMediaTypes);
+
+      if (!responseType) {
+        sendJson(res, 406, {
+          error: `Not acceptable; available types are ${listMediaTypes.join(
+            ", "
+          )}`,
+        });
+        return;
+      }
+
+      const { params, errors } = parseListParams(query);
+
+      if (!params) {
+        sendJson(res, 400, {
+          error: "Invalid query parameters",
+          details: errors,
+        });
+        return;
+      }
+
+      if (params.ownerId === "me") {
+        if (!caller) {
+          sendJson(res, 400, {
+            error: "Invalid query parameters",
+            details: [
+              {
+                field: "owner",
+                code: "invalid_value",
+                message: "owner=me needs an authenticated caller",
+              },
+            ],
+          });
+          return;
+        }
+        params.ownerId = caller.id;
+      }
+
+      try {
+        // Any item change may change any listing. Dates are only given out
+        // (and compared) once no further change can share them.
+        const changedAt = store.lastModified();
+        const lastModified =
+          changedAt !== undefined && secondIsOver(changedAt, now())
+            ? changedAt
+            : undefined;
+        const cacheHeaders = {
+          "Cache-Control": cacheControl,
+          ...(lastModified && { "Last-Modified": httpDate(lastModified) }),
+        };
+        const ifModifiedSince = req.headers["if-modified-since"];
+
+        if (
+          lastModified &&
+          ifModifiedSince !== undefined &&
+          req.headers["if-none-match"] === undefined &&
+          notModifiedSince(ifModifiedSince, lastModified)
+        ) {
+          // The 200 this stands for would have varied on Accept-Encoding
+          if (compression) {
+            appendVary(res, "Accept-Encoding");
+          }
+          res.writeHead(304, cacheHeaders);
+          res.end();
+          return;
+        }
+
+        const { after: afterId, ...rest } = params;
+        let after: ItemCursor | undefined;
+
+        if (afterId !== undefined) {
+          // A purged cursor item still works when ordering by id alone
+          after =
+            store.get(afterId) ??
+            store.getDeleted(afterId) ??
+            (rest.sort.every(({ field }) => field === "id")
+              ? { id: afterId }
+              : undefined);
+
+          if (!after) {
+            sendJson(res, 400, {
+              error: "Invalid query parameters",
+              details: [
+                {
+                  field: "after",
+                  code: "not_found",
+                  message: "after must reference an existing item",
+                },
+              ],
+            });
+            return;
+          }
+        }
+
+        if (responseType !== JSON_TYPE) {
+          const page = store.iterate({ ...rest, after, deleted });
+          const link = buildLinkHeader(path, query, params, page);
+
+          streamItems(
+            res,
+            log,
+            {
+              ...cacheHeaders,
+              "Content-Type": `${responseType}; charset=utf-8`,
+              "X-Total-Count": page.total,
+              ...(link && { Link: link }),
+            },
+            itemFormats[responseType],
+            page.items
+          );
+          return;
+        }
+
+        const result = store.list({ ...rest, after, deleted });
+        const link = buildLinkHeader(path, query, params, {
+          hasMore: result.hasMore,
+          lastItem: result.items[result.items.length - 1],
+        });
+
+        sendJson(res, 200, result.items, {
+          ...cacheHeaders,
+          "X-Total-Count": result.total,
+          ...(link && { Link: link }),
+        });
+      } catch (error) {
+        if (res.headersSent) {
+          // Too late for an error response; cut the body short instead
+          log.error("Database error", { error });
+          res.destroy();
+        } else {
+          sendInternalError(res, log, error);
+        }
+      }
+    };
+
+  // READ - GET /items
+  router.get("/items", listItems("/items", false));
+
+  // TRASH - GET /items/trash (deleted items, same parameters as GET /items)
+  router.get("/items/trash", listItems("/items/trash", true));
+
+  // EVENTS - GET /items/events (Server-Sent Events stream of item changes)
+  router.get("/items/events", ({ req, res, query, log }) => {
+    const after = resumeAfter(req, query);
+
+    if (Number.isNaN(after)) {
+      sendJson(res, 400, { error: "Invalid Last-Event-ID" });
+      return;
+    }
+
+    let backlog;
+
+    try {
+      backlog = readBacklog(after);
+    } catch (error) {
+      sendInternalError(res, log, error);
+      return;
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    });
+    res.flushHeaders();
+
+    // Writes are synchronous, so no event falls between backlog and
+    // subscription
+    const send = (event: ItemEvent) => {
+      res.write(formatServerSentEvent(toChangeMessage(event)));
+    };
+    backlog.events.forEach(send);
+
+    if (!backlog.complete) {
       res.end();
       return;
     }
 
-    const parsedUrl = url.parse(req.url!, true);
-    const path = parsedUrl.pathname;
-    const method = req.method;
+    const unsubscribe = store.subscribe(send);
+    const heartbeat = setInterval(() => res.write(":\n\n"), heartbeatInterval);
+    const end = () => res.end();
+
+    changeStreams.add(end);
+    res.on("close", () => {
+      unsubscribe();
+      clearInterval(heartbeat);
+      changeStreams.delete(end);
+    });
+  });
+
+  // SEARCH - GET /items/search?q= (full-text, most relevant first)
+  router.get("/items/search", ({ res, query, log }) => {
+    const { params, errors } = parseSearchParams(query);
+
+    if (!params) {
+      sendJson(res, 400, {
+        error: "Invalid query parameters",
+        details: errors,
+      });
+      return;
+    }
 
-    console.log(`${method} ${path}`);
+    try {
+      const { hits, total } = store.search(params);
+      sendJson(res, 200, hits, {
+        "Cache-Control": cacheControl,
+        "X-Total-Count": total,
+      });
+    } catch (error) {
+      sendInternalError(res, log, error);
+    }
+  });
+
+  // Shared flow of the bulk routes: check ?mode, read and check the array
+  // body, then apply every element through runBulk
+  const handleBulk = <T>(
+    { req, res, query, log }: RequestContext,
+    schema: ObjectSchema,
+    apply: (value: T) => BulkOutcome
+  ) => {
+    const { mode, errors } = parseBulkMode(query);
 
-    // READ - GET /items (get all)
-    if (method === "GET" && path === "/items") {
-      res.writeHead(200, { "Content-Type": "application/json" });
-      res.end(JSON.stringify(items));
+    if (!mode) {
+      sendJson(res, 400, {
+        error: "Invalid query parameters",
+        details: errors,
+      });
       return;
     }
 
-    // READ - GET /items/:id (get one)
-    if (method === "GET" && path?.startsWith("/items/")) {
-      const id = parseInt(path.split("/")[2]);
+    readBody(req, res, (data) => {
+      const bodyErrors = validateBulkBody(data);
 
-      if (isNaN(id)) {
-        res.writeHead(400, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ error: "Invalid item ID" }));
+      if (bodyErrors.length > 0) {
+        sendValidationError(res, bodyErrors);
         return;
       }
 
-      const item = items.find((item) => item.id === id);
+      try {
+        const { statusCode, body } = runBulk(
+          store,
+          mode,
+          data as unknown[],
+          schema,
+          apply
+        );
+        sendJson(res, statusCode, body);
+      } catch (error) {
+        sendInternalError(res, log, error);
+      }
+    });
+  };
 
-      if (item) {
-        res.writeHead(200, { "Content-Type": "application/json" });
-        res.end(JSON.stringify(item));
-      } else {
-        res.writeHead(404, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ error: "Item not found" }));
+  // Check that caller may change item `id`, then map store outcomes of the
+  // write to a bulk result
+  const bulkWrite = (
+    caller: Caller | undefined,
+    id: number,
+    action: Action,
+    write: () => Item | undefined
+  ): BulkOutcome => {
+    const existingItem = store.get(id);
+
+    if (!existingItem) {
+      return { status: 404, error: "Item not found" };
+    }
+    if (!permits(caller, action, existingItem)) {
+      return { status: 403, error: "Forbidden" };
+    }
+
+    try {
+      const item = write();
+      return item
+        ? { status: 200, item }
+        : { status: 404, error: "Item not found" };
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        return { status: 412, error: "Precondition failed" };
       }
+      throw error;
+    }
+  };
+
+  // BULK CREATE - POST /items/bulk
+  router.post("/items/bulk", (ctx) => {
+    if (!authorize(ctx.res, ctx.caller, "create")) {
       return;
     }
 
-    // CREATE - POST /items
-    if (method === "POST" && path === "/items") {
-      let body = "";
+    handleBulk<ItemInput>(ctx, itemInputSchema, (input) => ({
+      status: 201,
+      item: store.create(input, {
+        ownerId: ctx.caller?.id,
+        actor: ctx.caller?.id,
+      }),
+    }));
+  });
+
+  // BULK UPDATE - PUT /items/bulk
+  router.put("/items/bulk", (ctx) => {
+    handleBulk<ItemInput & { id: number; version?: number }>(
+      ctx,
+      bulkUpdateSchema,
+      ({ id, version, ...input }) =>
+        bulkWrite(ctx.caller, id, "update", () =>
+          store.update(id, input, {
+            expectedVersion: version,
+            actor: ctx.caller?.id,
+          })
+        )
+    );
+  });
+
+  // BULK DELETE - DELETE /items/bulk
+  router.delete("/items/bulk", (ctx) => {
+    handleBulk<{ id: number; version?: number }>(
+      ctx,
+      bulkDeleteSchema,
+      ({ id, version }) =>
+        bulkWrite(ctx.caller, id, "delete", () =>
+          store.delete(id, {
+            expectedVersion: version,
+            actor: ctx.caller?.id,
+          })
+        )
+    );
+  });
 
-      req.on("data", (chunk) => {
-        body += chunk.toString();
+  // IMPORT - POST /items/import (CSV or NDJSON upload, parsed as it
+  // arrives and written in batches)
+  router.post("/items/import", ({ req, res, query, log, caller }) => {
+    if (!authorize(res, caller, "create")) {
+      return;
+    }
+
+    const { params, errors } = parseImportParams(query);
+
+    if (!params) {
+      sendJson(res, 400, {
+        error: "Invalid query parameters",
+        details: errors,
       });
+      return;
+    }
 
-      req.on("end", () => {
+    const type = mediaType(req);
+
+    if (!type || !importMediaTypes.includes(type)) {
+      sendJson(res, 415, {
+        error: `Content-Type must be one of ${importMediaTypes.join(", ")}`,
+      });
+      return;
+    }
+
+    const parser =
+      type === "text/csv"
+        ? createCsvParser(maxBodySize)
+        : createNdjsonParser(maxBodySize);
+    const importer = createImporter(store, params, caller);
+    let failed = false;
+
+    // Answer right away with what was imported so far and stop receiving
+    // the rest of the upload
+    const abort = (error: unknown) => {
+      failed = true;
+      const report = importer.interrupt();
+
+      if (error instanceof BodyError) {
+        sendJson(
+          res,
+          error.statusCode,
+          { error: error.message, report },
+          { Connection: "close" }
+        );
+      } else {
+        log.error("Database error", { error });
+        sendJson(
+          res,
+          500,
+          { error: "Internal server error", report },
+          { Connection: "close" }
+        );
+      }
+      res.on("finish", () => req.destroy());
+    };
+
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => {
+      if (failed) {
+        return;
+      }
+      try {
+        parser.push(chunk).forEach(importer.add);
+      } catch (error) {
+        abort(error);
+      }
+    });
+    req.on("end", () => {
+      if (failed) {
+        return;
+      }
+      try {
+        parser.end().forEach(importer.add);
+        sendJson(res, 200, importer.finish());
+      } catch (error) {
+        abort(error);
+      }
+    });
+    // No one is left to answer, so record what was imported
+    req.on("close", () => {
+      if (failed || req.complete) {
+        return;
+      }
+      failed = true;
+      log.warn("Import aborted by the client", {
+        report: importer.interrupt(),
+      });
+    });
+  });
+
+  // READ - GET /items/:id (get one)
+  router.get("/items/:id", ({ req, res, params, log }) => {
+    const id = parseItemId(params.id);
+
+    if (isNaN(id)) {
+      sendJson(res, 400, { error: "Invalid item ID" });
+      return;
+    }
+
+    try {
+      const item = store.get(id);
+
+      if (!item) {
+        sendJson(res, 404, { error: "Item not found" });
+        return;
+      }
+
+      const etag = itemETag(item);
+      const ifNoneMatch = req.headers["if-none-match"];
+
+      if (ifNoneMatch !== undefined && matchesIfNoneMatch(ifNoneMatch, etag)) {
+        sendNotModified(res, item, {
+          ETag: etag,
+          "Cache-Control": cacheControl,
+        });
+        return;
+      }
+
+      sendJson(res, 200, item, { ETag: etag, "Cache-Control": cacheControl });
+    } catch (error) {
+      sendInternalError(res, log, error);
+    }
+  });
+
+  // CREATE - POST /items
+  router.post("/items", ({ req, res, log, caller }) => {
+    if (!authorize(res, caller, "create")) {
+      return;
+    }
+
+    readBody(req, res, (data) => {
+      try {
+        const { value: input, errors } = validate<ItemInput>(
+          itemInputSchema,
+          data
+        );
+
+        if (!input) {
+          sendValidationError(res, errors);
+          return;
+        }
+
+        const newItem = store.create(input, {
+          ownerId: caller?.id,
+          actor: caller?.id,
+        });
+
+        sendJson(res, 201, newItem, { ETag: itemETag(newItem) });
+      } catch (error) {
+        sendInternalError(res, log, error);
+      }
+    });
+  });
+
+  // UPDATE - PUT /items/:id
+  router.put("/items/:id", ({ req, res, params, log, caller }) => {
+    const id = parseItemId(params.id);
+
+    if (isNaN(id)) {
+      sendJson(res, 400, { error: "Invalid item ID" });
+      return;
+    }
+
+    readBody(req, res, (data) => {
+      try {
+        // First check if item exists
+        const existingItem = store.get(id);
+
+        if (!existingItem) {
+          sendJson(res, 404, { error: "Item not found" });
+          return;
+        }
+
+        if (!authorize(res, caller, "update", existingItem)) {
+          return;
+        }
+
+        if (failsIfMatch(req, existingItem)) {
+          sendPreconditionFailed(res);
+          return;
+        }
+
+        const { value: input, errors } = validate<ItemInput>(
+          itemInputSchema,
+          data
+        );
+
+        if (!input) {
+          sendValidationError(res, errors);
+          return;
+        }
+
+        const updatedItem = store.update(
+          id,
+          input,
+          writeOptions(req, existingItem, caller)
+        );
+
+        if (!updatedItem) {
+          sendJson(res, 404, { error: "Item not found" });
+          return;
+        }
+
+        sendJson(res, 200, updatedItem, { ETag: itemETag(updatedItem) });
+      } catch (error) {
+        if (error instanceof VersionConflictError) {
+          sendPreconditionFailed(res);
+        } else {
+          sendInternalError(res, log, error);
+        }
+      }
+    });
+  });
+
+  // UPDATE - PATCH /items/:id (partial update)
+  router.patch("/items/:id", ({ req, res, params, log, caller }) => {
+    const id = parseItemId(params.id);
+
+    if (isNaN(id)) {
+      sendJson(res, 400, { error: "Invalid item ID" });
+      return;
+    }
+
+    const applyPatch = patchFormats[mediaType(req) ?? ""];
+
+    if (!applyPatch) {
+      sendJson(
+        res,
+        415,
+        { error: "Unsupported patch format" },
+        { "Accept-Patch": Object.keys(patchFormats).join(", ") }
+      );
+      return;
+    }
+
+    readBody(
+      req,
+      res,
+      (patch) => {
         try {
-          const data = body ? JSON.parse(body) : undefined;
-          const validation = validateItemInput(data);
-
-          if (!validation.isValid) {
-            res.writeHead(400, { "Content-Type": "application/json" });
-            res.end(
-              JSON.stringify({
-                error: "Validation failed",
-                details: validation.errors,
-              })
-            );
+          const existingItem = store.get(id);
+
+          if (!existingItem) {
+            sendJson(res, 404, { error: "Item not found" });
             return;
           }
 
-          const newItem = {
-            id: nextId++,
-            name: data.name.trim(),
-            description: data.description.trim(),
-          };
+          if (!authorize(res, caller, "update", existingItem)) {
+            return;
+          }
+
+          if (failsIfMatch(req, existingItem)) {
+            sendPreconditionFailed(res);
+            return;
+          }
+
+          const {
+            id: _id,
+            version: _version,
+            ownerId: _ownerId,
+            ...current
+          } = existingItem;
+          const data = applyPatch(current, patch);
+
+          // Only the patched result has to be a valid item
+          const { value: input, errors } = validate<ItemInput>(
+            itemInputSchema,
+            data
+          );
+
+          if (!input) {
+            sendValidationError(res, errors);
+            return;
+          }
+
+          const updatedItem = store.update(
+            id,
+            input,
+            writeOptions(req, existingItem, caller)
+          );
+
+          if (!updatedItem) {
+            sendJson(res, 404, { error: "Item not found" });
+            return;
+          }
 
-          items.push(newItem);
-          res.writeHead(201, { "Content-Type": "application/json" });
-          res.end(JSON.stringify(newItem));
+          sendJson(res, 200, updatedItem, { ETag: itemETag(updatedItem) });
         } catch (error) {
-          res.writeHead(400, { "Content-Type": "application/json" });
-          res.end(JSON.stringify({ error: "Invalid JSON" }));
+          if (error instanceof VersionConflictError) {
+            sendPreconditionFailed(res);
+          } else if (error instanceof PatchError) {
+            sendJson(res, error.conflict ? 409 : 400, {
+              error: "Invalid patch",
+              details: [error.message],
+            });
+          } else {
+            sendInternalError(res, log, error);
+          }
         }
-      });
+      },
+      Object.keys(patchFormats)
+    );
+  });
+
+  // DELETE - DELETE /items/:id
+  router.delete("/items/:id", ({ req, res, params, log, caller }) => {
+    const id = parseItemId(params.id);
 
+    if (isNaN(id)) {
+      sendJson(res, 400, { error: "Invalid item ID" });
       return;
     }
 
-    // UPDATE - PUT /items/:id
-    if (method === "PUT" && path?.startsWith("/items/")) {
-      const id = parseInt(path.split("/")[2]);
+    try {
+      const existingItem = store.get(id);
 
-      if (isNaN(id)) {
-        res.writeHead(400, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ error: "Invalid item ID" }));
+      if (!existingItem) {
+        sendJson(res, 404, { error: "Item not found" });
         return;
       }
 
-      const itemIndex = items.findIndex((item) => item.id === id);
+      if (!authorize(res, caller, "delete", existingItem)) {
+        return;
+      }
 
-      if (itemIndex === -1) {
-        res.writeHead(404, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ error: "Item not found" }));
+      if (failsIfMatch(req, existingItem)) {
+        sendPreconditionFailed(res);
         return;
       }
 
-      let body = "";
+      const deletedItem = store.delete(
+        id,
+        writeOptions(req, existingItem, caller)
+      );
 
-      req.on("data", (chunk) => {
-        body += chunk.toString();
-      });
+      if (deletedItem) {
+        sendJson(res, 200, { message: "Item deleted", item: deletedItem });
+      } else {
+        sendJson(res, 404, { error: "Item not found" });
+      }
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        sendPreconditionFailed(res);
+      } else {
+        sendInternalError(res, log, error);
+      }
+    }
+  });
 
-      req.on("end", () => {
-        try {
-          const data = body ? JSON.parse(body) : undefined;
-          const validation = validateItemInput(data);
-
-          if (!validation.isValid) {
-            res.writeHead(400, { "Content-Type": "application/json" });
-            res.end(
-              JSON.stringify({
-                error: "Validation failed",
-                details: validation.errors,
-              })
-            );
-            return;
+  // HISTORY - GET /items/:id/history (every change, oldest first; kept
+  // after the item is purged)
+  router.get("/items/:id/history", ({ res, params, log, caller }) => {
+    const id = parseItemId(params.id);
+
+    if (isNaN(id)) {
+      sendJson(res, 400, { error: "Invalid item ID" });
+      return;
+    }
+
+    try {
+      const events = store.history(id);
+
+      if (events.length === 0) {
+        sendJson(res, 404, { error: "Item not found" });
+        return;
+      }
+
+      // Trashed and purged items keep their snapshots, which only callers
+      // who may delete the item get to see
+      const { before, after } = events[events.length - 1];
+      const latest = after ?? before;
+
+      if (
+        latest?.deletedAt !== undefined &&
+        !authorize(res, caller, "delete", latest)
+      ) {
+        return;
+      }
+
+      sendJson(res, 200, events, { "Cache-Control": cacheControl });
+    } catch (error) {
+      sendInternalError(res, log, error);
+    }
+  });
+
+  // REVERT - POST /items/:id/revert (restore the name and description of
+  // an earlier version as a new version)
+  router.post("/items/:id/revert", ({ req, res, params, log, caller }) => {
+    const id = parseItemId(params.id);
+
+    if (isNaN(id)) {
+      sendJson(res, 400, { error: "Invalid item ID" });
+      return;
+    }
+
+    readBody(req, res, (data) => {
+      try {
+        const existingItem = store.get(id);
+
+        if (!existingItem) {
+          sendJson(res, 404, { error: "Item not found" });
+          return;
+        }
+
+        if (!authorize(res, caller, "update", existingItem)) {
+          return;
+        }
+
+        if (failsIfMatch(req, existingItem)) {
+          sendPreconditionFailed(res);
+          return;
+        }
+
+        const { value, errors } = validate<{ version: number }>(
+          revertSchema,
+          data
+        );
+
+        if (!value) {
+          sendValidationError(res, errors);
+          return;
+        }
+
+        const revision = store
+          .history(id)
+          .find(({ after }) => after?.version === value.version)?.after;
+
+        if (!revision) {
+          sendJson(res, 404, { error: "Revision not found" });
+          return;
+        }
+
+        const revertedItem = store.update(
+          id,
+          { name: revision.name, description: revision.description },
+          {
+            ...writeOptions(req, existingItem, caller),
+            revertedTo: value.version,
           }
+        );
 
-          items[itemIndex] = {
-            id: id,
-            name: data.name.trim(),
-            description: data.description.trim(),
-          };
+        if (!revertedItem) {
+          sendJson(res, 404, { error: "Item not found" });
+          return;
+        }
 
-          res.writeHead(200, { "Content-Type": "application/json" });
-          res.end(JSON.stringify(items[itemIndex]));
-        } catch (error) {
-          res.writeHead(400, { "Content-Type": "application/json" });
-          res.end(JSON.stringify({ error: "Invalid JSON" }));
+        sendJson(res, 200, revertedItem, { ETag: itemETag(revertedItem) });
+      } catch (error) {
+        if (error instanceof VersionConflictError) {
+          sendPreconditionFailed(res);
+        } else {
+          sendInternalError(res, log, error);
         }
+      }
+    });
+  });
+
+  // WEBHOOKS - GET /webhooks
+  router.get("/webhooks", ({ res, log, caller }) => {
+    if (!authorize(res, caller, "manageWebhooks")) {
+      return;
+    }
+
+    try {
+      sendJson(res, 200, webhooks.list());
+    } catch (error) {
+      sendInternalError(res, log, error);
+    }
+  });
+
+  // WEBHOOKS - POST /webhooks (the response is the only place the signing
+  // secret is shown)
+  router.post("/webhooks", ({ req, res, log, caller }) => {
+    if (!authorize(res, caller, "manageWebhooks")) {
+      return;
+    }
+
+    readBody(req, res, (data) => {
+      try {
+        const { value: input, errors } = validate<{
+          url: string;
+          events?: ItemEventType[];
+        }>(webhookInputSchema, data);
+
+        if (!input) {
+          sendValidationError(res, errors);
+          return;
+        }
+
+        const { webhook, secret } = webhooks.create({
+          url: input.url,
+          events: input.events ?? [],
+        });
+        sendJson(res, 201, { ...webhook, secret });
+      } catch (error) {
+        sendInternalError(res, log, error);
+      }
+    });
+  });
+
+  // Shared flow of the /webhooks/:id routes: check permission, find the
+  // webhook, then respond with it
+  const withWebhook = (
+    {
+      res,
+      params,
+      log,
+      caller,
+    }: RequestContext & {
+      params: { id: string };
+    },
+    respond: (webhook: Webhook) => void
+  ) => {
+    if (!authorize(res, caller, "manageWebhooks")) {
+      return;
+    }
+
+    const id = parseItemId(params.id);
+
+    if (isNaN(id)) {
+      sendJson(res, 400, { error: "Invalid webhook ID" });
+      return;
+    }
+
+    try {
+      const webhook = webhooks.get(id);
+
+      if (!webhook) {
+        sendJson(res, 404, { error: "Webhook not found" });
+        return;
+      }
+
+      respond(webhook);
+    } catch (error) {
+      sendInternalError(res, log, error);
+    }
+  };
+
+  // WEBHOOKS - GET /webhooks/:id
+  router.get("/webhooks/:id", (ctx) => {
+    withWebhook(ctx, (webhook) => {
+      sendJson(ctx.res, 200, webhook);
+    });
+  });
+
+  // WEBHOOKS - PATCH /webhooks/:id (change the URL or events, or enable
+  // and disable)
+  router.patch("/webhooks/:id", (ctx) => {
+    // Refuse before buffering the body; withWebhook checks again, cheaply
+    if (!authorize(ctx.res, ctx.caller, "manageWebhooks")) {
+      return;
+    }
+
+    readBody(ctx.req, ctx.res, (data) => {
+      withWebhook(ctx, (webhook) => {
+        const { value: changes, errors } = validate<WebhookChanges>(
+          webhookUpdateSchema,
+          data
+        );
+
+        if (!changes) {
+          sendValidationError(ctx.res, errors);
+          return;
+        }
+
+        sendJson(ctx.res, 200, webhooks.update(webhook.id, changes));
       });
+    });
+  });
+
+  // WEBHOOKS - DELETE /webhooks/:id (pending deliveries are dropped)
+  router.delete("/webhooks/:id", (ctx) => {
+    withWebhook(ctx, (webhook) => {
+      webhooks.delete(webhook.id);
+      sendJson(ctx.res, 200, { message: "Webhook deleted", webhook });
+    });
+  });
 
+  // WEBHOOKS - GET /webhooks/:id/deliveries (delivery log, newest first)
+  router.get("/webhooks/:id/deliveries", (ctx) => {
+    withWebhook(ctx, (webhook) => {
+      sendJson(ctx.res, 200, webhooks.deliveries(webhook.id));
+    });
+  });
+
+  // Shared flow of restore and purge: find the trashed item, check
+  // permission and If-Match, then write
+  const changeTrashedItem = (
+    {
+      req,
+      res,
+      params,
+      log,
+      caller,
+    }: RequestContext & {
+      params: { id: string };
+    },
+    write: (id: number, options: WriteOptions) => Item | undefined,
+    respond: (item: Item) => void
+  ) => {
+    const id = parseItemId(params.id);
+
+    if (isNaN(id)) {
+      sendJson(res, 400, { error: "Invalid item ID" });
       return;
     }
 
-    // DELETE - DELETE /items/:id
-    if (method === "DELETE" && path?.startsWith("/items/")) {
-      const id = parseInt(path.split("/")[2]);
+    try {
+      const trashedItem = store.getDeleted(id);
 
-      if (isNaN(id)) {
-        res.writeHead(400, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ error: "Invalid item ID" }));
+      if (!trashedItem) {
+        sendJson(res, 404, { error: "Item not found in trash" });
         return;
       }
 
-      const itemIndex = items.findIndex((item) => item.id === id);
+      if (!authorize(res, caller, "delete", trashedItem)) {
+        return;
+      }
 
-      if (itemIndex === -1) {
-        res.writeHead(404, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ error: "Item not found" }));
+      if (failsIfMatch(req, trashedItem)) {
+        sendPreconditionFailed(res);
         return;
       }
 
-      const deletedItem = items.splice(itemIndex, 1)[0];
-      res.writeHead(200, { "Content-Type": "application/json" });
-      res.end(JSON.stringify({ message: "Item deleted", item: deletedItem }));
+      const item = write(id, writeOptions(req, trashedItem, caller));
+
+      if (item) {
+        respond(item);
+      } else {
+        sendJson(res, 404, { error: "Item not found in trash" });
+      }
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        sendPreconditionFailed(res);
+      } else {
+        sendInternalError(res, log, error);
+      }
+    }
+  };
+
+  // RESTORE - POST /items/:id/restore (move back out of the trash)
+  router.post("/items/:id/restore", (ctx) => {
+    changeTrashedItem(ctx, store.restore, (item) => {
+      sendJson(ctx.res, 200, item, { ETag: itemETag(item) });
+    });
+  });
+
+  // PURGE - DELETE /items/trash/:id (permanent deletion)
+  router.delete("/items/trash/:id", (ctx) => {
+    changeTrashedItem(ctx, store.purge, (item) => {
+      sendJson(ctx.res, 200, { message: "Item purged", item });
+    });
+  });
+
+  // API description - GET /openapi.json
+  router.get("/openapi.json", ({ res }) => {
+    sendJson(res, 200, openApiDocument);
+  });
+
+  // Built last so it covers every route registered above
+  const openApiDocument = buildOpenApiDocument(router.routes());
+
+  // Responses still being produced, so shutdown can wait for them
+  const activeResponses = new Set<http.ServerResponse>();
+  let shutdownPromise: Promise<void> | undefined;
+
+  const server = http.createServer((req, res) => {
+    const requestId = resolveRequestId(req.headers["x-request-id"]);
+    const log = logger.child({ requestId });
+
+    res.setHeader("X-Request-Id", requestId);
+    logAccess(req, res, log);
+    if (compression) {
+      enableCompression(req, res, compressionThreshold);
+    }
+
+    activeResponses.add(res);
+    res.on("close", () => {
+      activeResponses.delete(res);
+      if (shutdownPromise) {
+        // Keep-alive sockets become idle once their response is done
+        setImmediate(() => server.closeIdleConnections());
+      }
+    });
+
+    if (shutdownPromise) {
+      res.setHeader("Connection", "close");
+    }
+
+    // CORS headers
+    const origin = req.headers.origin;
+
+    if (corsOrigins.includes("*")) {
+      res.setHeader("Access-Control-Allow-Origin", "*");
+    } else {
+      appendVary(res, "Origin");
+      if (origin && corsOrigins.includes(origin)) {
+        res.setHeader("Access-Control-Allow-Origin", origin);
+      }
+    }
+
+    res.setHeader(
+      "Access-Control-Allow-Methods",
+      "GET, POST, PUT, PATCH, DELETE"
+    );
+    res.setHeader(
+      "Access-Control-Allow-Headers",
+      "Authorization, Content-Type, If-Match, If-None-Match, " +
+        "If-Modified-Since, X-Request-Id"
+    );
+    res.setHeader(
+      "Access-Control-Expose-Headers",
+      "ETag, Link, X-Request-Id, X-Total-Count, Retry-After, " +
+        "RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy"
+    );
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(200);
+      res.end();
+      return;
+    }
+
+    const parsedUrl = url.parse(req.url!, true);
+    const path = parsedUrl.pathname ?? "/";
+    let decision: RateLimitDecision | undefined;
+
+    try {
+      decision = limitAddress(req, path);
+    } catch (error) {
+      sendInternalError(res, log, error);
+      return;
+    }
+
+    if (decision && !decision.allowed) {
+      sendTooManyRequests(res, decision);
+      return;
+    }
+
+    let identity: Identity | undefined;
+
+    try {
+      identity = authenticate(req.headers.authorization);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        sendUnauthorized(res, error.message, error.challenge);
+      } else {
+        sendInternalError(res, log, error);
+      }
+      return;
+    }
+
+    if (!identity && requireAuth) {
+      sendUnauthorized(res, "Authentication required", challenge);
+      return;
+    }
+
+    if (identity && decision) {
+      try {
+        decision = limitIdentity(req, path, identity);
+      } catch (error) {
+        sendInternalError(res, log, error);
+        return;
+      }
+    }
+
+    if (decision) {
+      if (!decision.allowed) {
+        sendTooManyRequests(res, decision);
+        return;
+      }
+      for (const [name, value] of Object.entries(decision.headers)) {
+        res.setHeader(name, value);
+      }
+    }
+    const ctx = {
+      req,
+      res,
+      query: parsedUrl.query,
+      requestId,
+      log: identity ? log.child({ subject: identity.subject }) : log,
+      identity,
+      caller: identifyCaller(identity, req),
+    };
+
+    if (router.handle(ctx, path)) {
       return;
     }
 
     // Default 404
-    res.writeHead(404, { "Content-Type": "application/json" });
-    res.end(JSON.stringify({ error: "Not found" }));
+    sendJson(res, 404, { error: "Not found" });
   });
 
-  return server;
-};
+  // WebSocket variant of GET /items/events. Each change is a JSON text
+  // message; browsers resume with ?lastEventId= as they cannot set headers.
+  server.on("upgrade", (req, socket, head) => {
+    const parsedUrl = url.parse(req.url!, true);
+
+    if (parsedUrl.pathname !== "/items/events" || !isWebSocketUpgrade(req)) {
+      rejectUpgrade(socket, 404);
+      return;
+    }
+
+    // Rate limited like the requests above
+    const rejectTooManyRequests = (decision: RateLimitDecision) =>
+      rejectUpgrade(
+        socket,
+        429,
+        Object.fromEntries(
+          Object.entries(decision.headers).map(([name, value]) => [
+            name,
+            String(value),
+          ])
+        )
+      );
+    let decision: RateLimitDecision | undefined;
+
+    try {
+      decision = limitAddress(req, parsedUrl.pathname);
+    } catch (error) {
+      logger.error("Database error", { error });
+      rejectUpgrade(socket, 500);
+      return;
+    }
+
+    if (decision && !decision.allowed) {
+      rejectTooManyRequests(decision);
+      return;
+    }
+
+    let identity: Identity | undefined;
+
+    try {
+      identity = authenticate(req.headers.authorization);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        rejectUpgrade(socket, 401, { "WWW-Authenticate": error.challenge });
+      } else {
+        logger.error("Authentication failed", { error });
+        rejectUpgrade(socket, 500);
+      }
+      return;
+    }
+
+    if (!identity && requireAuth) {
+      rejectUpgrade(socket, 401, { "WWW-Authenticate": challenge });
+      return;
+    }
+
+    if (identity && decision) {
+      try {
+        decision = limitIdentity(req, parsedUrl.pathname, identity);
+      } catch (error) {
+        logger.error("Database error", { error });
+        rejectUpgrade(socket, 500);
+        return;
+      }
+
+      if (decision && !decision.allowed) {
+        rejectTooManyRequests(decision);
+        return;
+      }
+    }
+
+    const after = resumeAfter(req, parsedUrl.query);
+
+    if (Number.isNaN(after)) {
+      rejectUpgrade(socket, 400);
+      return;
+    }
+
+    let backlog;
+
+    try {
+      backlog = readBacklog(after);
+    } catch (error) {
+      logger.error("Database error", { error });
+      rejectUpgrade(socket, 500);
+      return;
+    }
+
+    const connection = acceptWebSocket(req, socket, head);
+
+    if (!connection) {
+      return;
+    }
+
+    const send = (event: ItemEvent) => {
+      connection.send(JSON.stringify(toChangeMessage(event)));
+    };
+    backlog.events.forEach(send);
+
+    if (!backlog.complete) {
+      // 1013: try again later
+      connection.close(1013);
+      return;
+    }
 
-export const resetMyServerData = () => {
-  items = [];
-  nextId = 1;
+    const unsubscribe = store.subscribe(send);
+    // 1001: going away
+    const end = () => connection.close(1001);
+
+    changeStreams.add(end);
+    connection.onClose(() => {
+      unsubscribe();
+      changeStreams.delete(end);
+    });
+  });
+
+  const purgeExpiredTrash = () => {
+    if (trashRetentionDays === undefined) {
+      return 0;
+    }
+
+    const cutoff = now() - trashRetentionDays * 24 * 60 * 60 * 1000;
+    const count = store.purgeDeleted(new Date(cutoff).toISOString());
+
+    if (count > 0) {
+      logger.info("purged expired trash", { count });
+    }
+    return count;
+  };
+
+  let purgeTimer: NodeJS.Timeout | undefined;
+
+  // Purge failures are logged and retried on the next run
+  const schedulePurge = () => {
+    const run = () => {
+      try {
+        purgeExpiredTrash();
+      } catch (error) {
+        logger.error("Trash purge failed", { error });
+      }
+    };
+
+    run();
+    purgeTimer = setInterval(run, 60 * 60 * 1000);
+    purgeTimer.unref();
+  };
+
+  const start = () =>
+    new Promise<AddressInfo>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => {
+        server.off("error", reject);
+        if (trashRetentionDays !== undefined) {
+          schedulePurge();
+        }
+        // Picks up retries and deliveries queued before the start
+        deliveryTimer = setInterval(runDeliveries, 1000);
+        deliveryTimer.unref();
+        resolve(server.address() as AddressInfo);
+      });
+    });
+
+  const shutdown = () => {
+    shutdownPromise ??= new Promise<void>((resolve, reject) => {
+      logger.info("shutting down", { activeRequests: activeResponses.size });
+      clearInterval(purgeTimer);
+      clearInterval(deliveryTimer);
+      deliveryTimer = undefined;
+
+      // Event streams never finish by themselves
+      changeStreams.forEach((end) => end());
+
+      // Ask clients of in-flight requests not to reuse their connection
+      for (const res of activeResponses) {
+        if (!res.headersSent) {
+          res.setHeader("Connection", "close");
+        }
+      }
+
+      const timer = setTimeout(() => {
+        logger.warn("shutdown timed out, closing open connections", {
+          activeRequests: activeResponses.size,
+        });
+        server.closeAllConnections();
+      }, shutdownTimeout);
+
+      // The callback runs once every connection has ended; it reports an
+      // error when the server was not listening, which is fine here
+      server.close(() => {
+        clearTimeout(timer);
+        // Deliveries in progress still record their outcome
+        delivering.then(() => {
+          try {
+            store.close();
+            apiKeys.close();
+            rateLimitStore.close();
+            webhooks.close();
+            resolve();
+          } catch (error) {
+            reject(error);
+          }
+        });
+      });
+      server.closeIdleConnections();
+    });
+
+    return shutdownPromise;
+  };
+
+  return Object.assign(server, {
+    store,
+    apiKeys,
+    webhooks,
+    openApiDocument,
+    purgeExpiredTrash,
+    deliverWebhooks: webhookDispatcher.deliver,
+    start,
+    shutdown,
+  });
 };
@@ -0,0 +1,206 @@
+import { createEventPublisher } from "./events.js";
+import { listItems } from "./list.js";
+import { searchItems } from "./search.js";
+import {
+  VersionConflictError,
+  type Item,
+  type ItemEvent,
+  type ItemEventType,
+  type ItemStore,
+  type ListQuery,
+  type StoreOptions,
+  type WriteOptions,
+} from "./store.js";
+
+export const createMemoryItemStore = ({
+  now = Date.now,
+}: StoreOptions = {}): ItemStore => {
+  let items: Item[] = [];
+  let nextId = 1;
+  let events: ItemEvent[] = [];
+  // Number of transactions in progress
+  let depth = 0;
+  const publisher = createEventPublisher(() => depth > 0);
+  const { publishing } = publisher;
+
+  const checkVersion = (item: Item, options: WriteOptions = {}) => {
+    if (
+      options.expectedVersion !== undefined &&
+      options.expectedVersion !== item.version
+    ) {
+      throw new VersionConflictError(item.id, item.version);
+    }
+  };
+
+  const record = (
+    type: ItemEventType,
+    itemId: number,
+    { actor, revertedTo }: WriteOptions,
+    before?: Item,
+    after?: Item
+  ) => {
+    const event = {
+      id: events.length + 1,
+      itemId,
+      type,
+      ...(actor !== undefined && { actor }),
+      at: new Date(now()).toISOString(),
+      ...(before && { before }),
+      ...(after && { after }),
+      ...(revertedTo !== undefined && { revertedTo }),
+    };
+    events.push(event);
+    publisher.queue(event);
+  };
+
+  const isDeleted = (item: Item) => item.deletedAt !== undefined;
+
+  const active = () => items.filter((item) => !isDeleted(item));
+
+  // Position of an active or trashed item, or -1
+  const findIndex = (id: number, deleted: boolean) =>
+    items.findIndex((item) => item.id === id && isDeleted(item) === deleted);
+
+  // Replace an active or trashed item with fn's result, bump its version
+  // and record the change
+  const change = (
+    type: ItemEventType,
+    id: number,
+    deleted: boolean,
+    options: WriteOptions = {},
+    fn: (item: Item) => Item
+  ) => {
+    const itemIndex = findIndex(id, deleted);
+
+    if (itemIndex === -1) {
+      return undefined;
+    }
+
+    const item = items[itemIndex];
+    checkVersion(item, options);
+    items[itemIndex] = { ...fn(item), version: item.version + 1 };
+    record(type, id, options, item, items[itemIndex]);
+    return items[itemIndex];
+  };
+
+  const list = (query: ListQuery) =>
+    listItems(query.deleted ? items.filter(isDeleted) : active(), query);
+
+  return {
+    list,
+
+    iterate: (query) => {
+      const page = list(query);
+      return { ...page, lastItem: page.items[page.items.length - 1] };
+    },
+
+    get: (id) => items.find((item) => item.id === id && !isDeleted(item)),
+
+    getDeleted: (id) => items.find((item) => item.id === id && isDeleted(item)),
+
+    search: (query) => searchItems(active(), query),
+
+    create: (input, { ownerId, actor } = {}) =>
+      publishing(() => {
+        const newItem = {
+          id: nextId++,
+          ...input,
+          version: 1,
+          ...(ownerId !== undefined && { ownerId }),
+        };
+        items.push(newItem);
+        record("created", newItem.id, { actor }, undefined, newItem);
+        return newItem;
+      }),
+
+    update: (id, input, options) =>
+      publishing(() =>
+        change("updated", id, false, options, (item) => ({
+          ...item,
+          ...input,
+        }))
+      ),
+
+    delete: (id, options) =>
+      publishing(() =>
+        change("deleted", id, false, options, (item) => ({
+          ...item,
+          deletedAt: new Date(now()).toISOString(),
+        }))
+      ),
+
+    restore: (id, options) =>
+      publishing(() =>
+        change(
+          "restored",
+          id,
+          true,
+          options,
+          ({ deletedAt: _deletedAt, ...item }) => item
+        )
+      ),
+
+    purge: (id, options) =>
+      publishing(() => {
+        const itemIndex = findIndex(id, true);
+
+        if (itemIndex === -1) {
+          return undefined;
+        }
+
+        checkVersion(items[itemIndex], options);
+        const [item] = items.splice(itemIndex, 1);
+        record("purged", id, options ?? {}, item);
+        return item;
+      }),
+
+    purgeDeleted: (deletedBefore) =>
+      publishing(() => {
+        const expired = items.filter(
+          (item) =>
+            item.deletedAt !== undefined && item.deletedAt < deletedBefore
+        );
+        items = items.filter((item) => !expired.includes(item));
+        expired.forEach((item) => record("purged", item.id, {}, item));
+        return expired.length;
+      }),
+
+    history: (id) => events.filter((event) => event.itemId === id),
+
+    eventsAfter: (id, limit) =>
+      events.filter((event) => event.id > id).slice(0, limit),
+
+    subscribe: publisher.subscribe,
+
+    transaction: (fn) =>
+      publishing(() => {
+        // Items are replaced rather than mutated, so a shallow copy is
+        // enough to restore the previous state
+        const savedItems = [...items];
+        const savedNextId = nextId;
+        const savedEvents = [...events];
+
+        depth++;
+        try {
+          return fn();
+        } catch (error) {
+          items = savedItems;
+          nextId = savedNextId;
+          events = savedEvents;
+          throw error;
+        } finally {
+          depth--;
+        }
+      }),
+
+    lastModified: () => events[events.length - 1]?.at,
+
+    reset: () => {
+      items = [];
+      nextId = 1;
+      events = [];
+    },
+
+    close: () => {},
+  };
+};
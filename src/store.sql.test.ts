@@ -0,0 +1,147 @@
+import Database from "better-sqlite3";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { SchemaTooNewError } from "./migrate.js";
+import { createSqliteItemStore } from "./store.sql.js";
+
+describe("SQLite item store", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "items-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should migrate and index an existing database", () => {
+    const dbPath = path.join(dir, "items.db");
+    const legacy = new Database(dbPath);
+    legacy.exec(`
+      CREATE TABLE items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        description TEXT NOT NULL
+      );
+      INSERT INTO items (name, description) VALUES ('Old', 'Item');
+    `);
+    legacy.close();
+
+    const store = createSqliteItemStore(dbPath);
+
+    expect(store.get(1)).toEqual({
+      id: 1,
+      name: "Old",
+      description: "Item",
+      version: 1,
+    });
+    expect(store.update(1, { name: "New", description: "Item" })).toEqual({
+      id: 1,
+      name: "New",
+      description: "Item",
+      version: 2,
+    });
+    expect(
+      store.search({
+        terms: [{ words: ["new"], prefix: false }],
+        limit: 10,
+        offset: 0,
+      }).total
+    ).toBe(1);
+    store.close();
+  });
+
+  it("should keep item history append-only", () => {
+    const dbPath = path.join(dir, "items.db");
+    const store = createSqliteItemStore(dbPath);
+    store.create({ name: "Tracked", description: "Item" });
+    store.close();
+
+    const db = new Database(dbPath);
+    expect(() =>
+      db.prepare("UPDATE item_events SET actor = 'mallory'").run()
+    ).toThrow("item_events is append-only");
+    db.close();
+  });
+
+  it("should refuse to open a database with a newer schema", () => {
+    const dbPath = path.join(dir, "items.db");
+    createSqliteItemStore(dbPath).close();
+
+    const db = new Database(dbPath);
+    db.prepare(
+      "INSERT INTO schema_migrations (version, name, applied_at) VALUES (999, 'future', '')"
+    ).run();
+    db.close();
+
+    expect(() => createSqliteItemStore(dbPath)).toThrow(SchemaTooNewError);
+  });
+
+  it("should keep the time of the last item change", () => {
+    const dbPath = path.join(dir, "items.db");
+    let now = Date.parse("2024-01-01T00:00:00Z");
+    const store = createSqliteItemStore(dbPath, { now: () => now });
+
+    expect(store.lastModified()).toBeUndefined();
+    store.create({ name: "a", description: "b" });
+    now += 1000;
+    store.delete(1);
+    store.close();
+
+    const reopened = createSqliteItemStore(dbPath);
+    expect(reopened.lastModified()).toBe("2024-01-01T00:00:01.000Z");
+    reopened.close();
+  });
+
+  it("should iterate long pages in batches between other calls", () => {
+    const store = createSqliteItemStore(":memory:");
+    store.transaction(() => {
+      for (let i = 1; i <= 250; i++) {
+        store.create({ name: `Item ${i % 7}`, description: String(i) });
+      }
+    });
+    const query = {
+      limit: 240,
+      offset: 5,
+      sort: [{ field: "name" as const, direction: "desc" as const }],
+    };
+
+    const page = store.iterate(query);
+    const read = [];
+    for (const item of page.items) {
+      read.push(item);
+      // The connection is free while the page is consumed
+      store.get(item.id);
+    }
+
+    expect(read).toEqual(store.list(query).items);
+    expect(page.hasMore).toBe(true);
+    store.close();
+  });
+
+  it("should end iterated pages at the linked item despite writes", () => {
+    const store = createSqliteItemStore(":memory:");
+    store.transaction(() => {
+      for (let i = 1; i <= 300; i++) {
+        store.create({ name: "Item", description: String(i) });
+      }
+    });
+
+    const page = store.iterate({ limit: 150, offset: 0, sort: [] });
+    const read = [];
+    for (const item of page.items) {
+      read.push(item.id);
+      if (item.id === 100) {
+        store.delete(120);
+      }
+    }
+
+    expect(page.lastItem?.id).toBe(150);
+    expect(read).toHaveLength(149);
+    expect(read.at(-1)).toBe(150);
+    store.close();
+  });
+});
@@ -0,0 +1,498 @@
+import path from "node:path";
+import { openDatabase } from "./db.js";
+import { createEventPublisher } from "./events.js";
+import { withIdTiebreaker } from "./list.js";
+import {
+  ELLIPSIS,
+  NAME_WEIGHT,
+  RAW_MARK_END,
+  RAW_MARK_START,
+  rawMarksToHtml,
+  SNIPPET_WORDS,
+} from "./search.js";
+import {
+  VersionConflictError,
+  type CreateOptions,
+  type Item,
+  type ItemCursor,
+  type ItemEvent,
+  type ItemEventType,
+  type ItemInput,
+  type ItemStore,
+  type ListQuery,
+  type SearchHit,
+  type SearchTerm,
+  type SortOrder,
+  type StoreOptions,
+  type WriteOptions,
+} from "./store.js";
+
+const defaultDbPath = path.join(process.cwd(), "items.db");
+
+// Escape LIKE wildcards so user input matches literally
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+// Rows read at a time by iterate. A single better-sqlite3 iterate() cursor
+// would keep the connection busy, failing every other query, for as long as
+// a slow client takes to receive the page.
+const ITERATE_BATCH_SIZE = 100;
+
+// Condition for rows strictly after cursor in sort order, with its
+// arguments
+const keysetAfter = (sort: SortOrder[], cursor: ItemCursor) => {
+  const args: unknown[] = [];
+  const alternatives = sort.map((order, index) => {
+    const equal = sort.slice(0, index).map(({ field }) => `${field} = ?`);
+    const operator = order.direction === "asc" ? ">" : "<";
+    args.push(...sort.slice(0, index + 1).map(({ field }) => cursor[field]));
+    return [...equal, `${order.field} ${operator} ?`].join(" AND ");
+  });
+  return {
+    condition: `(${alternatives.map((a) => `(${a})`).join(" OR ")})`,
+    args,
+  };
+};
+
+// Translate a list query into WHERE clauses, stopping at until (inclusive)
+// when given. Sort field names come from a fixed whitelist, so they are
+// safe to interpolate.
+const buildListQuery = (query: ListQuery, until?: ItemCursor) => {
+  const filters = [
+    query.deleted ? "deleted_at IS NOT NULL" : "deleted_at IS NULL",
+  ];
+  const filterArgs: unknown[] = [];
+
+  if (query.name !== undefined) {
+    filters.push("name = ?");
+    filterArgs.push(query.name);
+  }
+
+  if (query.ownerId !== undefined) {
+    filters.push("owner_id = ?");
+    filterArgs.push(query.ownerId);
+  }
+
+  if (query.q !== undefined) {
+    const pattern = `%${escapeLike(query.q)}%`;
+    filters.push("(name LIKE ? ESCAPE '\\' OR description LIKE ? ESCAPE '\\')");
+    filterArgs.push(pattern, pattern);
+  }
+
+  const sort = withIdTiebreaker(query.sort);
+  const conditions = [...filters];
+  const args = [...filterArgs];
+
+  // Keyset pagination: rows strictly after the cursor in sort order
+  if (query.after) {
+    const { condition, args: afterArgs } = keysetAfter(sort, query.after);
+    conditions.push(condition);
+    args.push(...afterArgs);
+  }
+
+  if (until) {
+    const { condition, args: untilArgs } = keysetAfter(sort, until);
+    conditions.push(`NOT ${condition}`);
+    args.push(...untilArgs);
+  }
+
+  const where = (clauses: string[]) =>
+    clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+  const orderBy = sort
+    .map(({ field, direction }) => `${field} ${direction.toUpperCase()}`)
+    .join(", ");
+
+  return {
+    countSql: `SELECT COUNT(*) AS total FROM items ${where(filters)}`,
+    countArgs: filterArgs,
+    selectSql: `SELECT * FROM items ${where(
+      conditions
+    )} ORDER BY ${orderBy} LIMIT ? OFFSET ?`,
+    selectArgs: args,
+  };
+};
+
+// Quote every term so user input is never parsed as FTS5 syntax. Terms only
+// contain letters and digits, so they need no escaping.
+const toFtsQuery = (terms: SearchTerm[]) =>
+  terms
+    .map(({ words, prefix }) => `"${words.join(" ")}"${prefix ? " *" : ""}`)
+    .join(" ");
+
+// bm25() is lower for better matches, so negate it for the score
+const searchSql = `
+  SELECT items.*,
+    -bm25(items_fts, ${NAME_WEIGHT}, 1) AS score,
+    highlight(items_fts, 0, ?, ?) AS nameHighlight,
+    snippet(items_fts, 1, ?, ?, ?, ${SNIPPET_WORDS}) AS descriptionSnippet
+  FROM items_fts JOIN items ON items.id = items_fts.rowid
+  WHERE items_fts MATCH ? AND items.deleted_at IS NULL
+  ORDER BY score DESC, items.id
+  LIMIT ? OFFSET ?`;
+
+// Items as stored; owner_id is NULL for anonymous creations and
+// deleted_at is NULL for active items
+type ItemRow = Omit<Item, "ownerId" | "deletedAt"> & {
+  owner_id: string | null;
+  deleted_at: string | null;
+};
+
+const toItem = ({ owner_id, deleted_at, ...item }: ItemRow): Item => ({
+  ...item,
+  ...(owner_id !== null && { ownerId: owner_id }),
+  ...(deleted_at !== null && { deletedAt: deleted_at }),
+});
+
+// Snapshots are stored as JSON in the API's item shape
+type ItemEventRow = {
+  id: number;
+  item_id: number;
+  type: ItemEventType;
+  actor: string | null;
+  at: string;
+  before: string | null;
+  after: string | null;
+  reverted_to: number | null;
+};
+
+const toItemEvent = (row: ItemEventRow): ItemEvent => ({
+  id: row.id,
+  itemId: row.item_id,
+  type: row.type,
+  ...(row.actor !== null && { actor: row.actor }),
+  at: row.at,
+  ...(row.before !== null && { before: JSON.parse(row.before) as Item }),
+  ...(row.after !== null && { after: JSON.parse(row.after) as Item }),
+  ...(row.reverted_to !== null && { revertedTo: row.reverted_to }),
+});
+
+type SearchRow = ItemRow & {
+  score: number;
+  nameHighlight: string;
+  descriptionSnippet: string;
+};
+
+export const createSqliteItemStore = (
+  dbPath: string = defaultDbPath,
+  { now = Date.now }: StoreOptions = {}
+): ItemStore => {
+  const db = openDatabase(dbPath);
+  const publisher = createEventPublisher(() => db.inTransaction);
+  const { publishing } = publisher;
+
+  // Wrap fn in a transaction whose events are published once committed
+  const atomic = <Args extends unknown[], T>(fn: (...args: Args) => T) => {
+    const run = db.transaction(fn);
+    return (...args: Args) => publishing(() => run(...args));
+  };
+
+  const find = (id: number, deleted: boolean) => {
+    const row = db
+      .prepare(
+        `SELECT * FROM items WHERE id = ? AND deleted_at IS ${
+          deleted ? "NOT NULL" : "NULL"
+        }`
+      )
+      .get(id) as ItemRow | undefined;
+    return row && toItem(row);
+  };
+
+  const record = (
+    type: ItemEventType,
+    itemId: number,
+    { actor, revertedTo }: WriteOptions,
+    before?: Item,
+    after?: Item
+  ) => {
+    const row = db
+      .prepare(
+        `INSERT INTO item_events
+           (item_id, type, actor, at, before, after, reverted_to)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         RETURNING *`
+      )
+      .get(
+        itemId,
+        type,
+        actor ?? null,
+        new Date(now()).toISOString(),
+        before ? JSON.stringify(before) : null,
+        after ? JSON.stringify(after) : null,
+        revertedTo ?? null
+      ) as ItemEventRow;
+    db.prepare(
+      `INSERT INTO table_changes (table_name, changed_at) VALUES ('items', ?)
+       ON CONFLICT (table_name) DO UPDATE SET changed_at = excluded.changed_at`
+    ).run(row.at);
+
+    publisher.queue(toItemEvent(row));
+  };
+
+  // Run an UPDATE or DELETE ... RETURNING * whose SQL ends with
+  // "WHERE <condition> AND id = ? AND (? IS NULL OR version = ?)" and record
+  // it in the same transaction. When it misses an item that does exist, its
+  // version has changed.
+  const write = atomic(
+    (
+      type: ItemEventType,
+      sql: string,
+      args: unknown[],
+      id: number,
+      deleted: boolean,
+      options: WriteOptions
+    ) => {
+      const current = find(id, deleted);
+      const expected = options.expectedVersion ?? null;
+      const row = db.prepare(sql).get(...args, id, expected, expected) as
+        | ItemRow
+        | undefined;
+
+      if (row) {
+        const item = toItem(row);
+        record(
+          type,
+          id,
+          options,
+          current,
+          type === "purged" ? undefined : item
+        );
+        return item;
+      }
+
+      if (current && options.expectedVersion !== undefined) {
+        throw new VersionConflictError(id, current.version);
+      }
+      return undefined;
+    }
+  );
+
+  return {
+    list: (query) => {
+      const { countSql, countArgs, selectSql, selectArgs } =
+        buildListQuery(query);
+      const { total } = db.prepare(countSql).get(...countArgs) as {
+        total: number;
+      };
+      // Fetch one extra row to learn whether another page exists
+      const rows = db
+        .prepare(selectSql)
+        .all(
+          ...selectArgs,
+          query.limit + 1,
+          query.after ? 0 : query.offset
+        ) as ItemRow[];
+
+      return {
+        items: rows.slice(0, query.limit).map(toItem),
+        total,
+        hasMore: rows.length > query.limit,
+      };
+    },
+
+    iterate: (query) => {
+      const { countSql, countArgs, selectSql, selectArgs } =
+        buildListQuery(query);
+      const { total } = db.prepare(countSql).get(...countArgs) as {
+        total: number;
+      };
+      const offset = query.after ? 0 : query.offset;
+      // The page's last row and the one after it, if any
+      const [lastRow, nextRow] = db
+        .prepare(selectSql)
+        .all(...selectArgs, 2, offset + query.limit - 1) as ItemRow[];
+      const lastItem = nextRow && toItem(lastRow);
+
+      // Read in batches, continuing after the last item read, so that the
+      // connection is free between batches. Batches stop at lastItem, where
+      // the next page starts, rather than after limit rows: rows written
+      // meanwhile then change the length of the page, but are neither
+      // skipped nor repeated by the next one.
+      const rows = function* () {
+        let batch = { ...buildListQuery(query, lastItem), offset };
+
+        for (;;) {
+          const items = (
+            db
+              .prepare(batch.selectSql)
+              .all(
+                ...batch.selectArgs,
+                ITERATE_BATCH_SIZE,
+                batch.offset
+              ) as ItemRow[]
+          ).map(toItem);
+
+          yield* items;
+          if (items.length < ITERATE_BATCH_SIZE) {
+            return;
+          }
+          batch = {
+            ...buildListQuery(
+              { ...query, after: items[items.length - 1] },
+              lastItem
+            ),
+            offset: 0,
+          };
+        }
+      };
+
+      return {
+        items: rows(),
+        total,
+        hasMore: nextRow !== undefined,
+        ...(lastItem && { lastItem }),
+      };
+    },
+
+    get: (id) => find(id, false),
+
+    getDeleted: (id) => find(id, true),
+
+    search: ({ terms, limit, offset }) => {
+      const match = toFtsQuery(terms);
+      const { total } = db
+        .prepare(
+          `SELECT COUNT(*) AS total
+           FROM items_fts JOIN items ON items.id = items_fts.rowid
+           WHERE items_fts MATCH ? AND items.deleted_at IS NULL`
+        )
+        .get(match) as { total: number };
+      const rows = db
+        .prepare(searchSql)
+        .all(
+          RAW_MARK_START,
+          RAW_MARK_END,
+          RAW_MARK_START,
+          RAW_MARK_END,
+          ELLIPSIS,
+          match,
+          limit,
+          offset
+        ) as SearchRow[];
+
+      const hits = rows.map(
+        ({ score, nameHighlight, descriptionSnippet, ...row }): SearchHit => ({
+          item: toItem(row),
+          score,
+          highlights: {
+            name: rawMarksToHtml(nameHighlight),
+            description: rawMarksToHtml(descriptionSnippet),
+          },
+        })
+      );
+      return { hits, total };
+    },
+
+    create: atomic(
+      (input: ItemInput, { ownerId, actor }: CreateOptions = {}) => {
+        const row = db
+          .prepare(
+            `INSERT INTO items (name, description, owner_id) VALUES (?, ?, ?)
+           RETURNING *`
+          )
+          .get(input.name, input.description, ownerId ?? null) as ItemRow;
+        const item = toItem(row);
+
+        record("created", item.id, { actor }, undefined, item);
+        return item;
+      }
+    ),
+
+    update: (id, input, options = {}) =>
+      write(
+        "updated",
+        `UPDATE items SET name = ?, description = ?, version = version + 1
+         WHERE deleted_at IS NULL AND id = ? AND (? IS NULL OR version = ?)
+         RETURNING *`,
+        [input.name, input.description],
+        id,
+        false,
+        options
+      ),
+
+    delete: (id, options = {}) =>
+      write(
+        "deleted",
+        `UPDATE items SET deleted_at = ?, version = version + 1
+         WHERE deleted_at IS NULL AND id = ? AND (? IS NULL OR version = ?)
+         RETURNING *`,
+        [new Date(now()).toISOString()],
+        id,
+        false,
+        options
+      ),
+
+    restore: (id, options = {}) =>
+      write(
+        "restored",
+        `UPDATE items SET deleted_at = NULL, version = version + 1
+         WHERE deleted_at IS NOT NULL AND id = ? AND (? IS NULL OR version = ?)
+         RETURNING *`,
+        [],
+        id,
+        true,
+        options
+      ),
+
+    purge: (id, options = {}) =>
+      write(
+        "purged",
+        `DELETE FROM items
+         WHERE deleted_at IS NOT NULL AND id = ? AND (? IS NULL OR version = ?)
+         RETURNING *`,
+        [],
+        id,
+        true,
+        options
+      ),
+
+    purgeDeleted: atomic((deletedBefore: string) => {
+      const rows = db
+        .prepare("DELETE FROM items WHERE deleted_at < ? RETURNING *")
+        .all(deletedBefore) as ItemRow[];
+
+      rows.forEach((row) => record("purged", row.id, {}, toItem(row)));
+      return rows.length;
+    }),
+
+    history: (id) =>
+      (
+        db
+          .prepare("SELECT * FROM item_events WHERE item_id = ? ORDER BY id")
+          .all(id) as ItemEventRow[]
+      ).map(toItemEvent),
+
+    eventsAfter: (id, limit) =>
+      (
+        db
+          .prepare("SELECT * FROM item_events WHERE id > ? ORDER BY id LIMIT ?")
+          .all(id, limit) as ItemEventRow[]
+      ).map(toItemEvent),
+
+    subscribe: publisher.subscribe,
+
+    transaction: (fn) => publishing(() => db.transaction(fn)()),
+
+    lastModified: () => {
+      const row = db
+        .prepare(
+          "SELECT changed_at FROM table_changes WHERE table_name = 'items'"
+        )
+        .get() as { changed_at: string } | undefined;
+      return row?.changed_at;
+    },
+
+    reset: () => {
+      db.prepare("DELETE FROM items").run();
+      db.prepare("DELETE FROM item_events").run();
+      db.prepare("DELETE FROM table_changes WHERE table_name = 'items'").run();
+      db.prepare(
+        "DELETE FROM sqlite_sequence WHERE name IN ('items', 'item_events')"
+      ).run();
+    },
+
+    close: () => {
+      if (db.open) {
+        db.close();
+      }
+    },
+  };
+};
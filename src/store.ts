@@ -0,0 +1,191 @@
+export type Item = {
+  id: number;
+  name: string;
+  description: string;
+  // Incremented on every update, starting at 1
+  version: number;
+  // ID of the caller who created the item; unset for anonymous creations
+  ownerId?: string;
+  // When the item was moved to the trash (ISO 8601); unset for active items
+  deletedAt?: string;
+};
+
+export type ItemInput = {
+  name: string;
+  description: string;
+};
+
+export type SortField = "id" | "name" | "description";
+
+export type SortOrder = {
+  field: SortField;
+  direction: "asc" | "desc";
+};
+
+// Position to continue listing from. Only the fields used for sorting are
+// compared, so a deleted item can still be used when sorting by id alone.
+export type ItemCursor = Pick<Item, "id"> & Partial<Item>;
+
+export type ListQuery = {
+  limit: number;
+  offset: number;
+  after?: ItemCursor;
+  sort: SortOrder[];
+  // Exact name match
+  name?: string;
+  // Case-insensitive substring match on name or description
+  q?: string;
+  // Only items owned by this caller
+  ownerId?: string;
+  // List the trash instead of active items
+  deleted?: boolean;
+};
+
+export type ListResult = {
+  items: Item[];
+  // Number of items matching the filters, ignoring limit/offset/after
+  total: number;
+  hasMore: boolean;
+};
+
+// A page of items read as items is consumed, for streaming long pages.
+// Other store calls may be made in between; the SQLite store reads in
+// batches, each continuing after the last item of the one before. Items
+// written meanwhile may make the page longer or shorter than limit, but
+// it always ends at lastItem.
+export type ListIteration = {
+  items: Iterable<Item>;
+  total: number;
+  hasMore: boolean;
+  // Last item of the page when hasMore is set, to link to the next page
+  lastItem?: Item;
+};
+
+// One search term: a single word or, with several words, a phrase whose
+// words must appear consecutively. Words are lowercase without diacritics.
+export type SearchTerm = {
+  words: string[];
+  // Whether the last word also matches longer words starting with it
+  prefix: boolean;
+};
+
+export type SearchQuery = {
+  // Every term must match the name or the description
+  terms: SearchTerm[];
+  limit: number;
+  offset: number;
+};
+
+export type SearchHit = {
+  item: Item;
+  // Relevance, higher is better. Only comparable within one search.
+  score: number;
+  // HTML-escaped field text with matches wrapped in <mark>; the description
+  // is shortened to the part around the first match
+  highlights: { name: string; description: string };
+};
+
+export type SearchResult = {
+  hits: SearchHit[];
+  total: number;
+};
+
+// Thrown by writes when the item has changed since expectedVersion
+export class VersionConflictError extends Error {
+  constructor(readonly id: number, readonly currentVersion: number) {
+    super(`Item ${id} is at version ${currentVersion}`);
+    this.name = "VersionConflictError";
+  }
+}
+
+export type ItemEventType =
+  | "created"
+  | "updated"
+  | "deleted"
+  | "restored"
+  | "purged";
+
+// One recorded change of an item
+export type ItemEvent = {
+  id: number;
+  itemId: number;
+  type: ItemEventType;
+  // Caller who made the change; unset for anonymous and automatic changes
+  actor?: string;
+  // ISO 8601
+  at: string;
+  // Unset before creation
+  before?: Item;
+  // Unset after purging
+  after?: Item;
+  // Set when an update reverted the item to this earlier version
+  revertedTo?: number;
+};
+
+export type ItemEventListener = (event: ItemEvent) => void;
+
+export type CreateOptions = {
+  ownerId?: string;
+  // Recorded in the item's history
+  actor?: string;
+};
+
+export type WriteOptions = {
+  // Only write if the stored item is still at this version
+  expectedVersion?: number;
+  // Recorded in the item's history
+  actor?: string;
+  revertedTo?: number;
+};
+
+export type StoreOptions = {
+  // Current time in milliseconds, used for deletion timestamps
+  now?: () => number;
+};
+
+// Storage backend used by createMyServer. Implementations return undefined
+// when the item does not exist and throw on backend failures.
+export type ItemStore = {
+  list(query: ListQuery): ListResult;
+  // Same page as list, without reading all of it up front
+  iterate(query: ListQuery): ListIteration;
+  // Active items only; trashed items are found with getDeleted
+  get(id: number): Item | undefined;
+  getDeleted(id: number): Item | undefined;
+  // Full-text search over active items, most relevant first
+  search(query: SearchQuery): SearchResult;
+  create(input: ItemInput, options?: CreateOptions): Item;
+  update(
+    id: number,
+    input: ItemInput,
+    options?: WriteOptions
+  ): Item | undefined;
+  // Move an active item to the trash
+  delete(id: number, options?: WriteOptions): Item | undefined;
+  // Move a trashed item back
+  restore(id: number, options?: WriteOptions): Item | undefined;
+  // Permanently delete a trashed item
+  purge(id: number, options?: WriteOptions): Item | undefined;
+  // Permanently delete items trashed before an ISO 8601 time. Returns how
+  // many were removed.
+  purgeDeleted(deletedBefore: string): number;
+  // Every change recorded for an item, oldest first. Each write above
+  // records its event in the same transaction; purging keeps the history,
+  // snapshots included.
+  history(id: number): ItemEvent[];
+  // The first `limit` events of all items recorded after event `id`, oldest
+  // first
+  eventsAfter(id: number, limit: number): ItemEvent[];
+  // When any item was last created, changed or deleted (ISO 8601); unset
+  // before the first write
+  lastModified(): string | undefined;
+  // Call listener with every event once its write has committed. Returns a
+  // function that unsubscribes.
+  subscribe(listener: ItemEventListener): () => void;
+  // Run fn so that its writes are applied together or, if it throws, not at
+  // all. Calls may be nested.
+  transaction<T>(fn: () => T): T;
+  // Remove all items and history and restart ID numbering (used by tests)
+  reset(): void;
+  close(): void;
+};
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { validate, type ObjectSchema } from "./validation.js";
+
+const schema: ObjectSchema = {
+  type: "object",
+  fields: {
+    code: { type: "string", required: true, pattern: /^[A-Z]{3}$/ },
+    quantity: { type: "integer", minimum: 1 },
+    tags: {
+      type: "array",
+      maxItems: 2,
+      items: { type: "string", trim: true, maxLength: 5 },
+    },
+    range: {
+      type: "object",
+      fields: {
+        from: { type: "number", required: true },
+        to: {
+          type: "number",
+          required: true,
+          rules: [
+            {
+              code: "before_from",
+              message: "to must not be before from",
+              test: (to, range) => to >= (range.from as number),
+            },
+          ],
+        },
+      },
+    },
+  },
+};
+
+describe("validate", () => {
+  it("should return the cleaned value", () => {
+    const result = validate(schema, {
+      code: "ABC",
+      quantity: 2,
+      tags: [" a ", "b"],
+      range: { from: 1, to: 2 },
+    });
+
+    expect(result).toEqual({
+      value: {
+        code: "ABC",
+        quantity: 2,
+        tags: ["a", "b"],
+        range: { from: 1, to: 2 },
+      },
+      errors: [],
+    });
+  });
+
+  it("should report nested errors with field paths and codes", () => {
+    const result = validate(schema, {
+      code: "abc",
+      quantity: 1.5,
+      tags: ["ok", "too long"],
+      range: { from: 3, to: 2, step: 1 },
+    });
+
+    expect(result.value).toBeUndefined();
+    expect(result.errors).toEqual([
+      {
+        field: "code",
+        code: "pattern",
+        message: '"code" has an invalid format',
+      },
+      {
+        field: "quantity",
+        code: "invalid_type",
+        message: '"quantity" must be an integer',
+      },
+      {
+        field: "tags[1]",
+        code: "too_long",
+        message: '"tags[1]" must be 5 characters or less',
+      },
+      {
+        field: "range.to",
+        code: "before_from",
+        message: "to must not be before from",
+      },
+      {
+        field: "range.step",
+        code: "unknown_field",
+        message: 'Unknown field "step"',
+      },
+    ]);
+  });
+
+  it("should skip custom rules for values that already failed", () => {
+    const result = validate(schema, { code: "ABC", range: { from: 1 } });
+
+    expect(result.errors).toEqual([
+      {
+        field: "range.to",
+        code: "required",
+        message: '"range.to" is required and must be a number',
+      },
+    ]);
+  });
+
+  it("should reject strings outside an enum", () => {
+    const result = validate(
+      {
+        type: "object",
+        fields: {
+          color: { type: "string", label: "Color", enum: ["red", "blue"] },
+        },
+      },
+      { color: "green" }
+    );
+
+    expect(result.errors).toEqual([
+      {
+        field: "color",
+        code: "invalid_value",
+        message: "Color must be one of red, blue",
+      },
+    ]);
+  });
+
+  it("should reject fields named after Object.prototype members", () => {
+    const result = validate(schema, {
+      code: "ABC",
+      constructor: 5,
+      toString: 1,
+    });
+
+    expect(result.errors).toEqual([
+      {
+        field: "constructor",
+        code: "unknown_field",
+        message: 'Unknown field "constructor"',
+      },
+      {
+        field: "toString",
+        code: "unknown_field",
+        message: 'Unknown field "toString"',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,317 @@
+// Declarative validation for JSON request bodies. A schema describes each
+// field; validate() returns the cleaned value or a list of structured errors.
+
+export type ValidationError = {
+  // Path to the offending value, e.g. "name" or "tags[2]"; "" for the root
+  field: string;
+  code: string;
+  message: string;
+};
+
+export type Rule = {
+  code: string;
+  message: string;
+  // Receives the cleaned field value and the raw object containing it (the
+  // value itself at the root)
+  test: (value: any, parent: Record<string, unknown>) => boolean;
+};
+
+type BaseSchema = {
+  // Human readable name used in messages, e.g. "Name"
+  label?: string;
+  required?: boolean;
+  rules?: Rule[];
+};
+
+export type StringSchema = BaseSchema & {
+  type: "string";
+  // Trim surrounding whitespace before checking and returning the value
+  trim?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  // Allowed values
+  enum?: readonly string[];
+};
+
+export type NumberSchema = BaseSchema & {
+  type: "number" | "integer";
+  minimum?: number;
+  maximum?: number;
+};
+
+export type BooleanSchema = BaseSchema & {
+  type: "boolean";
+};
+
+export type ArraySchema = BaseSchema & {
+  type: "array";
+  items: Schema;
+  minItems?: number;
+  maxItems?: number;
+};
+
+export type ObjectSchema = BaseSchema & {
+  type: "object";
+  fields: Record<string, Schema>;
+  // Unknown properties are rejected unless this is set
+  allowUnknown?: boolean;
+};
+
+export type Schema =
+  | StringSchema
+  | NumberSchema
+  | BooleanSchema
+  | ArraySchema
+  | ObjectSchema;
+
+const typeDescriptions: Record<Schema["type"], string> = {
+  string: "a non-empty string",
+  number: "a number",
+  integer: "an integer",
+  boolean: "a boolean",
+  array: "an array",
+  object: "an object",
+};
+
+const joinPath = (parent: string, key: string | number) =>
+  typeof key === "number"
+    ? `${parent}[${key}]`
+    : parent
+    ? `${parent}.${key}`
+    : key;
+
+const labelFor = (schema: Schema, field: string) =>
+  schema.label ?? (field ? `"${field}"` : "Value");
+
+const isEmpty = (schema: Schema, value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (schema.type === "string" &&
+    typeof value === "string" &&
+    (schema.trim ? value.trim() : value).length === 0);
+
+const hasType = (schema: Schema, value: unknown) => {
+  switch (schema.type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+  }
+};
+
+const check = (
+  schema: Schema,
+  value: unknown,
+  field: string,
+  errors: ValidationError[],
+  parent: Record<string, unknown>
+): unknown => {
+  const label = labelFor(schema, field);
+  const description = typeDescriptions[schema.type];
+
+  if (isEmpty(schema, value)) {
+    if (schema.required) {
+      errors.push({
+        field,
+        code: "required",
+        message: `${label} is required and must be ${description}`,
+      });
+    }
+    return undefined;
+  }
+
+  if (!hasType(schema, value)) {
+    errors.push({
+      field,
+      code: "invalid_type",
+      message: schema.required
+        ? `${label} is required and must be ${description}`
+        : `${label} must be ${description}`,
+    });
+    return undefined;
+  }
+
+  const errorCount = errors.length;
+  let result: unknown = value;
+
+  switch (schema.type) {
+    case "string": {
+      const text = schema.trim ? (value as string).trim() : (value as string);
+      if (schema.minLength !== undefined && text.length < schema.minLength) {
+        errors.push({
+          field,
+          code: "too_short",
+          message: `${label} must be at least ${schema.minLength} characters`,
+        });
+      }
+      if (schema.maxLength !== undefined && text.length > schema.maxLength) {
+        errors.push({
+          field,
+          code: "too_long",
+          message: `${label} must be ${schema.maxLength} characters or less`,
+        });
+      }
+      if (schema.pattern && !schema.pattern.test(text)) {
+        errors.push({
+          field,
+          code: "pattern",
+          message: `${label} has an invalid format`,
+        });
+      }
+      if (schema.enum && !schema.enum.includes(text)) {
+        errors.push({
+          field,
+          code: "invalid_value",
+          message: `${label} must be one of ${schema.enum.join(", ")}`,
+        });
+      }
+      result = text;
+      break;
+    }
+
+    case "number":
+    case "integer": {
+      const number = value as number;
+      if (schema.minimum !== undefined && number < schema.minimum) {
+        errors.push({
+          field,
+          code: "too_small",
+          message: `${label} must be at least ${schema.minimum}`,
+        });
+      }
+      if (schema.maximum !== undefined && number > schema.maximum) {
+        errors.push({
+          field,
+          code: "too_large",
+          message: `${label} must be at most ${schema.maximum}`,
+        });
+      }
+      break;
+    }
+
+    case "array": {
+      const array = value as unknown[];
+      if (schema.minItems !== undefined && array.length < schema.minItems) {
+        errors.push({
+          field,
+          code: "too_few",
+          message: `${label} must contain at least ${schema.minItems} items`,
+        });
+      }
+      if (schema.maxItems !== undefined && array.length > schema.maxItems) {
+        errors.push({
+          field,
+          code: "too_many",
+          message: `${label} must contain at most ${schema.maxItems} items`,
+        });
+      }
+      result = array.map((item, index) =>
+        check(schema.items, item, joinPath(field, index), errors, parent)
+      );
+      break;
+    }
+
+    case "object":
+      result = checkObject(
+        schema,
+        value as Record<string, unknown>,
+        field,
+        errors
+      );
+      break;
+  }
+
+  // Custom rules only run once the built-in checks pass
+  if (errors.length === errorCount) {
+    for (const rule of schema.rules ?? []) {
+      if (!rule.test(result, parent)) {
+        errors.push({ field, code: rule.code, message: rule.message });
+      }
+    }
+  }
+
+  return result;
+};
+
+const checkObject = (
+  schema: ObjectSchema,
+  data: Record<string, unknown>,
+  path: string,
+  errors: ValidationError[]
+) => {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+    const value = check(
+      fieldSchema,
+      data[key],
+      joinPath(path, key),
+      errors,
+      data
+    );
+
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+
+  for (const key of Object.keys(data)) {
+    if (Object.hasOwn(schema.fields, key)) {
+      continue;
+    }
+    if (schema.allowUnknown) {
+      result[key] = data[key];
+    } else {
+      errors.push({
+        field: joinPath(path, key),
+        code: "unknown_field",
+        message: `Unknown field "${key}"`,
+      });
+    }
+  }
+
+  return result;
+};
+
+// Validate a parsed request body against an object schema
+export const validate = <T>(
+  schema: ObjectSchema,
+  data: unknown
+): { value?: T; errors: ValidationError[] } => {
+  if (data === undefined || data === null) {
+    return {
+      errors: [
+        { field: "", code: "required", message: "Request body is required" },
+      ],
+    };
+  }
+
+  if (!hasType(schema, data)) {
+    return {
+      errors: [
+        {
+          field: "",
+          code: "invalid_type",
+          message: "Request body must be a JSON object",
+        },
+      ],
+    };
+  }
+
+  const errors: ValidationError[] = [];
+  const root = data as Record<string, unknown>;
+  const value = check(schema, root, "", errors, root) as T;
+
+  return errors.length > 0 ? { errors } : { value, errors };
+};
@@ -0,0 +1,160 @@
+import { createHmac } from "node:crypto";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ItemEvent } from "./store.js";
+import {
+  createMemoryWebhookStore,
+  createSqliteWebhookStore,
+  signWebhookPayload,
+  type WebhookStore,
+} from "./webhooks.js";
+
+const event = (id: number, type: ItemEvent["type"]): ItemEvent => ({
+  id,
+  itemId: 1,
+  type,
+  at: "2024-01-01T00:00:00.000Z",
+});
+
+describe.each([
+  { backend: "memory", createStore: createMemoryWebhookStore },
+  {
+    backend: "sqlite",
+    createStore: () => createSqliteWebhookStore(":memory:"),
+  },
+])("$backend webhook store", ({ createStore }) => {
+  let store: WebhookStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it("should queue events for enabled webhooks subscribed to them", () => {
+    const all = store.create({ url: "http://a.example", events: [] }).webhook;
+    const deletes = store.create({
+      url: "http://b.example",
+      events: ["deleted"],
+    }).webhook;
+    const disabled = store.create({ url: "http://c.example", events: [] });
+    store.update(disabled.webhook.id, { enabled: false });
+
+    const created = store.enqueue(event(1, "created"), "{}", "2024-01-01");
+    const deleted = store.enqueue(event(2, "deleted"), "{}", "2024-01-01");
+
+    expect(created.map((delivery) => delivery.webhookId)).toEqual([all.id]);
+    expect(deleted.map((delivery) => delivery.webhookId)).toEqual([
+      all.id,
+      deletes.id,
+    ]);
+    expect(created[0]).toMatchObject({
+      eventId: 1,
+      eventType: "created",
+      status: "pending",
+      attempts: 0,
+    });
+  });
+
+  it("should hand out due deliveries with their URL and secret", () => {
+    const { webhook, secret } = store.create({
+      url: "http://a.example/hook",
+      events: [],
+    });
+    store.enqueue(event(1, "created"), '{"id":1}', "2024-01-01T00:00:00Z");
+
+    expect(store.due("2023-12-31T00:00:00Z", 10)).toEqual([]);
+    expect(store.due("2024-01-01T00:00:00Z", 10)).toEqual([
+      {
+        delivery: expect.objectContaining({ webhookId: webhook.id }),
+        url: "http://a.example/hook",
+        secret,
+        payload: '{"id":1}',
+      },
+    ]);
+
+    store.update(webhook.id, { enabled: false });
+    expect(store.due("2024-01-01T00:00:00Z", 10)).toEqual([]);
+  });
+
+  it("should record attempts and count consecutive failures", () => {
+    const { webhook } = store.create({ url: "http://a.example", events: [] });
+    const [delivery] = store.enqueue(event(1, "created"), "{}", "2024-01-01");
+
+    const failed = store.recordAttempt(delivery.id, {
+      at: "2024-01-01T00:00:01Z",
+      ok: false,
+      responseStatus: 500,
+      error: "Receiver answered 500",
+      retryAt: "2024-01-01T00:00:31Z",
+    });
+
+    expect(failed?.delivery).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      nextAttemptAt: "2024-01-01T00:00:31Z",
+      responseStatus: 500,
+    });
+    expect(failed?.webhook.failureCount).toBe(1);
+
+    const succeeded = store.recordAttempt(delivery.id, {
+      at: "2024-01-01T00:00:31Z",
+      ok: true,
+      responseStatus: 204,
+    });
+
+    expect(succeeded?.delivery).toEqual({
+      id: delivery.id,
+      webhookId: webhook.id,
+      eventId: 1,
+      eventType: "created",
+      status: "succeeded",
+      attempts: 2,
+      lastAttemptAt: "2024-01-01T00:00:31Z",
+      responseStatus: 204,
+      createdAt: "2024-01-01",
+    });
+    expect(succeeded?.webhook.failureCount).toBe(0);
+    expect(store.due("2025-01-01", 10)).toEqual([]);
+  });
+
+  it("should clear the failure count when enabled again", () => {
+    const { webhook } = store.create({ url: "http://a.example", events: [] });
+    const [delivery] = store.enqueue(event(1, "created"), "{}", "2024-01-01");
+    store.recordAttempt(delivery.id, { at: "2024-01-01", ok: false });
+
+    const disabled = store.update(webhook.id, { enabled: false });
+    expect(disabled).toMatchObject({
+      enabled: false,
+      failureCount: 1,
+      disabledAt: expect.any(String),
+    });
+
+    const enabled = store.update(webhook.id, { enabled: true });
+    expect(enabled).toMatchObject({ enabled: true, failureCount: 0 });
+    expect(enabled).not.toHaveProperty("disabledAt");
+  });
+
+  it("should delete a webhook with its deliveries", () => {
+    const { webhook } = store.create({ url: "http://a.example", events: [] });
+    store.enqueue(event(1, "created"), "{}", "2024-01-01");
+
+    expect(store.delete(webhook.id)).toEqual(webhook);
+    expect(store.get(webhook.id)).toBeUndefined();
+    expect(store.deliveries(webhook.id)).toEqual([]);
+    expect(store.delete(webhook.id)).toBeUndefined();
+  });
+});
+
+describe("signWebhookPayload", () => {
+  it("should sign the timestamp and body with HMAC-SHA256", () => {
+    const expected = createHmac("sha256", "secret")
+      .update('1700000000.{"id":1}')
+      .digest("hex");
+
+    expect(signWebhookPayload("secret", 1700000000, '{"id":1}')).toBe(
+      `sha256=${expected}`
+    );
+  });
+});
@@ -0,0 +1,647 @@
+import { createHmac, randomBytes } from "node:crypto";
+import { openDatabase } from "./db.js";
+import { toChangeMessage } from "./events.js";
+import type { Logger } from "./logger.js";
+import type { ItemEvent, ItemEventType } from "./store.js";
+
+export const webhookEventTypes: ItemEventType[] = [
+  "created",
+  "updated",
+  "deleted",
+  "restored",
+  "purged",
+];
+
+export type Webhook = {
+  id: number;
+  // Receives a POST for every matching item event
+  url: string;
+  // Event types to deliver; every type when empty
+  events: ItemEventType[];
+  enabled: boolean;
+  // Failed attempts since the last successful one
+  failureCount: number;
+  createdAt: string;
+  // Set while disabled, by a caller or after repeated failures
+  disabledAt?: string;
+};
+
+export type WebhookInput = {
+  url: string;
+  events: ItemEventType[];
+};
+
+export type WebhookChanges = Partial<WebhookInput> & {
+  // Enabling again also clears the failure count
+  enabled?: boolean;
+};
+
+export type DeliveryStatus = "pending" | "succeeded" | "failed";
+
+// One event queued for one webhook, with the outcome of its last attempt
+export type WebhookDelivery = {
+  id: number;
+  webhookId: number;
+  eventId: number;
+  eventType: ItemEventType;
+  status: DeliveryStatus;
+  attempts: number;
+  // Unset once the delivery succeeded or gave up
+  nextAttemptAt?: string;
+  lastAttemptAt?: string;
+  // Status code of the receiver's last answer
+  responseStatus?: number;
+  // Why the last attempt failed
+  error?: string;
+  createdAt: string;
+};
+
+// A delivery to attempt, with what is needed to send it
+export type DueDelivery = {
+  delivery: WebhookDelivery;
+  url: string;
+  secret: string;
+  payload: string;
+};
+
+export type DeliveryAttempt = {
+  // ISO 8601, like every time below
+  at: string;
+  ok: boolean;
+  responseStatus?: number;
+  error?: string;
+  // When to try a failed delivery again; it fails for good when unset
+  retryAt?: string;
+};
+
+// Registered webhooks and their delivery queue
+export type WebhookStore = {
+  // The signing secret is returned here and nowhere else
+  create(input: WebhookInput): { webhook: Webhook; secret: string };
+  get(id: number): Webhook | undefined;
+  list(): Webhook[];
+  update(id: number, changes: WebhookChanges): Webhook | undefined;
+  // Also removes the webhook's deliveries
+  delete(id: number): Webhook | undefined;
+  // Queue payload for every enabled webhook subscribed to the event's type
+  enqueue(event: ItemEvent, payload: string, at: string): WebhookDelivery[];
+  // Pending deliveries of enabled webhooks that are due at `at`, oldest
+  // first
+  due(at: string, limit: number): DueDelivery[];
+  // Store the outcome of an attempt and count it towards the webhook's
+  // failures. Undefined when the delivery no longer exists.
+  recordAttempt(
+    id: number,
+    attempt: DeliveryAttempt
+  ): { delivery: WebhookDelivery; webhook: Webhook } | undefined;
+  // Delivery log of a webhook, newest first
+  deliveries(webhookId: number): WebhookDelivery[];
+  close(): void;
+};
+
+const generateSecret = () => `whsec_${randomBytes(24).toString("base64url")}`;
+
+const subscribes = (webhook: Webhook, type: ItemEventType) =>
+  webhook.enabled &&
+  (webhook.events.length === 0 || webhook.events.includes(type));
+
+// Value of the X-Webhook-Signature header: an HMAC-SHA256 of the timestamp
+// and body, so receivers can check both origin and freshness
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string
+) =>
+  `sha256=${createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex")}`;
+
+export const createMemoryWebhookStore = (): WebhookStore => {
+  const webhooks: (Webhook & { secret: string })[] = [];
+  let deliveries: (WebhookDelivery & { payload: string })[] = [];
+  let nextId = 1;
+  let nextDeliveryId = 1;
+
+  const withoutSecret = ({
+    secret,
+    ...webhook
+  }: Webhook & { secret: string }) => webhook;
+
+  const withoutPayload = ({
+    payload,
+    ...delivery
+  }: WebhookDelivery & { payload: string }) => delivery;
+
+  const find = (id: number) => webhooks.find((webhook) => webhook.id === id);
+
+  return {
+    create: (input) => {
+      const webhook = {
+        id: nextId++,
+        ...input,
+        enabled: true,
+        failureCount: 0,
+        createdAt: new Date().toISOString(),
+      };
+      const secret = generateSecret();
+      webhooks.push({ ...webhook, secret });
+      return { webhook, secret };
+    },
+
+    get: (id) => {
+      const webhook = find(id);
+      return webhook && withoutSecret(webhook);
+    },
+
+    list: () => webhooks.map(withoutSecret),
+
+    update: (id, { enabled, ...changes }) => {
+      const webhook = find(id);
+
+      if (!webhook) {
+        return undefined;
+      }
+
+      Object.assign(webhook, changes);
+      if (enabled === true && !webhook.enabled) {
+        webhook.enabled = true;
+        webhook.failureCount = 0;
+        delete webhook.disabledAt;
+      } else if (enabled === false && webhook.enabled) {
+        webhook.enabled = false;
+        webhook.disabledAt = new Date().toISOString();
+      }
+      return withoutSecret(webhook);
+    },
+
+    delete: (id) => {
+      const index = webhooks.findIndex((webhook) => webhook.id === id);
+
+      if (index === -1) {
+        return undefined;
+      }
+
+      deliveries = deliveries.filter((delivery) => delivery.webhookId !== id);
+      return withoutSecret(webhooks.splice(index, 1)[0]);
+    },
+
+    enqueue: (event, payload, at) =>
+      webhooks
+        .filter((webhook) => subscribes(webhook, event.type))
+        .map((webhook) => {
+          const delivery = {
+            id: nextDeliveryId++,
+            webhookId: webhook.id,
+            eventId: event.id,
+            eventType: event.type,
+            status: "pending" as const,
+            attempts: 0,
+            nextAttemptAt: at,
+            createdAt: at,
+          };
+          deliveries.push({ ...delivery, payload });
+          return delivery;
+        }),
+
+    due: (at, limit) =>
+      deliveries
+        .filter(
+          (delivery) =>
+            delivery.status === "pending" &&
+            delivery.nextAttemptAt! <= at &&
+            find(delivery.webhookId)?.enabled
+        )
+        .slice(0, limit)
+        .map((delivery) => {
+          const { url, secret } = find(delivery.webhookId)!;
+          return {
+            delivery: withoutPayload(delivery),
+            url,
+            secret,
+            payload: delivery.payload,
+          };
+        }),
+
+    recordAttempt: (id, { at, ok, responseStatus, error, retryAt }) => {
+      const index = deliveries.findIndex((delivery) => delivery.id === id);
+
+      if (index === -1) {
+        return undefined;
+      }
+
+      // The previous outcome is replaced as a whole
+      const {
+        nextAttemptAt: _nextAttemptAt,
+        responseStatus: _responseStatus,
+        error: _error,
+        ...delivery
+      } = deliveries[index];
+      deliveries[index] = {
+        ...delivery,
+        status: ok ? "succeeded" : retryAt ? "pending" : "failed",
+        attempts: delivery.attempts + 1,
+        lastAttemptAt: at,
+        ...(!ok && retryAt && { nextAttemptAt: retryAt }),
+        ...(responseStatus !== undefined && { responseStatus }),
+        ...(error !== undefined && { error }),
+      };
+
+      const webhook = find(delivery.webhookId)!;
+      webhook.failureCount = ok ? 0 : webhook.failureCount + 1;
+
+      return {
+        delivery: withoutPayload(deliveries[index]),
+        webhook: withoutSecret(webhook),
+      };
+    },
+
+    deliveries: (webhookId) =>
+      deliveries
+        .filter((delivery) => delivery.webhookId === webhookId)
+        .reverse()
+        .map(withoutPayload),
+
+    close: () => {},
+  };
+};
+
+type WebhookRow = {
+  id: number;
+  url: string;
+  events: string;
+  secret: string;
+  enabled: number;
+  failure_count: number;
+  created_at: string;
+  disabled_at: string | null;
+};
+
+type DeliveryRow = {
+  id: number;
+  webhook_id: number;
+  event_id: number;
+  event_type: ItemEventType;
+  payload: string;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+};
+
+const fromRow = (row: WebhookRow): Webhook => ({
+  id: row.id,
+  url: row.url,
+  events: JSON.parse(row.events) as ItemEventType[],
+  enabled: row.enabled === 1,
+  failureCount: row.failure_count,
+  createdAt: row.created_at,
+  ...(row.disabled_at !== null && { disabledAt: row.disabled_at }),
+});
+
+const fromDeliveryRow = (row: DeliveryRow): WebhookDelivery => ({
+  id: row.id,
+  webhookId: row.webhook_id,
+  eventId: row.event_id,
+  eventType: row.event_type,
+  status: row.status,
+  attempts: row.attempts,
+  ...(row.next_attempt_at !== null && { nextAttemptAt: row.next_attempt_at }),
+  ...(row.last_attempt_at !== null && { lastAttemptAt: row.last_attempt_at }),
+  ...(row.response_status !== null && {
+    responseStatus: row.response_status,
+  }),
+  ...(row.error !== null && { error: row.error }),
+  createdAt: row.created_at,
+});
+
+export const createSqliteWebhookStore = (dbPath: string): WebhookStore => {
+  const db = openDatabase(dbPath);
+
+  const find = (id: number) =>
+    db.prepare("SELECT * FROM webhooks WHERE id = ?").get(id) as
+      | WebhookRow
+      | undefined;
+
+  const update = db.transaction(
+    (id: number, { enabled, ...changes }: WebhookChanges) => {
+      const current = find(id);
+
+      if (!current) {
+        return undefined;
+      }
+
+      const wasEnabled = current.enabled === 1;
+      const row = db
+        .prepare(
+          `UPDATE webhooks
+           SET url = ?, events = ?, enabled = ?, failure_count = ?,
+             disabled_at = ?
+           WHERE id = ? RETURNING *`
+        )
+        .get(
+          changes.url ?? current.url,
+          changes.events ? JSON.stringify(changes.events) : current.events,
+          enabled ?? wasEnabled ? 1 : 0,
+          enabled === true && !wasEnabled ? 0 : current.failure_count,
+          enabled === true
+            ? null
+            : enabled === false && wasEnabled
+            ? new Date().toISOString()
+            : current.disabled_at,
+          id
+        ) as WebhookRow;
+      return fromRow(row);
+    }
+  );
+
+  const remove = db.transaction((id: number) => {
+    db.prepare("DELETE FROM webhook_deliveries WHERE webhook_id = ?").run(id);
+    const row = db
+      .prepare("DELETE FROM webhooks WHERE id = ? RETURNING *")
+      .get(id) as WebhookRow | undefined;
+    return row && fromRow(row);
+  });
+
+  const enqueue = db.transaction(
+    (event: ItemEvent, payload: string, at: string) => {
+      const insert = db.prepare(
+        `INSERT INTO webhook_deliveries
+           (webhook_id, event_id, event_type, payload, status, next_attempt_at,
+            created_at)
+         VALUES (?, ?, ?, ?, 'pending', ?, ?)
+         RETURNING *`
+      );
+      const webhooks = (
+        db
+          .prepare("SELECT * FROM webhooks WHERE enabled = 1 ORDER BY id")
+          .all() as WebhookRow[]
+      ).map(fromRow);
+
+      return webhooks
+        .filter((webhook) => subscribes(webhook, event.type))
+        .map((webhook) =>
+          fromDeliveryRow(
+            insert.get(
+              webhook.id,
+              event.id,
+              event.type,
+              payload,
+              at,
+              at
+            ) as DeliveryRow
+          )
+        );
+    }
+  );
+
+  const recordAttempt = db.transaction(
+    (
+      id: number,
+      { at, ok, responseStatus, error, retryAt }: DeliveryAttempt
+    ) => {
+      const row = db
+        .prepare(
+          `UPDATE webhook_deliveries
+           SET status = ?, attempts = attempts + 1, next_attempt_at = ?,
+             last_attempt_at = ?, response_status = ?, error = ?
+           WHERE id = ? RETURNING *`
+        )
+        .get(
+          ok ? "succeeded" : retryAt ? "pending" : "failed",
+          ok ? null : retryAt ?? null,
+          at,
+          responseStatus ?? null,
+          error ?? null,
+          id
+        ) as DeliveryRow | undefined;
+
+      if (!row) {
+        return undefined;
+      }
+
+      const webhook = db
+        .prepare(
+          `UPDATE webhooks
+           SET failure_count = CASE WHEN ? THEN 0 ELSE failure_count + 1 END
+           WHERE id = ? RETURNING *`
+        )
+        .get(ok ? 1 : 0, row.webhook_id) as WebhookRow;
+
+      return { delivery: fromDeliveryRow(row), webhook: fromRow(webhook) };
+    }
+  );
+
+  return {
+    create: (input) => {
+      const secret = generateSecret();
+      const row = db
+        .prepare(
+          `INSERT INTO webhooks (url, events, secret, created_at)
+           VALUES (?, ?, ?, ?)
+           RETURNING *`
+        )
+        .get(
+          input.url,
+          JSON.stringify(input.events),
+          secret,
+          new Date().toISOString()
+        ) as WebhookRow;
+      return { webhook: fromRow(row), secret };
+    },
+
+    get: (id) => {
+      const row = find(id);
+      return row && fromRow(row);
+    },
+
+    list: () =>
+      (
+        db.prepare("SELECT * FROM webhooks ORDER BY id").all() as WebhookRow[]
+      ).map(fromRow),
+
+    update: (id, changes) => update(id, changes),
+
+    delete: (id) => remove(id),
+
+    enqueue: (event, payload, at) => enqueue(event, payload, at),
+
+    due: (at, limit) =>
+      (
+        db
+          .prepare(
+            `SELECT webhook_deliveries.*, webhooks.url, webhooks.secret
+             FROM webhook_deliveries
+             JOIN webhooks ON webhooks.id = webhook_deliveries.webhook_id
+             WHERE webhook_deliveries.status = 'pending'
+               AND webhook_deliveries.next_attempt_at <= ?
+               AND webhooks.enabled = 1
+             ORDER BY webhook_deliveries.id
+             LIMIT ?`
+          )
+          .all(at, limit) as (DeliveryRow & { url: string; secret: string })[]
+      ).map(({ url, secret, ...row }) => ({
+        delivery: fromDeliveryRow(row),
+        url,
+        secret,
+        payload: row.payload,
+      })),
+
+    recordAttempt: (id, attempt) => recordAttempt(id, attempt),
+
+    deliveries: (webhookId) =>
+      (
+        db
+          .prepare(
+            "SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY id DESC"
+          )
+          .all(webhookId) as DeliveryRow[]
+      ).map(fromDeliveryRow),
+
+    close: () => {
+      if (db.open) {
+        db.close();
+      }
+    },
+  };
+};
+
+// Attempts are retried after 30 s, 1 min, 2 min, ... up to an hour apart
+const retryDelay = (attempts: number) =>
+  Math.min(30_000 * 2 ** (attempts - 1), 60 * 60 * 1000);
+
+// Deliveries attempted per run
+const batchSize = 50;
+
+export type WebhookDispatcher = {
+  // Queue deliveries of an item event
+  enqueue(event: ItemEvent): void;
+  // Attempt every due delivery once. Resolves with how many were attempted;
+  // calls made while a run is in progress share it.
+  deliver(): Promise<number>;
+};
+
+export const createWebhookDispatcher = ({
+  store,
+  log,
+  timeout,
+  maxAttempts,
+  disableAfter,
+  now = Date.now,
+}: {
+  store: WebhookStore;
+  log: Logger;
+  // Milliseconds to wait for a receiver's answer
+  timeout: number;
+  // Attempts per delivery before it fails for good
+  maxAttempts: number;
+  // Consecutive failed attempts after which a webhook is disabled
+  disableAfter: number;
+  now?: () => number;
+}): WebhookDispatcher => {
+  let running: Promise<number> | undefined;
+
+  const isoNow = () => new Date(now()).toISOString();
+
+  // POST one delivery; only 2xx answers count as delivered
+  const send = async ({
+    delivery,
+    url,
+    secret,
+    payload,
+  }: DueDelivery): Promise<Omit<DeliveryAttempt, "at" | "retryAt">> => {
+    const timestamp = Math.floor(now() / 1000);
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Webhook-Delivery": String(delivery.id),
+          "X-Webhook-Event": delivery.eventType,
+          "X-Webhook-Timestamp": String(timestamp),
+          "X-Webhook-Signature": signWebhookPayload(secret, timestamp, payload),
+        },
+        body: payload,
+        redirect: "manual",
+        signal: AbortSignal.timeout(timeout),
+      });
+      // Read the answer so the connection can be reused
+      await response.arrayBuffer();
+
+      return response.ok
+        ? { ok: true, responseStatus: response.status }
+        : {
+            ok: false,
+            responseStatus: response.status,
+            error: `Receiver answered ${response.status}`,
+          };
+    } catch (error) {
+      const cause = (error as Error & { cause?: Error }).cause;
+      return { ok: false, error: cause?.message ?? (error as Error).message };
+    }
+  };
+
+  const attempt = async (due: DueDelivery) => {
+    const result = await send(due);
+    const attempts = due.delivery.attempts + 1;
+    const retryAt =
+      !result.ok && attempts < maxAttempts
+        ? new Date(now() + retryDelay(attempts)).toISOString()
+        : undefined;
+    const recorded = store.recordAttempt(due.delivery.id, {
+      at: isoNow(),
+      ...result,
+      retryAt,
+    });
+
+    if (!recorded || result.ok) {
+      return;
+    }
+
+    const { webhook } = recorded;
+    log.warn("webhook delivery failed", {
+      webhookId: webhook.id,
+      deliveryId: due.delivery.id,
+      attempts,
+      error: result.error,
+    });
+
+    if (webhook.enabled && webhook.failureCount >= disableAfter) {
+      store.update(webhook.id, { enabled: false });
+      log.warn("webhook disabled after repeated failures", {
+        webhookId: webhook.id,
+        failures: webhook.failureCount,
+      });
+    }
+  };
+
+  const run = async () => {
+    const due = store.due(isoNow(), batchSize);
+    await Promise.all(due.map(attempt));
+    return due.length;
+  };
+
+  return {
+    enqueue: (event) => {
+      const { id, type, item } = toChangeMessage(event);
+      const payload = JSON.stringify({
+        id,
+        type,
+        at: event.at,
+        ...(event.actor !== undefined && { actor: event.actor }),
+        item,
+      });
+      store.enqueue(event, payload, isoNow());
+    },
+
+    deliver: () => {
+      running ??= run().finally(() => {
+        running = undefined;
+      });
+      return running;
+    },
+  };
+};
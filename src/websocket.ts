@@ -0,0 +1,199 @@
+import { createHash } from "node:crypto";
+import http from "node:http";
+import type { Duplex } from "node:stream";
+
+// Appended to the client's key to compute Sec-WebSocket-Accept (RFC 6455)
+const handshakeGuid = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+const opcodes = { text: 0x1, close: 0x8, ping: 0x9, pong: 0xa };
+
+// Clients only send control frames here, so anything bigger is refused
+const maxFrameSize = 64 * 1024;
+
+export type WebSocketConnection = {
+  // Send a text message; ignored once the connection is closing
+  send(text: string): void;
+  // Start the closing handshake
+  close(code?: number): void;
+  // Called once when the connection is gone
+  onClose(listener: () => void): void;
+};
+
+type Frame = { opcode: number; payload: Buffer; size: number };
+
+export const isWebSocketUpgrade = (req: http.IncomingMessage) =>
+  req.headers.upgrade?.toLowerCase() === "websocket";
+
+// Answer an upgrade request with a plain HTTP response and drop the socket
+export const rejectUpgrade = (
+  socket: Duplex,
+  statusCode: number,
+  headers: Record<string, string> = {}
+) => {
+  const lines = [
+    `HTTP/1.1 ${statusCode} ${http.STATUS_CODES[statusCode]}`,
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    "Connection: close",
+    "Content-Length: 0",
+  ];
+  socket.end(`${lines.join("\r\n")}\r\n\r\n`);
+};
+
+const encodeFrame = (opcode: number, payload: Buffer) => {
+  const length = payload.length;
+  let header: Buffer;
+
+  if (length < 126) {
+    header = Buffer.from([0, length]);
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  header[0] = 0x80 | opcode;
+
+  return Buffer.concat([header, payload]);
+};
+
+// Decode the first frame in buffer; undefined while it is incomplete
+const decodeFrame = (buffer: Buffer): Frame | "too large" | undefined => {
+  if (buffer.length < 2) {
+    return undefined;
+  }
+
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (length === 126) {
+    if (buffer.length < 4) {
+      return undefined;
+    }
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) {
+      return undefined;
+    }
+    const longLength = buffer.readBigUInt64BE(2);
+    length = longLength > maxFrameSize ? Infinity : Number(longLength);
+    offset = 10;
+  }
+
+  if (length > maxFrameSize) {
+    return "too large";
+  }
+
+  const masked = (buffer[1] & 0x80) !== 0;
+  const mask = buffer.subarray(offset, offset + (masked ? 4 : 0));
+  offset += mask.length;
+
+  if (buffer.length < offset + length) {
+    return undefined;
+  }
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    payload.forEach((byte, index) => {
+      payload[index] = byte ^ mask[index % 4];
+    });
+  }
+
+  return { opcode: buffer[0] & 0x0f, payload, size: offset + length };
+};
+
+// Complete the opening handshake for an upgrade request. Invalid handshakes
+// are answered with 400 and return undefined. Messages from the client are
+// not used; only pings and the closing handshake are answered.
+export const acceptWebSocket = (
+  req: http.IncomingMessage,
+  socket: Duplex,
+  head: Buffer
+): WebSocketConnection | undefined => {
+  const key = req.headers["sec-websocket-key"];
+
+  if (
+    req.method !== "GET" ||
+    typeof key !== "string" ||
+    Buffer.from(key, "base64").length !== 16 ||
+    req.headers["sec-websocket-version"] !== "13"
+  ) {
+    rejectUpgrade(socket, 400, { "Sec-WebSocket-Version": "13" });
+    return undefined;
+  }
+
+  const accept = createHash("sha1")
+    .update(key + handshakeGuid)
+    .digest("base64");
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+    ].join("\r\n") + "\r\n\r\n"
+  );
+
+  const closeListeners: (() => void)[] = [];
+  let closing = false;
+  let buffer = head;
+
+  const close = (code = 1000) => {
+    if (closing) {
+      return;
+    }
+    closing = true;
+
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    socket.end(encodeFrame(opcodes.close, payload));
+  };
+
+  const receive = () => {
+    while (!closing) {
+      const frame = decodeFrame(buffer);
+
+      if (frame === undefined) {
+        return;
+      }
+      if (frame === "too large") {
+        close(1009);
+        return;
+      }
+
+      buffer = buffer.subarray(frame.size);
+
+      if (frame.opcode === opcodes.close) {
+        close();
+      } else if (frame.opcode === opcodes.ping) {
+        socket.write(encodeFrame(opcodes.pong, frame.payload));
+      }
+    }
+  };
+
+  socket.on("data", (data: Buffer) => {
+    buffer = Buffer.concat([buffer, data]);
+    receive();
+  });
+  socket.on("error", () => socket.destroy());
+  socket.once("close", () => {
+    closing = true;
+    closeListeners.forEach((listener) => listener());
+  });
+  receive();
+
+  return {
+    send: (text) => {
+      if (!closing) {
+        socket.write(encodeFrame(opcodes.text, Buffer.from(text)));
+      }
+    },
+    close,
+    onClose: (listener) => {
+      closeListeners.push(listener);
+    },
+  };
+};